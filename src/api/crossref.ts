@@ -1,8 +1,8 @@
 import { fetchJson } from '../utils/http.js';
-
-const BASE_URL = 'https://api.crossref.org';
+import { providerBaseUrl } from '../config.js';
 
 export interface CrossRefConfig {
+	baseUrl?: string;
 	mailto?: string;
 	plusApiToken?: string;
 }
@@ -64,10 +64,12 @@ export interface SearchResults {
  * Implements polite pool access with automatic rate limit handling.
  */
 export class CrossRefClient {
+	private baseUrl: string;
 	private mailto?: string;
 	private plusApiToken?: string;
 
 	constructor(config: CrossRefConfig = {}) {
+		this.baseUrl = providerBaseUrl('crossref', config.baseUrl);
 		this.mailto = config.mailto;
 		this.plusApiToken = config.plusApiToken;
 	}
@@ -97,11 +99,12 @@ export class CrossRefClient {
 		}
 
 		const queryString = params.toString();
-		const url = `${BASE_URL}${endpoint}${
+		const url = `${this.baseUrl}${endpoint}${
 			queryString ? `?${queryString}` : ''
 		}`;
 
 		return (await fetchJson(url, {
+			provider: 'crossref',
 			headers: this.buildHeaders(),
 		})) as T;
 	}
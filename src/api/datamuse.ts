@@ -1,6 +1,9 @@
 import { fetchJson } from '../utils/http.js';
+import { providerBaseUrl } from '../config.js';
 
-const BASE_URL = 'https://api.datamuse.com';
+export interface DatamuseConfig {
+	baseUrl?: string;
+}
 
 export interface DatamuseWord {
 	word: string;
@@ -10,11 +13,27 @@ export interface DatamuseWord {
 	defs?: string[];
 }
 
+/**
+ * Occurrences per million words of Google Books text, from the "f:" tag
+ * Datamuse adds when asked for frequency metadata
+ */
+export function wordFrequency(word: DatamuseWord): number | undefined {
+	const tag = word.tags?.find((candidate) => candidate.startsWith('f:'));
+	const frequency = tag ? Number(tag.slice(2)) : NaN;
+	return Number.isFinite(frequency) ? frequency : undefined;
+}
+
 /**
  * Client for Datamuse API.
  * Free tier: 100,000 requests/day
  */
 export class DatamuseClient {
+	private baseUrl: string;
+
+	constructor(config: DatamuseConfig = {}) {
+		this.baseUrl = providerBaseUrl('datamuse', config.baseUrl);
+	}
+
 	/**
 	 * Find words with similar meaning
 	 */
@@ -28,7 +47,9 @@ export class DatamuseClient {
 			md: 'd',
 		});
 
-		return fetchJson(`${BASE_URL}/words?${params.toString()}`);
+		return fetchJson(`${this.baseUrl}/words?${params.toString()}`, {
+			provider: 'datamuse',
+		});
 	}
 
 	/**
@@ -43,7 +64,9 @@ export class DatamuseClient {
 			max: max.toString(),
 		});
 
-		return fetchJson(`${BASE_URL}/words?${params.toString()}`);
+		return fetchJson(`${this.baseUrl}/words?${params.toString()}`, {
+			provider: 'datamuse',
+		});
 	}
 
 	/**
@@ -56,23 +79,29 @@ export class DatamuseClient {
 			md: 's',
 		});
 
-		return fetchJson(`${BASE_URL}/words?${params.toString()}`);
+		return fetchJson(`${this.baseUrl}/words?${params.toString()}`, {
+			provider: 'datamuse',
+		});
 	}
 
 	/**
-	 * Find synonyms
+	 * Find synonyms, optionally with each one's corpus frequency and
+	 * syllable count
 	 */
 	async findSynonyms(
 		word: string,
-		max: number = 10
+		max: number = 10,
+		withFrequency: boolean = false
 	): Promise<DatamuseWord[]> {
 		const params = new URLSearchParams({
 			rel_syn: word,
 			max: max.toString(),
-			md: 'd',
+			md: withFrequency ? 'dfs' : 'd',
 		});
 
-		return fetchJson(`${BASE_URL}/words?${params.toString()}`);
+		return fetchJson(`${this.baseUrl}/words?${params.toString()}`, {
+			provider: 'datamuse',
+		});
 	}
 
 	/**
@@ -88,7 +117,9 @@ export class DatamuseClient {
 			md: 'd',
 		});
 
-		return fetchJson(`${BASE_URL}/words?${params.toString()}`);
+		return fetchJson(`${this.baseUrl}/words?${params.toString()}`, {
+			provider: 'datamuse',
+		});
 	}
 
 	/**
@@ -103,7 +134,9 @@ export class DatamuseClient {
 			max: max.toString(),
 		});
 
-		return fetchJson(`${BASE_URL}/words?${params.toString()}`);
+		return fetchJson(`${this.baseUrl}/words?${params.toString()}`, {
+			provider: 'datamuse',
+		});
 	}
 
 	/**
@@ -118,7 +151,9 @@ export class DatamuseClient {
 			max: max.toString(),
 		});
 
-		return fetchJson(`${BASE_URL}/words?${params.toString()}`);
+		return fetchJson(`${this.baseUrl}/words?${params.toString()}`, {
+			provider: 'datamuse',
+		});
 	}
 
 	/**
@@ -130,7 +165,9 @@ export class DatamuseClient {
 			max: max.toString(),
 		});
 
-		return fetchJson(`${BASE_URL}/sug?${params.toString()}`);
+		return fetchJson(`${this.baseUrl}/sug?${params.toString()}`, {
+			provider: 'datamuse',
+		});
 	}
 
 	/**
@@ -159,6 +196,8 @@ export class DatamuseClient {
 
 		queryParams.set('md', 'dps');
 
-		return fetchJson(`${BASE_URL}/words?${queryParams.toString()}`);
+		return fetchJson(`${this.baseUrl}/words?${queryParams.toString()}`, {
+			provider: 'datamuse',
+		});
 	}
 }
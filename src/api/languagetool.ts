@@ -1,6 +1,9 @@
 import { fetchJson } from '../utils/http.js';
+import { providerBaseUrl } from '../config.js';
 
-const BASE_URL = 'https://api.languagetool.org/v2';
+export interface LanguageToolConfig {
+	baseUrl?: string;
+}
 
 export interface LanguageToolMatch {
 	message: string;
@@ -40,6 +43,12 @@ export interface LanguageToolResult {
  * Free tier: 20 requests/min
  */
 export class LanguageToolClient {
+	private baseUrl: string;
+
+	constructor(config: LanguageToolConfig = {}) {
+		this.baseUrl = providerBaseUrl('languageTool', config.baseUrl);
+	}
+
 	/**
 	 * Check text for grammar and style issues
 	 */
@@ -57,9 +66,10 @@ export class LanguageToolClient {
 			formData.set('enabledOnly', 'true');
 		}
 
-		const url = `${BASE_URL}/check`;
+		const url = `${this.baseUrl}/check`;
 
 		const result = await fetchJson(url, {
+			provider: 'languageTool',
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/x-www-form-urlencoded',
@@ -76,7 +86,9 @@ export class LanguageToolClient {
 	async getLanguages(): Promise<
 		Array<{ name: string; code: string; longCode: string }>
 	> {
-		return fetchJson(`${BASE_URL}/languages`);
+		return fetchJson(`${this.baseUrl}/languages`, {
+			provider: 'languageTool',
+		});
 	}
 
 	/**
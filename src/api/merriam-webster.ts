@@ -1,5 +1,6 @@
 import { fetchJson } from '../utils/http.js';
-import { config } from '../config.js';
+import { config, providerBaseUrl } from '../config.js';
+import { MissingCredentialError, NotFoundError } from '../errors.js';
 import type {
 	MerriamWebsterThesaurusEntry,
 	MerriamWebsterDictionaryEntry,
@@ -7,24 +8,44 @@ import type {
 	DictionaryResult,
 } from '../types.js';
 
+export interface MerriamWebsterConfig {
+	baseUrl?: string;
+}
+
 export class MerriamWebsterAPI {
+	private baseUrl: string;
+
+	constructor(options: MerriamWebsterConfig = {}) {
+		this.baseUrl = providerBaseUrl('merriamWebster', options.baseUrl);
+	}
+
 	async getThesaurus(word: string): Promise<ThesaurusResult> {
 		if (!config.merriamWebster.thesaurusKey) {
-			throw new Error('MERRIAM_WEBSTER_THESAURUS_KEY not configured');
+			throw new MissingCredentialError(
+				['MERRIAM_WEBSTER_THESAURUS_KEY'],
+				'merriamWebster'
+			);
 		}
 
-		const url = `https://www.dictionaryapi.com/api/v3/references/thesaurus/json/${encodeURIComponent(
-			word
-		)}?key=${config.merriamWebster.thesaurusKey}`;
+		const url = `${
+			this.baseUrl
+		}/references/thesaurus/json/${encodeURIComponent(word)}?key=${
+			config.merriamWebster.thesaurusKey
+		}`;
 
-		const data = await fetchJson(url);
+		const data = await fetchJson(url, { provider: 'merriamWebster' });
 
 		if (Array.isArray(data) && data.length === 0) {
-			throw new Error(`No results found for "${word}"`);
+			throw new NotFoundError(`No results found for "${word}"`, {
+				provider: 'merriamWebster',
+			});
 		}
 
 		if (typeof data[0] === 'string') {
-			throw new Error(`Did you mean: ${data.join(', ')}`);
+			throw new NotFoundError(`Did you mean: ${data.join(', ')}`, {
+				provider: 'merriamWebster',
+				details: { suggestions: data },
+			});
 		}
 
 		// Process ALL entries, not just the first one
@@ -64,21 +85,31 @@ export class MerriamWebsterAPI {
 
 	async getDictionary(word: string): Promise<DictionaryResult> {
 		if (!config.merriamWebster.dictionaryKey) {
-			throw new Error('MERRIAM_WEBSTER_DICTIONARY_KEY not configured');
+			throw new MissingCredentialError(
+				['MERRIAM_WEBSTER_DICTIONARY_KEY'],
+				'merriamWebster'
+			);
 		}
 
-		const url = `https://www.dictionaryapi.com/api/v3/references/collegiate/json/${encodeURIComponent(
-			word
-		)}?key=${config.merriamWebster.dictionaryKey}`;
+		const url = `${
+			this.baseUrl
+		}/references/collegiate/json/${encodeURIComponent(word)}?key=${
+			config.merriamWebster.dictionaryKey
+		}`;
 
-		const data = await fetchJson(url);
+		const data = await fetchJson(url, { provider: 'merriamWebster' });
 
 		if (Array.isArray(data) && data.length === 0) {
-			throw new Error(`No results found for "${word}"`);
+			throw new NotFoundError(`No results found for "${word}"`, {
+				provider: 'merriamWebster',
+			});
 		}
 
 		if (typeof data[0] === 'string') {
-			throw new Error(`Did you mean: ${data.join(', ')}`);
+			throw new NotFoundError(`Did you mean: ${data.join(', ')}`, {
+				provider: 'merriamWebster',
+				details: { suggestions: data },
+			});
 		}
 
 		const entry = data[0] as MerriamWebsterDictionaryEntry;
@@ -1,6 +1,9 @@
 import { fetchJson } from '../utils/http.js';
+import { providerBaseUrl } from '../config.js';
 
-const BASE_URL = 'https://api.quotable.io';
+export interface QuotableConfig {
+	baseUrl?: string;
+}
 
 export interface Quote {
 	_id: string;
@@ -36,6 +39,12 @@ export interface Author {
  * Free tier: 180 requests/min
  */
 export class QuotableClient {
+	private baseUrl: string;
+
+	constructor(config: QuotableConfig = {}) {
+		this.baseUrl = providerBaseUrl('quotable', config.baseUrl);
+	}
+
 	/**
 	 * Get a random quote
 	 */
@@ -55,9 +64,11 @@ export class QuotableClient {
 			queryParams.set('maxLength', params.maxLength.toString());
 
 		const queryString = queryParams.toString();
-		const url = `${BASE_URL}/random${queryString ? `?${queryString}` : ''}`;
+		const url = `${this.baseUrl}/random${
+			queryString ? `?${queryString}` : ''
+		}`;
 
-		return fetchJson(url);
+		return fetchJson(url, { provider: 'quotable', cache: 'no-store' });
 	}
 
 	/**
@@ -89,15 +100,17 @@ export class QuotableClient {
 		if (params.limit) queryParams.set('limit', params.limit.toString());
 		if (params.page) queryParams.set('page', params.page.toString());
 
-		const url = `${BASE_URL}/quotes?${queryParams.toString()}`;
-		return fetchJson(url);
+		const url = `${this.baseUrl}/quotes?${queryParams.toString()}`;
+		return fetchJson(url, { provider: 'quotable' });
 	}
 
 	/**
 	 * Get quote by ID
 	 */
 	async getQuote(id: string): Promise<Quote> {
-		return fetchJson(`${BASE_URL}/quotes/${id}`);
+		return fetchJson(`${this.baseUrl}/quotes/${id}`, {
+			provider: 'quotable',
+		});
 	}
 
 	/**
@@ -121,11 +134,11 @@ export class QuotableClient {
 		if (params?.page) queryParams.set('page', params.page.toString());
 
 		const queryString = queryParams.toString();
-		const url = `${BASE_URL}/authors${
+		const url = `${this.baseUrl}/authors${
 			queryString ? `?${queryString}` : ''
 		}`;
 
-		return fetchJson(url);
+		return fetchJson(url, { provider: 'quotable' });
 	}
 
 	/**
@@ -153,6 +166,6 @@ export class QuotableClient {
 	async listTags(): Promise<
 		Array<{ _id: string; name: string; quoteCount: number }>
 	> {
-		return fetchJson(`${BASE_URL}/tags`);
+		return fetchJson(`${this.baseUrl}/tags`, { provider: 'quotable' });
 	}
 }
@@ -1,5 +1,6 @@
 import { fetchJson } from '../utils/http.js';
-import { config } from '../config.js';
+import { config, providerBaseUrl } from '../config.js';
+import { EnglishMcpError, MissingCredentialError } from '../errors.js';
 import type {
 	SaplingGrammarResponse,
 	SaplingToneResponse,
@@ -11,14 +12,28 @@ import type {
 	AIDetectionResult,
 } from '../types.js';
 
+export interface SaplingConfig {
+	baseUrl?: string;
+}
+
 export class SaplingAPI {
+	private baseUrl: string;
+
+	constructor(options: SaplingConfig = {}) {
+		this.baseUrl = providerBaseUrl('sapling', options.baseUrl);
+	}
+
 	async checkGrammar(text: string): Promise<GrammarCheckResult> {
 		if (!config.sapling.privateKey) {
-			throw new Error('SAPLING_PRIVATE_KEY not configured');
+			throw new MissingCredentialError(
+				['SAPLING_PRIVATE_KEY'],
+				'sapling'
+			);
 		}
 
-		const url = 'https://api.sapling.ai/api/v1/edits';
+		const url = `${this.baseUrl}/edits`;
 		const data = (await fetchJson(url, {
+			provider: 'sapling',
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
@@ -54,11 +69,15 @@ export class SaplingAPI {
 
 	async analyzeTone(text: string): Promise<ToneAnalysisResult> {
 		if (!config.sapling.privateKey) {
-			throw new Error('SAPLING_PRIVATE_KEY not configured');
+			throw new MissingCredentialError(
+				['SAPLING_PRIVATE_KEY'],
+				'sapling'
+			);
 		}
 
-		const url = 'https://api.sapling.ai/api/v1/tone';
+		const url = `${this.baseUrl}/tone`;
 		const data = (await fetchJson(url, {
+			provider: 'sapling',
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
@@ -70,7 +89,13 @@ export class SaplingAPI {
 		})) as SaplingToneResponse;
 
 		if (!data.overall) {
-			throw new Error('Unable to determine tone');
+			throw new EnglishMcpError(
+				'UPSTREAM_ERROR',
+				'Unable to determine tone',
+				{
+					provider: 'sapling',
+				}
+			);
 		}
 
 		const scores = data.tones || {};
@@ -87,11 +112,15 @@ export class SaplingAPI {
 
 	async analyzeSentiment(text: string): Promise<SentimentAnalysisResult> {
 		if (!config.sapling.privateKey) {
-			throw new Error('SAPLING_PRIVATE_KEY not configured');
+			throw new MissingCredentialError(
+				['SAPLING_PRIVATE_KEY'],
+				'sapling'
+			);
 		}
 
-		const url = 'https://api.sapling.ai/api/v1/sentiment';
+		const url = `${this.baseUrl}/sentiment`;
 		const data = (await fetchJson(url, {
+			provider: 'sapling',
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
@@ -133,11 +162,15 @@ export class SaplingAPI {
 
 	async detectAI(text: string): Promise<AIDetectionResult> {
 		if (!config.sapling.privateKey) {
-			throw new Error('SAPLING_PRIVATE_KEY not configured');
+			throw new MissingCredentialError(
+				['SAPLING_PRIVATE_KEY'],
+				'sapling'
+			);
 		}
 
-		const url = 'https://api.sapling.ai/api/v1/aidetect';
+		const url = `${this.baseUrl}/aidetect`;
 		const data = (await fetchJson(url, {
+			provider: 'sapling',
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
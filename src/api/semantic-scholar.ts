@@ -1,10 +1,10 @@
 import { fetchJson } from '../utils/http.js';
-
-const BASE_URL = 'https://api.semanticscholar.org';
-const MAX_RETRIES = 10;
-const RETRY_DELAY = 30000;
+import { providerBaseUrl } from '../config.js';
+import type { FetchOptions } from '../utils/http.js';
+import { InvalidInputError } from '../errors.js';
 
 export interface SemanticScholarConfig {
+	baseUrl?: string;
 	apiKey?: string;
 }
 
@@ -71,9 +71,11 @@ export interface AuthorMetadata {
  * Client for Semantic Scholar Academic Graph API.
  */
 export class SemanticScholarClient {
+	private baseUrl: string;
 	private apiKey?: string;
 
 	constructor(config: SemanticScholarConfig = {}) {
+		this.baseUrl = providerBaseUrl('semanticScholar', config.baseUrl);
 		this.apiKey = config.apiKey;
 	}
 
@@ -82,10 +84,9 @@ export class SemanticScholarClient {
 		options: {
 			method?: 'GET' | 'POST';
 			body?: Record<string, unknown>;
-			retries?: number;
 		} = {}
 	): Promise<T> {
-		const { method = 'GET', body, retries = 0 } = options;
+		const { method = 'GET', body } = options;
 
 		const headers: Record<string, string> = {
 			'Content-Type': 'application/json',
@@ -95,41 +96,20 @@ export class SemanticScholarClient {
 			headers['x-api-key'] = this.apiKey;
 		}
 
-		try {
-			const url = `${BASE_URL}${endpoint}`;
-
-			const fetchOptions: RequestInit = {
-				method,
-				headers,
-			};
-
-			if (method === 'POST' && body) {
-				fetchOptions.body = JSON.stringify(body);
-			}
-
-			return (await fetchJson(url, fetchOptions)) as T;
-		} catch (error) {
-			const statusCode =
-				error &&
-				typeof error === 'object' &&
-				'message' in error &&
-				typeof error.message === 'string' &&
-				error.message.includes('status: 429')
-					? 429
-					: 0;
+		const url = `${this.baseUrl}${endpoint}`;
 
-			if (statusCode === 429 && retries < MAX_RETRIES) {
-				await new Promise((resolve) =>
-					setTimeout(resolve, RETRY_DELAY)
-				);
-				return this.request<T>(endpoint, {
-					...options,
-					retries: retries + 1,
-				});
-			}
+		// Rate limiting and 429 retries are handled by fetchJson
+		const fetchOptions: FetchOptions = {
+			provider: 'semanticScholar',
+			method,
+			headers,
+		};
 
-			throw error;
+		if (method === 'POST' && body) {
+			fetchOptions.body = JSON.stringify(body);
 		}
+
+		return (await fetchJson(url, fetchOptions)) as T;
 	}
 
 	/**
@@ -150,7 +130,9 @@ export class SemanticScholarClient {
 		fields?: string[]
 	): Promise<PaperMetadata[]> {
 		if (paperIds.length > 500) {
-			throw new Error('Maximum 500 paper IDs allowed per batch request');
+			throw new InvalidInputError(
+				'Maximum 500 paper IDs allowed per batch request'
+			);
 		}
 
 		const fieldParam = fields ? `?fields=${fields.join(',')}` : '';
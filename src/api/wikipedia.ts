@@ -1,6 +1,10 @@
 import { fetchJson } from '../utils/http.js';
+import { providerBaseUrl } from '../config.js';
+import { NotFoundError } from '../errors.js';
 
-const BASE_URL = 'https://en.wikipedia.org/w/api.php';
+export interface WikipediaConfig {
+	baseUrl?: string;
+}
 
 export interface WikipediaSearchResult {
 	pageid: number;
@@ -28,6 +32,12 @@ export interface WikipediaPage {
  * Free tier with no rate limits.
  */
 export class WikipediaClient {
+	private baseUrl: string;
+
+	constructor(config: WikipediaConfig = {}) {
+		this.baseUrl = providerBaseUrl('wikipedia', config.baseUrl);
+	}
+
 	/**
 	 * Search for Wikipedia articles
 	 */
@@ -40,8 +50,8 @@ export class WikipediaClient {
 			origin: '*',
 		});
 
-		const url = `${BASE_URL}?${params.toString()}`;
-		const result = await fetchJson(url);
+		const url = `${this.baseUrl}?${params.toString()}`;
+		const result = await fetchJson(url, { provider: 'wikipedia' });
 
 		return result[1] || [];
 	}
@@ -63,15 +73,17 @@ export class WikipediaClient {
 			pithumbsize: '300',
 		});
 
-		const url = `${BASE_URL}?${params.toString()}`;
-		const result = await fetchJson(url);
+		const url = `${this.baseUrl}?${params.toString()}`;
+		const result = await fetchJson(url, { provider: 'wikipedia' });
 
 		const pages = result.query?.pages || {};
 		const pageId = Object.keys(pages)[0];
 		const page = pages[pageId];
 
-		if (!page || page.missing) {
-			throw new Error(`Article not found: ${title}`);
+		if (!page || 'missing' in page) {
+			throw new NotFoundError(`Article not found: ${title}`, {
+				provider: 'wikipedia',
+			});
 		}
 
 		return {
@@ -96,15 +108,17 @@ export class WikipediaClient {
 			origin: '*',
 		});
 
-		const url = `${BASE_URL}?${params.toString()}`;
-		const result = await fetchJson(url);
+		const url = `${this.baseUrl}?${params.toString()}`;
+		const result = await fetchJson(url, { provider: 'wikipedia' });
 
 		const pages = result.query?.pages || {};
 		const pageId = Object.keys(pages)[0];
 		const page = pages[pageId];
 
-		if (!page || page.missing) {
-			throw new Error(`Article not found: ${title}`);
+		if (!page || 'missing' in page) {
+			throw new NotFoundError(`Article not found: ${title}`, {
+				provider: 'wikipedia',
+			});
 		}
 
 		return {
@@ -139,8 +153,8 @@ export class WikipediaClient {
 			pithumbsize: '150',
 		});
 
-		const url = `${BASE_URL}?${params.toString()}`;
-		const result = await fetchJson(url);
+		const url = `${this.baseUrl}?${params.toString()}`;
+		const result = await fetchJson(url, { provider: 'wikipedia' });
 
 		const pages = result.query?.pages || {};
 		return Object.values(pages).map((page: any) => ({
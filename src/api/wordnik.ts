@@ -1,8 +1,8 @@
 import { fetchJson } from '../utils/http.js';
-
-const BASE_URL = 'https://api.wordnik.com/v4';
+import { providerBaseUrl } from '../config.js';
 
 export interface WordnikConfig {
+	baseUrl?: string;
 	apiKey: string;
 }
 
@@ -36,9 +36,11 @@ export interface Pronunciation {
  * Free tier: 15,000 requests/hour
  */
 export class WordnikClient {
+	private baseUrl: string;
 	private apiKey: string;
 
 	constructor(config: WordnikConfig) {
+		this.baseUrl = providerBaseUrl('wordnik', config.baseUrl);
 		this.apiKey = config.apiKey;
 	}
 
@@ -47,7 +49,7 @@ export class WordnikClient {
 		params: URLSearchParams = new URLSearchParams()
 	): string {
 		params.set('api_key', this.apiKey);
-		return `${BASE_URL}${path}?${params.toString()}`;
+		return `${this.baseUrl}${path}?${params.toString()}`;
 	}
 
 	/**
@@ -77,7 +79,7 @@ export class WordnikClient {
 			`/word.json/${encodeURIComponent(word)}/definitions`,
 			queryParams
 		);
-		return fetchJson(url);
+		return fetchJson(url, { provider: 'wordnik' });
 	}
 
 	/**
@@ -94,7 +96,7 @@ export class WordnikClient {
 			`/word.json/${encodeURIComponent(word)}/examples`,
 			params
 		);
-		return fetchJson(url);
+		return fetchJson(url, { provider: 'wordnik' });
 	}
 
 	/**
@@ -114,7 +116,7 @@ export class WordnikClient {
 			`/word.json/${encodeURIComponent(word)}/relatedWords`,
 			params
 		);
-		return fetchJson(url);
+		return fetchJson(url, { provider: 'wordnik' });
 	}
 
 	/**
@@ -124,7 +126,7 @@ export class WordnikClient {
 		const url = this.buildUrl(
 			`/word.json/${encodeURIComponent(word)}/pronunciations`
 		);
-		return fetchJson(url);
+		return fetchJson(url, { provider: 'wordnik' });
 	}
 
 	/**
@@ -137,7 +139,7 @@ export class WordnikClient {
 		const url = this.buildUrl(
 			`/word.json/${encodeURIComponent(word)}/frequency`
 		);
-		return fetchJson(url);
+		return fetchJson(url, { provider: 'wordnik' });
 	}
 
 	/**
@@ -153,7 +155,11 @@ export class WordnikClient {
 		if (date) params.set('date', date);
 
 		const url = this.buildUrl('/words.json/wordOfTheDay', params);
-		return fetchJson(url);
+		// Without a date the answer changes daily, so don't cache it
+		return fetchJson(url, {
+			provider: 'wordnik',
+			cache: date ? 'default' : 'no-store',
+		});
 	}
 
 	/**
@@ -184,7 +190,7 @@ export class WordnikClient {
 		if (params?.limit) queryParams.set('limit', params.limit.toString());
 
 		const url = this.buildUrl('/words.json/randomWords', queryParams);
-		return fetchJson(url);
+		return fetchJson(url, { provider: 'wordnik', cache: 'no-store' });
 	}
 
 	/**
@@ -234,6 +240,6 @@ export class WordnikClient {
 		if (params?.limit) queryParams.set('limit', params.limit.toString());
 
 		const url = this.buildUrl('/words.json/search', queryParams);
-		return fetchJson(url);
+		return fetchJson(url, { provider: 'wordnik' });
 	}
 }
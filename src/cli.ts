@@ -0,0 +1,521 @@
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { config, hasCredential, isToolEnabled } from './config.js';
+import { coreTools } from './tools/definitions.js';
+import { toolMode } from './tools/registry.js';
+import { pluginTools } from './plugins.js';
+import { toolRegistry } from './server.js';
+import type { ToolResult } from './responses/formatters.js';
+import { runWithContext } from './utils/request-context.js';
+
+/**
+ * Parsed command line passed to each subcommand
+ */
+interface CommandInput {
+	positionals: string[];
+	options: CliOptions;
+}
+
+/**
+ * A subcommand: which tool it calls and how its arguments are built
+ */
+interface Command {
+	usage: string;
+	summary: string;
+	toolCall(input: CommandInput): Promise<{
+		tool: string;
+		args: Record<string, unknown>;
+	}>;
+}
+
+/**
+ * Bad command-line usage, reported with exit code 2
+ */
+class UsageError extends Error {}
+
+const OPTIONS = {
+	json: { type: 'boolean', default: false },
+	offline: { type: 'boolean', default: false },
+	help: { type: 'boolean', short: 'h', default: false },
+	provider: { type: 'string' },
+	style: { type: 'string' },
+	format: { type: 'string' },
+	type: { type: 'string' },
+	limit: { type: 'string' },
+	year: { type: 'string' },
+	author: { type: 'string' },
+	tags: { type: 'string' },
+	audience: { type: 'string' },
+	threshold: { type: 'string' },
+	args: { type: 'string' },
+	'no-probe': { type: 'boolean', default: false },
+} as const;
+
+type CliOptions = ReturnType<
+	typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>['values'];
+
+/**
+ * Read the text to analyze from a file, or from stdin when the path is
+ * missing or "-"
+ */
+async function readText(path: string | undefined): Promise<string> {
+	if (path && path !== '-') {
+		try {
+			return await readFile(path, 'utf8');
+		} catch (error) {
+			throw new UsageError(
+				`Cannot read ${path}: ${
+					error instanceof Error ? error.message : String(error)
+				}`
+			);
+		}
+	}
+	if (process.stdin.isTTY) {
+		throw new UsageError('Give a file name or pipe text on stdin');
+	}
+
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) {
+		chunks.push(chunk as Buffer);
+	}
+	return Buffer.concat(chunks).toString('utf8');
+}
+
+function required(value: string | undefined, name: string): string {
+	if (!value) {
+		throw new UsageError(`Missing ${name}`);
+	}
+	return value;
+}
+
+function limit(options: CliOptions): { limit?: number } {
+	if (options.limit === undefined) {
+		return {};
+	}
+	const value = Number(options.limit);
+	if (!Number.isInteger(value) || value <= 0) {
+		throw new UsageError(`Invalid --limit: ${options.limit}`);
+	}
+	return { limit: value };
+}
+
+function citationStyle(options: CliOptions): Record<string, string> {
+	return {
+		...(options.style && { style: options.style }),
+		...(options.format && { format: options.format }),
+	};
+}
+
+/**
+ * Citation data from the command line: a DOI as given, or CSL-JSON read
+ * from a file or stdin
+ */
+async function citationData(source: string | undefined): Promise<unknown> {
+	if (source?.startsWith('10.')) {
+		return source;
+	}
+	const raw = await readText(source);
+	try {
+		return JSON.parse(raw);
+	} catch {
+		throw new UsageError('Citation data must be a DOI or a CSL-JSON file');
+	}
+}
+
+/**
+ * Subcommand for a tool that takes a single piece of text
+ */
+function textCommand(tool: string, summary: string): Command {
+	return {
+		usage: '[file]',
+		summary,
+		toolCall: async ({ positionals }) => ({
+			tool,
+			args: { text: await readText(positionals[0]) },
+		}),
+	};
+}
+
+/**
+ * Subcommand for a tool that takes a single word
+ */
+function wordCommand(tool: string, summary: string): Command {
+	return {
+		usage: '<word>',
+		summary,
+		toolCall: async ({ positionals }) => ({
+			tool,
+			args: { word: required(positionals[0], 'word') },
+		}),
+	};
+}
+
+export const COMMANDS: Record<string, Command> = {
+	readability: {
+		usage: '[file] [--audience middle-school|high-school|undergraduate|general-adult]',
+		summary: 'Readability grade, reading ease and difficult words',
+		toolCall: async ({ positionals, options }) => ({
+			tool: 'check_readability',
+			args: {
+				text: await readText(positionals[0]),
+				...(options.audience && { audience: options.audience }),
+			},
+		}),
+	},
+	heatmap: {
+		usage: '[file] [--audience middle-school|high-school|undergraduate|general-adult] [--limit n]',
+		summary: 'Readability of each paragraph and sentence, hardest first',
+		toolCall: async ({ positionals, options }) => ({
+			tool: 'readability_heatmap',
+			args: {
+				text: await readText(positionals[0]),
+				...(options.audience && { audience: options.audience }),
+				...limit(options),
+			},
+		}),
+	},
+	passive: {
+		usage: '[file] [--threshold percent]',
+		summary: 'Passive voice sentences, with active rewrites',
+		toolCall: async ({ positionals, options }) => {
+			const threshold =
+				options.threshold === undefined
+					? undefined
+					: Number(options.threshold);
+			if (threshold !== undefined && Number.isNaN(threshold)) {
+				throw new UsageError(
+					`Invalid --threshold: ${options.threshold}`
+				);
+			}
+			return {
+				tool: 'detect_passive_voice',
+				args: {
+					text: await readText(positionals[0]),
+					...(threshold !== undefined && { threshold }),
+				},
+			};
+		},
+	},
+	simplify: {
+		usage: '[file] [--limit n]',
+		summary: 'Simpler alternatives for difficult words',
+		toolCall: async ({ positionals, options }) => ({
+			tool: 'simplify_vocabulary',
+			args: { text: await readText(positionals[0]), ...limit(options) },
+		}),
+	},
+	grammar: {
+		usage: '[file] [--provider sapling|languagetool]',
+		summary:
+			'Grammar, spelling and style check (Sapling when configured, otherwise LanguageTool)',
+		toolCall: async ({ positionals, options }) => {
+			const provider =
+				options.provider ??
+				(hasCredential('SAPLING_PRIVATE_KEY')
+					? 'sapling'
+					: 'languagetool');
+			if (provider !== 'sapling' && provider !== 'languagetool') {
+				throw new UsageError(
+					`Unknown grammar provider "${provider}"; use sapling or languagetool`
+				);
+			}
+			return {
+				tool:
+					provider === 'sapling'
+						? 'check_grammar'
+						: 'check_grammar_advanced',
+				args: { text: await readText(positionals[0]) },
+			};
+		},
+	},
+	tone: textCommand('analyze_tone', 'Tone of the text'),
+	sentiment: textCommand('analyze_sentiment', 'Sentiment of the text'),
+	'detect-ai': textCommand(
+		'detect_ai_content',
+		'Likelihood that the text is AI-generated'
+	),
+	synonyms: wordCommand(
+		'get_synonyms_antonyms',
+		'Synonyms and antonyms from the thesaurus'
+	),
+	define: wordCommand('lookup_dictionary', 'Dictionary definitions'),
+	academic: wordCommand(
+		'suggest_academic_vocabulary',
+		'Formal academic alternatives to a word'
+	),
+	word: wordCommand(
+		'get_word_details',
+		'Definitions, examples and pronunciations from Wordnik'
+	),
+	related: {
+		usage: '<word> [--type synonyms|antonyms|rhymes|similar-meaning|sounds-like] [--limit n]',
+		summary: 'Related words from Datamuse',
+		toolCall: async ({ positionals, options }) => ({
+			tool: 'find_word_relationships',
+			args: {
+				word: required(positionals[0], 'word'),
+				type: options.type ?? 'synonyms',
+				...limit(options),
+			},
+		}),
+	},
+	cite: {
+		usage: '<doi|csl-json file> [--style mla|apa|chicago|harvard|vancouver] [--format text|html|rtf]',
+		summary:
+			'Format a citation; a file holding a CSL-JSON array gives a bibliography',
+		toolCall: async ({ positionals, options }) => {
+			const data = await citationData(positionals[0]);
+			if (typeof data === 'string') {
+				return {
+					tool: 'search_doi_and_format',
+					args: { doi: data, ...citationStyle(options) },
+				};
+			}
+			const style = { style: 'mla', ...citationStyle(options) };
+			return Array.isArray(data)
+				? {
+						tool: 'generate_bibliography',
+						args: { citations: data, ...style },
+				  }
+				: { tool: 'format_citation', args: { data, ...style } };
+		},
+	},
+	bibtex: {
+		usage: '<doi|csl-json file>',
+		summary: 'Convert a citation to BibTeX',
+		toolCall: async ({ positionals }) => ({
+			tool: 'convert_to_bibtex',
+			args: { data: await citationData(positionals[0]) },
+		}),
+	},
+	papers: {
+		usage: '<query...> [--year 2020|2018-2023] [--limit n]',
+		summary: 'Search academic papers on Semantic Scholar',
+		toolCall: async ({ positionals, options }) => ({
+			tool: 'search_academic_papers',
+			args: {
+				query: required(positionals.join(' '), 'query'),
+				...(options.year && { year: options.year }),
+				...limit(options),
+			},
+		}),
+	},
+	paper: {
+		usage: '<paper id|doi>',
+		summary: 'Details and citation graph of a paper',
+		toolCall: async ({ positionals }) => ({
+			tool: 'get_paper_details',
+			args: { paperId: required(positionals[0], 'paper id') },
+		}),
+	},
+	wikipedia: {
+		usage: '<query...> [--limit n]',
+		summary: 'Search Wikipedia articles',
+		toolCall: async ({ positionals, options }) => ({
+			tool: 'search_wikipedia',
+			args: {
+				query: required(positionals.join(' '), 'query'),
+				...limit(options),
+			},
+		}),
+	},
+	quotes: {
+		usage: '[query...] [--author name] [--tags a,b] [--limit n]',
+		summary: 'Search quotes by content, author or tags',
+		toolCall: async ({ positionals, options }) => ({
+			tool: 'search_quotes',
+			args: {
+				...(positionals.length > 0 && {
+					query: positionals.join(' '),
+				}),
+				...(options.author && { author: options.author }),
+				...(options.tags && { tags: options.tags.split(',') }),
+				...limit(options),
+			},
+		}),
+	},
+	status: {
+		usage: '[--no-probe]',
+		summary: 'Provider configuration, reachability and tool modes',
+		toolCall: async ({ options }) => ({
+			tool: 'server_status',
+			args: { checkReachability: !options['no-probe'] },
+		}),
+	},
+	usage: {
+		usage: '[days]',
+		summary: 'Upstream requests, tool calls and daily budgets',
+		toolCall: async ({ positionals }) => {
+			const days =
+				positionals[0] === undefined ? 1 : Number(positionals[0]);
+			if (!Number.isInteger(days) || days <= 0) {
+				throw new UsageError(
+					`Invalid number of days: ${positionals[0]}`
+				);
+			}
+			return { tool: 'usage_report', args: { days } };
+		},
+	},
+	'clear-cache': {
+		usage: '[provider]',
+		summary: 'Delete cached API responses',
+		toolCall: async ({ positionals }) => ({
+			tool: 'clear_cache',
+			args: positionals[0] ? { provider: positionals[0] } : {},
+		}),
+	},
+	call: {
+		usage: '<tool> [--args json]',
+		summary: 'Call any tool by name with JSON arguments',
+		toolCall: async ({ positionals, options }) => {
+			let args: unknown = {};
+			if (options.args) {
+				try {
+					args = JSON.parse(options.args);
+				} catch {
+					throw new UsageError('--args must be a JSON object');
+				}
+			}
+			return {
+				tool: required(positionals[0], 'tool name'),
+				args: args as Record<string, unknown>,
+			};
+		},
+	},
+};
+
+function usage(): string {
+	const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length));
+	const commands = Object.entries(COMMANDS)
+		.map(([name, command]) => `  ${name.padEnd(width)}  ${command.summary}`)
+		.join('\n');
+
+	return `Usage: english-mcp <command> [arguments] [--json] [--offline]
+
+Without a command, starts the MCP server (--transport, --host, --port).
+Text commands read the named file, or stdin when it is omitted or "-".
+
+Commands:
+${commands}
+  ${'tools'.padEnd(width)}  List every tool and how it currently runs
+
+Options:
+  --json     Print structured JSON instead of text
+  --offline  Make no network requests (local fallbacks and cache only)
+
+Run "english-mcp <command> --help" for a command's arguments.`;
+}
+
+/**
+ * Print a tool result. Errors go to stderr in text mode; in JSON mode the
+ * error object is printed like any other result.
+ */
+function print(result: ToolResult, json: boolean): void {
+	if (json) {
+		const error = result.content.find((block) => block.type === 'resource');
+		const body =
+			result.isError && error?.type === 'resource'
+				? JSON.parse(String(error.resource.text))
+				: result.structuredContent;
+		console.log(JSON.stringify(body, null, 2));
+		return;
+	}
+
+	const [summary] = result.content;
+	const text = summary?.type === 'text' ? summary.text : '';
+	(result.isError ? console.error : console.log)(text.trimEnd());
+}
+
+/**
+ * Run a subcommand. Returns the process exit code: 0 on success, 1 when the
+ * tool reported an error and 2 for invalid usage.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+	let parsed;
+	try {
+		parsed = parseArgs({
+			args: argv,
+			options: OPTIONS,
+			allowPositionals: true,
+		});
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : String(error));
+		return 2;
+	}
+	const {
+		positionals: [name, ...positionals],
+		values: options,
+	} = parsed;
+
+	if (options.offline) {
+		config.server.offline = true;
+	}
+
+	if (!name || name === 'help') {
+		console.log(usage());
+		return 0;
+	}
+	if (name === 'tools') {
+		const tools = [...coreTools, ...pluginTools].filter((tool) =>
+			isToolEnabled(tool.name)
+		);
+		if (options.json) {
+			console.log(
+				JSON.stringify(
+					tools.map((tool) => ({
+						name: tool.name,
+						mode: toolMode(tool),
+						description: tool.description,
+					})),
+					null,
+					2
+				)
+			);
+		} else {
+			tools.forEach((tool) => {
+				console.log(`${tool.name} (${toolMode(tool)})`);
+			});
+		}
+		return 0;
+	}
+
+	const command = Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+	if (!command) {
+		console.error(`Unknown command "${name}"\n\n${usage()}`);
+		return 2;
+	}
+	if (options.help) {
+		console.log(
+			`Usage: english-mcp ${name} ${command.usage}\n\n${command.summary}`
+		);
+		return 0;
+	}
+
+	let call;
+	try {
+		call = await command.toolCall({ positionals, options });
+	} catch (error) {
+		if (error instanceof UsageError) {
+			console.error(
+				`${error.message}\nUsage: english-mcp ${name} ${command.usage}`
+			);
+			return 2;
+		}
+		throw error;
+	}
+
+	// Ctrl-C cancels the upstream requests of the call
+	const controller = new AbortController();
+	const cancel = () => controller.abort();
+	process.once('SIGINT', cancel);
+	try {
+		const result = await runWithContext({ signal: controller.signal }, () =>
+			toolRegistry.call(call.tool, call.args)
+		);
+		print(result, options.json);
+		return result.isError ? 1 : 0;
+	} finally {
+		process.off('SIGINT', cancel);
+	}
+}
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import type { CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import type { PromptRegistry } from './prompts/registry.js';
+import type { ResourceRegistry } from './resources/registry.js';
+import type { ToolRegistry } from './tools/registry.js';
+import {
+	listQuoteTags,
+	suggestWikipediaTitles,
+	suggestWords,
+} from './tools/research.js';
+import { CitationSchema } from './types.js';
+
+/** Most values a completion may return, per the MCP spec */
+const MAX_VALUES = 100;
+
+/**
+ * completion/complete request. Besides the prompt and resource template
+ * references of the MCP spec, `ref/tool` completes a tool argument for
+ * clients that send it.
+ */
+export const CompleteArgumentRequestSchema = z.object({
+	method: z.literal('completion/complete'),
+	params: z
+		.object({
+			ref: z.discriminatedUnion('type', [
+				z.object({ type: z.literal('ref/prompt'), name: z.string() }),
+				z.object({ type: z.literal('ref/resource'), uri: z.string() }),
+				z.object({ type: z.literal('ref/tool'), name: z.string() }),
+			]),
+			argument: z.object({ name: z.string(), value: z.string() }),
+		})
+		.passthrough(),
+});
+
+type CompleteArgumentParams = z.infer<
+	typeof CompleteArgumentRequestSchema
+>['params'];
+
+export interface CompletionSources {
+	tools: ToolRegistry;
+	prompts: PromptRegistry;
+	resources: ResourceRegistry;
+}
+
+type Completer = (value: string) => Promise<string[]>;
+
+function startingWith(values: readonly string[], prefix: string): string[] {
+	const lower = prefix.toLowerCase();
+	return values.filter((value) => value.toLowerCase().startsWith(lower));
+}
+
+/**
+ * Completers for arguments that mean the same thing wherever they appear.
+ * Lookups need at least one character so an empty field sends no request.
+ */
+const NAMED_COMPLETERS: Record<string, Completer> = {
+	style: async (value) =>
+		startingWith(CitationSchema.shape.style.options, value),
+	word: async (value) => (value ? suggestWords(value) : []),
+	title: async (value) => (value ? suggestWikipediaTitles(value) : []),
+	tags: async (value) => startingWith(await listQuoteTags(), value),
+};
+
+/**
+ * Allowed values of an enum field, looking through optional, default and
+ * array wrappers
+ */
+function enumOptions(schema: z.ZodTypeAny): readonly string[] | undefined {
+	if (schema instanceof z.ZodEnum) {
+		return schema.options;
+	}
+	if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+		return enumOptions(schema.unwrap());
+	}
+	if (schema instanceof z.ZodDefault) {
+		return enumOptions(schema.removeDefault());
+	}
+	if (schema instanceof z.ZodArray) {
+		return enumOptions(schema.element);
+	}
+	return undefined;
+}
+
+/**
+ * Completer for an argument of the referenced tool, prompt or resource
+ * template, if the argument exists and has one
+ */
+function completerFor(
+	{ ref, argument }: CompleteArgumentParams,
+	sources: CompletionSources
+): Completer | undefined {
+	const named = Object.hasOwn(NAMED_COMPLETERS, argument.name)
+		? NAMED_COMPLETERS[argument.name]
+		: undefined;
+
+	if (ref.type === 'ref/tool') {
+		const inputSchema = sources.tools.definition(ref.name)?.inputSchema;
+		const field =
+			inputSchema instanceof z.ZodObject &&
+			Object.hasOwn(inputSchema.shape, argument.name)
+				? (inputSchema.shape[argument.name] as z.ZodTypeAny)
+				: undefined;
+		const options = field && enumOptions(field);
+		if (options) {
+			return async (value) => startingWith(options, value);
+		}
+		return field && named;
+	}
+
+	if (ref.type === 'ref/prompt') {
+		const prompt = sources.prompts.definition(ref.name);
+		return prompt && Object.hasOwn(prompt.arguments.shape, argument.name)
+			? named
+			: undefined;
+	}
+
+	const template = sources.resources
+		.listTemplates()
+		.find((candidate) => candidate.uriTemplate === ref.uri);
+	return template?.uriTemplate.includes(`{${argument.name}}`)
+		? named
+		: undefined;
+}
+
+/**
+ * Suggested values for an argument. Lookups that fail (offline, rate
+ * limited, missing credentials) suggest nothing rather than erroring.
+ */
+export async function completeArgument(
+	params: CompleteArgumentParams,
+	sources: CompletionSources
+): Promise<CompleteResult> {
+	const completer = completerFor(params, sources);
+	let values: string[] = [];
+	if (completer) {
+		try {
+			values = await completer(params.argument.value);
+		} catch {
+			values = [];
+		}
+	}
+
+	return {
+		completion: {
+			values: values.slice(0, MAX_VALUES),
+			total: values.length,
+			hasMore: values.length > MAX_VALUES,
+		},
+	};
+}
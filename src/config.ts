@@ -1,29 +1,593 @@
-// API Configuration from environment variables
-export const config = {
-	merriamWebster: {
-		thesaurusKey: process.env.MERRIAM_WEBSTER_THESAURUS_KEY || '',
-		dictionaryKey: process.env.MERRIAM_WEBSTER_DICTIONARY_KEY || '',
-	},
-	sapling: {
-		privateKey: process.env.SAPLING_PRIVATE_KEY || '',
-		publicKey: process.env.SAPLING_PUBLIC_KEY || '',
-	},
-} as const;
-
-export function validateConfig(): string[] {
-	const errors: string[] = [];
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { extname, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+function provider<T extends z.ZodRawShape>(
+	baseUrl: string,
+	shape: T,
+	cacheTtlSeconds = 0
+) {
+	return z.preprocess(
+		(value) => value ?? {},
+		z
+			.object({
+				...shape,
+				baseUrl: z.string().url().default(baseUrl),
+				proxy: z
+					.string()
+					.url()
+					.optional()
+					.describe('HTTP(S) proxy for this provider only'),
+				timeoutMs: z.number().int().positive().optional(),
+				requestsPerMinute: z
+					.number()
+					.min(0)
+					.optional()
+					.describe(
+						'Rate limit shared by all requests to this host; 0 disables'
+					),
+				cacheTtlSeconds: z
+					.number()
+					.int()
+					.min(0)
+					.default(cacheTtlSeconds)
+					.describe('How long GET responses are cached; 0 disables'),
+				dailyBudget: z
+					.number()
+					.int()
+					.positive()
+					.optional()
+					.describe(
+						'Most upstream requests per day (UTC); cache hits are free'
+					),
+				budgetAction: z
+					.enum(['block', 'warn'])
+					.default('block')
+					.describe(
+						'Whether requests over the daily budget fail or only log a warning'
+					),
+			})
+			.strict()
+	);
+}
+
+const secret = () => z.string().default('');
+
+/**
+ * Shape of the configuration file (JSON or YAML). Every field is optional;
+ * environment variables override values from the file.
+ */
+export const ConfigSchema = z
+	.object({
+		merriamWebster: provider(
+			'https://www.dictionaryapi.com/api/v3',
+			{
+				thesaurusKey: secret(),
+				dictionaryKey: secret(),
+			},
+			30 * DAY_SECONDS
+		),
+		sapling: provider('https://api.sapling.ai/api/v1', {
+			privateKey: secret(),
+			publicKey: secret(),
+		}),
+		wordnik: provider(
+			'https://api.wordnik.com/v4',
+			{ apiKey: secret() },
+			7 * DAY_SECONDS
+		),
+		semanticScholar: provider(
+			'https://api.semanticscholar.org',
+			{ apiKey: secret() },
+			7 * DAY_SECONDS
+		),
+		crossref: provider(
+			'https://api.crossref.org',
+			{
+				mailto: secret(),
+				plusApiToken: secret(),
+			},
+			30 * DAY_SECONDS
+		),
+		languageTool: provider('https://api.languagetool.org/v2', {}),
+		datamuse: provider('https://api.datamuse.com', {}, 7 * DAY_SECONDS),
+		wikipedia: provider(
+			'https://en.wikipedia.org/w/api.php',
+			{},
+			DAY_SECONDS
+		),
+		quotable: provider('https://api.quotable.io', {}, DAY_SECONDS),
+		http: z
+			.object({
+				timeoutMs: z
+					.number()
+					.int()
+					.positive()
+					.default(DEFAULT_TIMEOUT_MS),
+				maxRetries: z.number().int().min(0).default(3),
+				retryBaseDelayMs: z.number().int().min(0).default(500),
+				retryMaxDelayMs: z.number().int().min(0).default(30000),
+				circuitBreakerThreshold: z
+					.number()
+					.int()
+					.min(0)
+					.default(5)
+					.describe(
+						'Consecutive failures before a provider is skipped; 0 disables'
+					),
+				circuitBreakerCooldownMs: z
+					.number()
+					.int()
+					.positive()
+					.default(60000),
+				fixtures: z
+					.enum(['off', 'record', 'replay'])
+					.default('off')
+					.describe(
+						'Record upstream responses to fixturesDir, or replay them instead of using the network'
+					),
+				fixturesDir: z.string().default('test/fixtures'),
+				proxy: z
+					.string()
+					.url()
+					.optional()
+					.describe('HTTP(S) proxy for every upstream request'),
+				noProxy: z
+					.string()
+					.default('')
+					.describe('Comma-separated hosts that bypass the proxy'),
+			})
+			.strict()
+			.default({}),
+		tools: z
+			.record(z.boolean())
+			.default({})
+			.describe(
+				'Per-tool enable flags, e.g. { "detect_ai_content": false }'
+			),
+		server: z
+			.object({
+				transport: z.enum(['stdio', 'http', 'rest']).default('stdio'),
+				host: z.string().default('127.0.0.1'),
+				port: z.number().int().min(0).max(65535).default(3000),
+				allowedHosts: z
+					.array(z.string())
+					.optional()
+					.describe(
+						'Host headers the HTTP transports accept, e.g. "mcp.example.com:3000"; defaults to localhost names when listening on a loopback address, otherwise any'
+					),
+				allowedOrigins: z
+					.array(z.string())
+					.default([])
+					.describe(
+						'Browser origins allowed besides those on localhost; requests without an Origin header are not checked'
+					),
+				maxRequestBodyKb: z
+					.number()
+					.positive()
+					.default(4096)
+					.describe('Largest request body the HTTP transports read'),
+				unavailableTools: z
+					.enum(['hide', 'flag'])
+					.default('hide')
+					.describe(
+						'Whether tools missing credentials are omitted from the tool list or listed with a warning'
+					),
+				offline: z
+					.boolean()
+					.default(false)
+					.describe(
+						'Make no network requests: tools use local fallbacks or cached responses, or report that they are unavailable offline'
+					),
+			})
+			.strict()
+			.default({}),
+		storage: z
+			.object({
+				dataDir: z.string().default(join(homedir(), '.english-mcp')),
+			})
+			.strict()
+			.default({}),
+		logging: z
+			.object({
+				level: z
+					.enum([
+						'debug',
+						'info',
+						'notice',
+						'warning',
+						'error',
+						'critical',
+						'alert',
+						'emergency',
+					])
+					.default('info')
+					.describe(
+						'Lowest level written to stderr, and sent to MCP clients until they set their own; upstream calls are logged at debug'
+					),
+			})
+			.strict()
+			.default({}),
+		usage: z
+			.object({
+				warnAtPercent: z
+					.number()
+					.min(0)
+					.max(100)
+					.default(80)
+					.describe(
+						'Log a warning once this share of a daily budget is used'
+					),
+				retentionDays: z.number().int().positive().default(90),
+			})
+			.strict()
+			.default({}),
+		plugins: z
+			.object({
+				directory: z
+					.string()
+					.optional()
+					.describe(
+						'Directory of plugin modules whose tools are loaded at startup'
+					),
+			})
+			.strict()
+			.default({}),
+		cache: z
+			.object({
+				enabled: z.boolean().default(true),
+				maxSizeMb: z.number().positive().default(100),
+				maxEntryKb: z.number().positive().default(1024),
+			})
+			.strict()
+			.default({}),
+	})
+	.strict();
+
+export type Config = z.infer<typeof ConfigSchema>;
+
+export type LogLevel = Config['logging']['level'];
+
+export type ProviderId =
+	| 'merriamWebster'
+	| 'sapling'
+	| 'wordnik'
+	| 'semanticScholar'
+	| 'crossref'
+	| 'languageTool'
+	| 'datamuse'
+	| 'wikipedia'
+	| 'quotable';
+
+/**
+ * Display names for each upstream provider
+ */
+export const PROVIDER_NAMES: Record<ProviderId, string> = {
+	merriamWebster: 'Merriam-Webster',
+	sapling: 'Sapling',
+	wordnik: 'Wordnik',
+	semanticScholar: 'Semantic Scholar',
+	crossref: 'CrossRef',
+	languageTool: 'LanguageTool',
+	datamuse: 'Datamuse',
+	wikipedia: 'Wikipedia',
+	quotable: 'Quotable',
+};
+
+/**
+ * Environment variables and the config path each one sets
+ */
+const ENV_VARS: Record<string, string> = {
+	MERRIAM_WEBSTER_THESAURUS_KEY: 'merriamWebster.thesaurusKey',
+	MERRIAM_WEBSTER_DICTIONARY_KEY: 'merriamWebster.dictionaryKey',
+	MERRIAM_WEBSTER_BASE_URL: 'merriamWebster.baseUrl',
+	MERRIAM_WEBSTER_DAILY_BUDGET: 'merriamWebster.dailyBudget',
+	SAPLING_PRIVATE_KEY: 'sapling.privateKey',
+	SAPLING_PUBLIC_KEY: 'sapling.publicKey',
+	SAPLING_BASE_URL: 'sapling.baseUrl',
+	SAPLING_DAILY_BUDGET: 'sapling.dailyBudget',
+	WORDNIK_API_KEY: 'wordnik.apiKey',
+	WORDNIK_BASE_URL: 'wordnik.baseUrl',
+	WORDNIK_DAILY_BUDGET: 'wordnik.dailyBudget',
+	SEMANTIC_SCHOLAR_API_KEY: 'semanticScholar.apiKey',
+	SEMANTIC_SCHOLAR_BASE_URL: 'semanticScholar.baseUrl',
+	SEMANTIC_SCHOLAR_DAILY_BUDGET: 'semanticScholar.dailyBudget',
+	CROSSREF_MAILTO: 'crossref.mailto',
+	CROSSREF_PLUS_API_TOKEN: 'crossref.plusApiToken',
+	CROSSREF_BASE_URL: 'crossref.baseUrl',
+	LANGUAGETOOL_BASE_URL: 'languageTool.baseUrl',
+	DATAMUSE_BASE_URL: 'datamuse.baseUrl',
+	WIKIPEDIA_BASE_URL: 'wikipedia.baseUrl',
+	QUOTABLE_BASE_URL: 'quotable.baseUrl',
+	HTTP_TIMEOUT_MS: 'http.timeoutMs',
+	HTTP_MAX_RETRIES: 'http.maxRetries',
+	HTTP_CIRCUIT_BREAKER_THRESHOLD: 'http.circuitBreakerThreshold',
+	HTTP_CIRCUIT_BREAKER_COOLDOWN_MS: 'http.circuitBreakerCooldownMs',
+	ENGLISH_MCP_PROXY: 'http.proxy',
+	NO_PROXY: 'http.noProxy',
+	ENGLISH_MCP_FIXTURES: 'http.fixtures',
+	ENGLISH_MCP_FIXTURES_DIR: 'http.fixturesDir',
+	MCP_TRANSPORT: 'server.transport',
+	MCP_HOST: 'server.host',
+	MCP_PORT: 'server.port',
+	ENGLISH_MCP_UNAVAILABLE_TOOLS: 'server.unavailableTools',
+	OFFLINE: 'server.offline',
+	ENGLISH_MCP_OFFLINE: 'server.offline',
+	ENGLISH_MCP_DATA_DIR: 'storage.dataDir',
+	ENGLISH_MCP_PLUGINS_DIR: 'plugins.directory',
+	ENGLISH_MCP_LOG_LEVEL: 'logging.level',
+	ENGLISH_MCP_CACHE: 'cache.enabled',
+	ENGLISH_MCP_CACHE_MAX_MB: 'cache.maxSizeMb',
+};
+
+const NUMERIC_PATHS = new Set([
+	'merriamWebster.dailyBudget',
+	'sapling.dailyBudget',
+	'wordnik.dailyBudget',
+	'semanticScholar.dailyBudget',
+	'http.timeoutMs',
+	'http.maxRetries',
+	'http.circuitBreakerThreshold',
+	'http.circuitBreakerCooldownMs',
+	'server.port',
+	'cache.maxSizeMb',
+]);
+
+const BOOLEAN_PATHS = new Set(['cache.enabled', 'server.offline']);
+
+function parseEnvValue(path: string, value: string): unknown {
+	if (NUMERIC_PATHS.has(path)) {
+		return Number(value);
+	}
+	if (BOOLEAN_PATHS.has(path)) {
+		return !['false', '0', 'off', 'no'].includes(value.toLowerCase());
+	}
+	return value;
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown) {
+	const keys = path.split('.');
+	const last = keys.pop() as string;
+	let node = target;
+	for (const key of keys) {
+		if (typeof node[key] !== 'object' || node[key] === null) {
+			node[key] = {};
+		}
+		node = node[key];
+	}
+	node[last] = value;
+}
+
+/**
+ * The configuration cannot be used; the message lists every problem
+ */
+export class ConfigError extends Error {
+	name = 'ConfigError';
+}
+
+function readConfigFile(filePath: string): Record<string, any> {
+	let raw: string;
+	try {
+		raw = readFileSync(filePath, 'utf8');
+	} catch (error) {
+		throw new ConfigError(
+			`Cannot read config file ${filePath}: ${
+				error instanceof Error ? error.message : String(error)
+			}`
+		);
+	}
 
-	if (!config.merriamWebster.thesaurusKey) {
-		errors.push('MERRIAM_WEBSTER_THESAURUS_KEY not configured');
+	const ext = extname(filePath).toLowerCase();
+	try {
+		const parsed =
+			ext === '.yaml' || ext === '.yml'
+				? parseYaml(raw)
+				: JSON.parse(raw);
+		return parsed ?? {};
+	} catch (error) {
+		throw new ConfigError(
+			`Cannot parse config file ${filePath}: ${
+				error instanceof Error ? error.message : String(error)
+			}`
+		);
 	}
-	if (!config.merriamWebster.dictionaryKey) {
-		errors.push('MERRIAM_WEBSTER_DICTIONARY_KEY not configured');
+}
+
+/**
+ * Build the configuration from an optional JSON/YAML file plus environment
+ * variables (which take precedence). Throws a ConfigError with every invalid
+ * field listed.
+ */
+export function loadConfig(
+	env: NodeJS.ProcessEnv = process.env,
+	filePath: string | undefined = env.ENGLISH_MCP_CONFIG
+): Config {
+	const merged = filePath ? readConfigFile(resolve(filePath)) : {};
+
+	for (const [name, path] of Object.entries(ENV_VARS)) {
+		const value = env[name];
+		if (value === undefined || value === '') continue;
+		setPath(merged, path, parseEnvValue(path, value));
+	}
+
+	// Standard proxy variables apply unless ENGLISH_MCP_PROXY is set
+	const proxy =
+		env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy;
+	if (proxy && !env.ENGLISH_MCP_PROXY) {
+		setPath(merged, 'http.proxy', proxy);
+	}
+	if (env.no_proxy && !env.NO_PROXY) {
+		setPath(merged, 'http.noProxy', env.no_proxy);
 	}
-	if (!config.sapling.privateKey) {
-		errors.push('SAPLING_PRIVATE_KEY not configured');
+
+	const disabled = env.ENGLISH_MCP_DISABLED_TOOLS;
+	if (disabled) {
+		disabled
+			.split(',')
+			.map((name) => name.trim())
+			.filter(Boolean)
+			.forEach((name) => setPath(merged, `tools.${name}`, false));
 	}
-	if (!config.sapling.publicKey) {
-		errors.push('SAPLING_PUBLIC_KEY not configured');
+
+	const result = ConfigSchema.safeParse(merged);
+	if (!result.success) {
+		throw new ConfigError(
+			`Invalid configuration${
+				filePath ? ` (${filePath})` : ''
+			}:\n${result.error.issues
+				.map(
+					(issue) =>
+						`  - ${issue.path.join('.') || '(root)'}: ${
+							issue.message
+						}`
+				)
+				.join('\n')}`
+		);
+	}
+
+	return result.data;
+}
+
+// API Configuration from the config file and environment variables
+export const config: Config = loadConfig();
+
+/**
+ * Path of the config file in use, if any
+ */
+export const configFile: string | null = process.env.ENGLISH_MCP_CONFIG
+	? resolve(process.env.ENGLISH_MCP_CONFIG)
+	: null;
+
+/**
+ * Environment variables for credentials a provider needs but lacks
+ */
+export function missingCredentials(provider: ProviderId): string[] {
+	const missing: string[] = [];
+
+	switch (provider) {
+		case 'merriamWebster':
+			if (!config.merriamWebster.thesaurusKey) {
+				missing.push('MERRIAM_WEBSTER_THESAURUS_KEY');
+			}
+			if (!config.merriamWebster.dictionaryKey) {
+				missing.push('MERRIAM_WEBSTER_DICTIONARY_KEY');
+			}
+			break;
+		case 'sapling':
+			if (!config.sapling.privateKey) {
+				missing.push('SAPLING_PRIVATE_KEY');
+			}
+			break;
+		case 'wordnik':
+			if (!config.wordnik.apiKey) {
+				missing.push('WORDNIK_API_KEY');
+			}
+			break;
+	}
+
+	return missing;
+}
+
+/**
+ * Whether the credential behind an environment variable name (e.g.
+ * SAPLING_PRIVATE_KEY) is set, whether it came from the environment or file
+ */
+export function hasCredential(name: string): boolean {
+	const path = ENV_VARS[name];
+	if (!path) {
+		return false;
+	}
+
+	let node: unknown = config;
+	for (const key of path.split('.')) {
+		node = (node as Record<string, unknown> | undefined)?.[key];
+	}
+	return typeof node === 'string' && node.length > 0;
+}
+
+/**
+ * Request timeout for a provider, falling back to the global default
+ */
+export function providerTimeout(provider: ProviderId): number {
+	return config[provider].timeoutMs ?? config.http.timeoutMs;
+}
+
+/**
+ * Base URL for a provider without a trailing slash. An explicit URL (e.g.
+ * passed to a client constructor) wins over the configured one.
+ */
+export function providerBaseUrl(
+	provider: ProviderId,
+	override?: string
+): string {
+	return (override ?? config[provider].baseUrl).replace(/\/+$/, '');
+}
+
+/**
+ * Requests per minute allowed to a provider when not configured, matching
+ * each service's published limits. 0 means no client-side limit.
+ */
+const DEFAULT_RATE_LIMITS: Record<ProviderId, number> = {
+	merriamWebster: 0,
+	sapling: 0,
+	wordnik: 250,
+	semanticScholar: 20,
+	crossref: 300,
+	languageTool: 20,
+	datamuse: 600,
+	wikipedia: 0,
+	quotable: 180,
+};
+
+/**
+ * Rate limit for a provider. CrossRef's polite pool (requests that carry a
+ * mailto) and Semantic Scholar API keys get higher limits.
+ */
+export function providerRateLimit(provider: ProviderId): number {
+	const configured = config[provider].requestsPerMinute;
+	if (configured !== undefined) {
+		return configured;
+	}
+	if (provider === 'crossref' && config.crossref.mailto) {
+		return 600;
+	}
+	if (provider === 'semanticScholar' && config.semanticScholar.apiKey) {
+		return 60;
+	}
+	return DEFAULT_RATE_LIMITS[provider];
+}
+
+/**
+ * Whether a tool is enabled (tools are enabled unless set to false)
+ */
+export function isToolEnabled(name: string): boolean {
+	return config.tools[name] !== false;
+}
+
+/**
+ * Problems worth reporting at startup: missing credentials and tool flags
+ * that don't match any known tool.
+ */
+export function validateConfig(knownTools: string[] = []): string[] {
+	const errors: string[] = [];
+
+	(Object.keys(PROVIDER_NAMES) as ProviderId[]).forEach((provider) => {
+		missingCredentials(provider).forEach((name) => {
+			errors.push(`${name} not configured`);
+		});
+	});
+
+	if (knownTools.length > 0) {
+		Object.keys(config.tools)
+			.filter((name) => !knownTools.includes(name))
+			.forEach((name) => {
+				errors.push(`Unknown tool in "tools" config: ${name}`);
+			});
 	}
 
 	return errors;
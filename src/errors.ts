@@ -0,0 +1,254 @@
+import { ZodError } from 'zod';
+import { PROVIDER_NAMES } from './config.js';
+import type { ProviderId } from './config.js';
+
+export type ErrorCode =
+	| 'MISSING_CREDENTIAL'
+	| 'RATE_LIMITED'
+	| 'QUOTA_EXCEEDED'
+	| 'NOT_FOUND'
+	| 'INVALID_INPUT'
+	| 'UPSTREAM_UNAVAILABLE'
+	| 'UPSTREAM_ERROR'
+	| 'TIMEOUT'
+	| 'CANCELLED'
+	| 'OFFLINE'
+	| 'INTERNAL';
+
+/**
+ * Machine-readable form of an error, as returned to MCP clients
+ */
+export interface ErrorDetails {
+	code: ErrorCode;
+	message: string;
+	/** Whether the same call may succeed if tried again later */
+	retryable: boolean;
+	provider?: ProviderId;
+	/** Upstream HTTP status, when there was one */
+	status?: number;
+	/** Suggested wait before retrying */
+	retryAfterMs?: number;
+	details?: Record<string, unknown>;
+}
+
+interface ErrorOptions {
+	retryable?: boolean;
+	provider?: ProviderId;
+	status?: number;
+	retryAfterMs?: number;
+	details?: Record<string, unknown>;
+	cause?: unknown;
+}
+
+/**
+ * Base class for every error the server reports on purpose
+ */
+export class EnglishMcpError extends Error {
+	readonly code: ErrorCode;
+	readonly retryable: boolean;
+	readonly provider?: ProviderId;
+	readonly status?: number;
+	readonly retryAfterMs?: number;
+	readonly details?: Record<string, unknown>;
+
+	constructor(code: ErrorCode, message: string, options: ErrorOptions = {}) {
+		super(message, { cause: options.cause });
+		this.name = new.target.name;
+		this.code = code;
+		this.retryable = options.retryable ?? false;
+		this.provider = options.provider;
+		this.status = options.status;
+		this.retryAfterMs = options.retryAfterMs;
+		this.details = options.details;
+	}
+
+	toJSON(): ErrorDetails {
+		return {
+			code: this.code,
+			message: this.message,
+			retryable: this.retryable,
+			...(this.provider && { provider: this.provider }),
+			...(this.status !== undefined && { status: this.status }),
+			...(this.retryAfterMs !== undefined && {
+				retryAfterMs: this.retryAfterMs,
+			}),
+			...(this.details && { details: this.details }),
+		};
+	}
+}
+
+export class MissingCredentialError extends EnglishMcpError {
+	constructor(credentials: string[], provider?: ProviderId) {
+		super(
+			'MISSING_CREDENTIAL',
+			`${credentials.join(', ')} not configured`,
+			{
+				provider,
+				details: { credentials },
+			}
+		);
+	}
+}
+
+export class RateLimitedError extends EnglishMcpError {
+	constructor(provider: ProviderId | undefined, retryAfterMs?: number) {
+		super(
+			'RATE_LIMITED',
+			`${providerLabel(provider)} rate limit reached${
+				retryAfterMs !== undefined
+					? `; retry in ${Math.ceil(retryAfterMs / 1000)}s`
+					: ''
+			}`,
+			{ retryable: true, provider, status: 429, retryAfterMs }
+		);
+	}
+}
+
+export class QuotaExceededError extends EnglishMcpError {
+	constructor(provider: ProviderId, budget: number, retryAfterMs: number) {
+		super(
+			'QUOTA_EXCEEDED',
+			`${providerLabel(
+				provider
+			)} daily budget of ${budget} requests is used up; it resets at midnight UTC`,
+			{ retryable: true, provider, retryAfterMs, details: { budget } }
+		);
+	}
+}
+
+export class NotFoundError extends EnglishMcpError {
+	constructor(message: string, options: ErrorOptions = {}) {
+		super('NOT_FOUND', message, options);
+	}
+}
+
+export class InvalidInputError extends EnglishMcpError {
+	constructor(message: string, options: ErrorOptions = {}) {
+		super('INVALID_INPUT', message, options);
+	}
+}
+
+/**
+ * A bug on this side, such as a tool returning output that does not match
+ * its own schema
+ */
+export class InternalError extends EnglishMcpError {
+	constructor(message: string, options: ErrorOptions = {}) {
+		super('INTERNAL', message, options);
+	}
+}
+
+export class UpstreamUnavailableError extends EnglishMcpError {
+	constructor(
+		provider: ProviderId | undefined,
+		message: string,
+		options: ErrorOptions = {}
+	) {
+		super('UPSTREAM_UNAVAILABLE', message, {
+			...options,
+			retryable: true,
+			provider,
+		});
+	}
+}
+
+export class UpstreamTimeoutError extends EnglishMcpError {
+	constructor(provider: ProviderId | undefined, timeoutMs: number) {
+		super(
+			'TIMEOUT',
+			`${providerLabel(provider)} did not respond within ${timeoutMs}ms`,
+			{ retryable: true, provider, details: { timeoutMs } }
+		);
+	}
+}
+
+export class CancelledError extends EnglishMcpError {
+	constructor() {
+		super('CANCELLED', 'Request cancelled');
+	}
+}
+
+export class OfflineError extends EnglishMcpError {
+	constructor(provider: ProviderId | undefined, message?: string) {
+		super(
+			'OFFLINE',
+			message ??
+				`${providerLabel(provider)} is unavailable in offline mode`,
+			{ provider }
+		);
+	}
+}
+
+function providerLabel(provider: ProviderId | undefined): string {
+	return provider ? PROVIDER_NAMES[provider] : 'Upstream service';
+}
+
+/**
+ * Error for an unsuccessful upstream HTTP response
+ */
+export function httpError(
+	status: number,
+	provider?: ProviderId,
+	retryAfterMs?: number
+): EnglishMcpError {
+	const label = providerLabel(provider);
+
+	if (status === 429) {
+		return new RateLimitedError(provider, retryAfterMs);
+	}
+	if (status === 404 || status === 410) {
+		return new NotFoundError(`${label} found nothing for this request`, {
+			provider,
+			status,
+		});
+	}
+	if (status === 400 || status === 422) {
+		return new InvalidInputError(`${label} rejected the request input`, {
+			provider,
+			status,
+		});
+	}
+	if (status === 408 || status >= 500) {
+		return new UpstreamUnavailableError(
+			provider,
+			`${label} is unavailable (HTTP ${status})`,
+			{ status, retryAfterMs }
+		);
+	}
+	return new EnglishMcpError(
+		'UPSTREAM_ERROR',
+		`${label} returned HTTP ${status}${
+			status === 401 || status === 403 ? '; check the API key' : ''
+		}`,
+		{ provider, status }
+	);
+}
+
+/**
+ * Convert anything thrown into an EnglishMcpError. Zod validation failures
+ * become INVALID_INPUT; anything unexpected becomes INTERNAL.
+ */
+export function toEnglishMcpError(error: unknown): EnglishMcpError {
+	if (error instanceof EnglishMcpError) {
+		return error;
+	}
+	if (error instanceof ZodError) {
+		return new InvalidInputError(describeZodIssues(error, 'input'), {
+			details: { issues: error.issues },
+		});
+	}
+	return new EnglishMcpError(
+		'INTERNAL',
+		error instanceof Error ? error.message : String(error),
+		{ cause: error }
+	);
+}
+
+/**
+ * One line listing what failed validation, e.g. "text: Required"
+ */
+export function describeZodIssues(error: ZodError, root: string): string {
+	return error.issues
+		.map((issue) => `${issue.path.join('.') || root}: ${issue.message}`)
+		.join('; ');
+}
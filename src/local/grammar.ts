@@ -0,0 +1,393 @@
+/**
+ * Rule-based grammar, spelling and style checks that run without a network
+ * connection. They catch common, unambiguous mistakes only and are no
+ * replacement for Sapling or LanguageTool.
+ */
+
+export type LocalIssueCategory = 'grammar' | 'spelling' | 'style';
+
+export interface LocalIssue {
+	rule: string;
+	description: string;
+	category: LocalIssueCategory;
+	message: string;
+	offset: number;
+	length: number;
+	replacements: string[];
+}
+
+interface PatternRule {
+	id: string;
+	description: string;
+	category: LocalIssueCategory;
+	pattern: RegExp;
+	message: string;
+	/** Suggested replacements for the matched text */
+	replace(match: RegExpExecArray): string[];
+}
+
+/**
+ * Frequent misspellings and their corrections
+ */
+const MISSPELLINGS: Record<string, string> = {
+	accomodate: 'accommodate',
+	acheive: 'achieve',
+	adress: 'address',
+	alot: 'a lot',
+	arguement: 'argument',
+	basicly: 'basically',
+	becuase: 'because',
+	begining: 'beginning',
+	beleive: 'believe',
+	calender: 'calendar',
+	concious: 'conscious',
+	definately: 'definitely',
+	embarass: 'embarrass',
+	enviroment: 'environment',
+	existance: 'existence',
+	finaly: 'finally',
+	foriegn: 'foreign',
+	goverment: 'government',
+	grammer: 'grammar',
+	immediatly: 'immediately',
+	independant: 'independent',
+	knowlege: 'knowledge',
+	libary: 'library',
+	neccessary: 'necessary',
+	noticable: 'noticeable',
+	occassion: 'occasion',
+	occured: 'occurred',
+	occurence: 'occurrence',
+	occuring: 'occurring',
+	persue: 'pursue',
+	posession: 'possession',
+	prefered: 'preferred',
+	publically: 'publicly',
+	realy: 'really',
+	recieve: 'receive',
+	refered: 'referred',
+	relevent: 'relevant',
+	seperate: 'separate',
+	sucess: 'success',
+	succesful: 'successful',
+	suprise: 'surprise',
+	teh: 'the',
+	tendancy: 'tendency',
+	thier: 'their',
+	tommorow: 'tomorrow',
+	truely: 'truly',
+	untill: 'until',
+	wich: 'which',
+	wierd: 'weird',
+	writting: 'writing',
+};
+
+/**
+ * Subject and verb pairs that never agree, with the corrected verb
+ */
+const AGREEMENT: Record<string, string> = {
+	'this are': 'is',
+	'these is': 'are',
+	'those is': 'are',
+	'i is': 'am',
+	'i are': 'am',
+	'you is': 'are',
+	'we is': 'are',
+	'they is': 'are',
+	'you was': 'were',
+	'we was': 'were',
+	'they was': 'were',
+	'he are': 'is',
+	'she are': 'is',
+	'it are': 'is',
+	"he don't": "doesn't",
+	"she don't": "doesn't",
+	"it don't": "doesn't",
+	'he have': 'has',
+	'she have': 'has',
+	'it have': 'has',
+};
+
+/**
+ * Wordy phrases and their concise equivalents
+ */
+const WORDY_PHRASES: Record<string, string> = {
+	'in order to': 'to',
+	'due to the fact that': 'because',
+	'in spite of the fact that': 'although',
+	'at this point in time': 'now',
+	'for the purpose of': 'to',
+	'in the event that': 'if',
+	'a large number of': 'many',
+	'the majority of': 'most',
+	'is able to': 'can',
+	'has the ability to': 'can',
+	'in close proximity to': 'near',
+	'with regard to': 'about',
+	'in the near future': 'soon',
+	'each and every': 'every',
+};
+
+/**
+ * Words starting with a vowel letter but a consonant sound, and the reverse
+ */
+const CONSONANT_SOUND = /^(uni|use|usu|uti|eu|one|once|ur[aeiou])/i;
+const VOWEL_SOUND = /^(hour|honest|honor|honour|heir)/i;
+
+const LONG_SENTENCE_WORDS = 40;
+
+/**
+ * Endings of a fragment that are abbreviations rather than sentence ends
+ */
+const ABBREVIATION =
+	/(\b[A-Za-z]|\b(etc|vs|cf|al|Mr|Mrs|Ms|Dr|Prof|St|No|Fig))\.$/;
+
+function phrasePattern(phrases: string[]): RegExp {
+	return new RegExp(
+		`\\b(${phrases
+			.map((phrase) => phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+			.join('|')})\\b`,
+		'gi'
+	);
+}
+
+/**
+ * Keep the capitalization of the first letter of the original text
+ */
+function matchCase(original: string, replacement: string): string {
+	return /^[A-Z]/.test(original)
+		? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+		: replacement;
+}
+
+/**
+ * Words that are correct twice in a row ("had had", "that that")
+ */
+const CORRECT_DOUBLES = ['had', 'that'];
+
+const PATTERN_RULES: PatternRule[] = [
+	{
+		id: 'REPEATED_WORD',
+		description: 'Repeated word',
+		category: 'grammar',
+		pattern: new RegExp(
+			`\\b(?!(?:${CORRECT_DOUBLES.join('|')})\\s)(\\w+)\\s+\\1\\b`,
+			'gi'
+		),
+		message: 'This word is repeated.',
+		replace: (match) => [match[1]],
+	},
+	{
+		id: 'SUBJECT_VERB_AGREEMENT',
+		description: 'Subject-verb agreement',
+		category: 'grammar',
+		pattern: phrasePattern(Object.keys(AGREEMENT)),
+		message: 'The verb does not agree with its subject.',
+		replace: (match) => {
+			const [subject] = match[0].split(/\s+/);
+			return [`${subject} ${AGREEMENT[match[0].toLowerCase()]}`];
+		},
+	},
+	{
+		id: 'MODAL_OF',
+		description: '"could of" instead of "could have"',
+		category: 'grammar',
+		pattern: /\b(could|should|would|must|might)\s+of\b/gi,
+		message: 'Use "have" after a modal verb.',
+		replace: (match) => [`${match[1]} have`],
+	},
+	{
+		id: 'THEN_THAN',
+		description: '"then" in a comparison',
+		category: 'grammar',
+		pattern:
+			/\b(more|less|better|worse|rather|fewer|greater|other)\s+then\b/gi,
+		message: 'Use "than" for comparisons.',
+		replace: (match) => [`${match[1]} than`],
+	},
+	{
+		id: 'LOWERCASE_I',
+		description: 'Lowercase pronoun "i"',
+		category: 'grammar',
+		pattern: /(?<![\w'.-])i(?=\s|'(m|d|ll|ve)\b|[,;:!?]|$)/g,
+		message: 'The pronoun "I" is always capitalized.',
+		replace: () => ['I'],
+	},
+	{
+		id: 'MISSPELLING',
+		description: 'Common misspelling',
+		category: 'spelling',
+		pattern: phrasePattern(Object.keys(MISSPELLINGS)),
+		message: 'Possible spelling mistake.',
+		replace: (match) => [
+			matchCase(match[0], MISSPELLINGS[match[0].toLowerCase()]),
+		],
+	},
+	{
+		id: 'WORDY_PHRASE',
+		description: 'Wordy phrase',
+		category: 'style',
+		pattern: phrasePattern(Object.keys(WORDY_PHRASES)),
+		message: 'This phrase can be shortened.',
+		replace: (match) => [
+			matchCase(match[0], WORDY_PHRASES[match[0].toLowerCase()]),
+		],
+	},
+	{
+		id: 'SPACE_BEFORE_PUNCTUATION',
+		description: 'Space before punctuation',
+		category: 'style',
+		pattern: /\s+([,.;:!?])(?!\w)/g,
+		message: 'Remove the space before this punctuation mark.',
+		replace: (match) => [match[1]],
+	},
+	{
+		id: 'REPEATED_PUNCTUATION',
+		description: 'Repeated punctuation',
+		category: 'style',
+		pattern: /([!?])\1+|,{2,}/g,
+		message: 'Use a single punctuation mark.',
+		replace: (match) => [match[0].charAt(0)],
+	},
+	{
+		id: 'EXTRA_WHITESPACE',
+		description: 'Extra spaces between words',
+		category: 'style',
+		pattern: /(?<=\S) {2,}(?=\S)/g,
+		message: 'Use a single space between words.',
+		replace: () => [' '],
+	},
+];
+
+function runPatternRule(text: string, rule: PatternRule): LocalIssue[] {
+	const issues: LocalIssue[] = [];
+	const pattern = new RegExp(rule.pattern.source, rule.pattern.flags);
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		issues.push({
+			rule: rule.id,
+			description: rule.description,
+			category: rule.category,
+			message: rule.message,
+			offset: match.index,
+			length: match[0].length,
+			replacements: rule.replace(match),
+		});
+	}
+	return issues;
+}
+
+/**
+ * "a" before a vowel sound or "an" before a consonant sound, and two
+ * different articles in a row ("a an example")
+ */
+function checkArticles(text: string): LocalIssue[] {
+	const issues: LocalIssue[] = [];
+	const pattern = /\b(a|an)(\s+(a|an))?\s+([a-z][\w-]*)/gi;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		const [, first, pair = '', second, next] = match;
+		if (/^[A-Z]{2,}/.test(next)) {
+			// Acronyms depend on how they are read aloud
+			continue;
+		}
+		const vowelSound =
+			(/^[aeiou]/i.test(next) && !CONSONANT_SOUND.test(next)) ||
+			VOWEL_SOUND.test(next);
+		const expected = vowelSound ? 'an' : 'a';
+		if (second && second.toLowerCase() !== first.toLowerCase()) {
+			issues.push({
+				rule: 'DUPLICATE_ARTICLE',
+				description: 'Two articles in a row',
+				category: 'grammar',
+				message: `Use only one article: "${expected}".`,
+				offset: match.index,
+				length: first.length + pair.length,
+				replacements: [matchCase(first, expected)],
+			});
+			continue;
+		}
+		// A repeated article ("a a") is reported as a repeated word, so only
+		// the one next to the word is checked
+		const article = second ?? first;
+		if (article.toLowerCase() !== expected) {
+			issues.push({
+				rule: 'A_AN',
+				description: 'Use of "a" versus "an"',
+				category: 'grammar',
+				message: `Use "${expected}" before "${next}".`,
+				offset:
+					match.index + first.length + pair.length - article.length,
+				length: article.length,
+				replacements: [matchCase(article, expected)],
+			});
+		}
+	}
+	return issues;
+}
+
+/**
+ * Sentences that start with a lowercase letter, and very long sentences
+ */
+function checkSentences(text: string): LocalIssue[] {
+	const issues: LocalIssue[] = [];
+	const pattern = /[^.!?]+[.!?]*/g;
+	let previous = '';
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		const leading = match[0].length - match[0].trimStart().length;
+		const sentence = match[0].trim();
+		if (!sentence) continue;
+		const offset = match.index + leading;
+		const continues = ABBREVIATION.test(previous);
+		previous = sentence;
+
+		if (/^[a-z]/.test(sentence) && !continues && !/^i\b/.test(sentence)) {
+			issues.push({
+				rule: 'UPPERCASE_SENTENCE_START',
+				description: 'Sentence starts with a lowercase letter',
+				category: 'grammar',
+				message: 'Sentences should start with a capital letter.',
+				offset,
+				length: 1,
+				replacements: [sentence.charAt(0).toUpperCase()],
+			});
+		}
+
+		const words = sentence.split(/\s+/).length;
+		if (words > LONG_SENTENCE_WORDS) {
+			issues.push({
+				rule: 'LONG_SENTENCE',
+				description: 'Very long sentence',
+				category: 'style',
+				message: `This sentence has ${words} words. Consider splitting it.`,
+				offset,
+				length: sentence.length,
+				replacements: [],
+			});
+		}
+	}
+	return issues;
+}
+
+/**
+ * Run every local rule over the text. Issues are sorted by position.
+ */
+export function checkTextLocally(text: string): LocalIssue[] {
+	return [
+		...PATTERN_RULES.flatMap((rule) => runPatternRule(text, rule)),
+		...checkArticles(text),
+		...checkSentences(text),
+	].sort((a, b) => a.offset - b.offset || b.length - a.length);
+}
+
+/**
+ * The text around an issue, like LanguageTool's match context
+ */
+export function issueContext(text: string, issue: LocalIssue): string {
+	const start = Math.max(0, issue.offset - 20);
+	const end = Math.min(text.length, issue.offset + issue.length + 20);
+	return `${start > 0 ? '...' : ''}${text.slice(start, end)}${
+		end < text.length ? '...' : ''
+	}`;
+}
@@ -0,0 +1,888 @@
+/**
+ * Rule-based passive voice detection: a form of "be" followed by a past
+ * participle, with adverbs allowed in between. Participles that usually
+ * act as adjectives ("she was tired") only count when an agent follows.
+ */
+
+export interface PassiveConstruction {
+	/** The verb phrase as written, e.g. "was quickly approved" */
+	text: string;
+	/** Offset of the verb phrase in the sentence */
+	offset: number;
+	/** Who performs the action, when named in a "by" phrase */
+	agent?: string;
+	/** The sentence rewritten in the active voice, when one can be built */
+	rewrite?: string;
+}
+
+interface Token {
+	word: string;
+	lower: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Irregular past participles, with the base form and simple past of each
+ */
+const IRREGULAR_VERBS: Record<string, [base: string, past: string]> = {
+	arisen: ['arise', 'arose'],
+	awoken: ['awake', 'awoke'],
+	beaten: ['beat', 'beat'],
+	become: ['become', 'became'],
+	begun: ['begin', 'began'],
+	bent: ['bend', 'bent'],
+	bitten: ['bite', 'bit'],
+	blown: ['blow', 'blew'],
+	borne: ['bear', 'bore'],
+	bought: ['buy', 'bought'],
+	bred: ['breed', 'bred'],
+	broadcast: ['broadcast', 'broadcast'],
+	broken: ['break', 'broke'],
+	brought: ['bring', 'brought'],
+	built: ['build', 'built'],
+	burnt: ['burn', 'burnt'],
+	caught: ['catch', 'caught'],
+	chosen: ['choose', 'chose'],
+	cut: ['cut', 'cut'],
+	dealt: ['deal', 'dealt'],
+	done: ['do', 'did'],
+	drawn: ['draw', 'drew'],
+	driven: ['drive', 'drove'],
+	drunk: ['drink', 'drank'],
+	eaten: ['eat', 'ate'],
+	fed: ['feed', 'fed'],
+	felt: ['feel', 'felt'],
+	fought: ['fight', 'fought'],
+	forbidden: ['forbid', 'forbade'],
+	forecast: ['forecast', 'forecast'],
+	forgiven: ['forgive', 'forgave'],
+	forgotten: ['forget', 'forgot'],
+	found: ['find', 'found'],
+	frozen: ['freeze', 'froze'],
+	given: ['give', 'gave'],
+	ground: ['grind', 'ground'],
+	grown: ['grow', 'grew'],
+	heard: ['hear', 'heard'],
+	held: ['hold', 'held'],
+	hidden: ['hide', 'hid'],
+	hit: ['hit', 'hit'],
+	hung: ['hang', 'hung'],
+	hurt: ['hurt', 'hurt'],
+	kept: ['keep', 'kept'],
+	known: ['know', 'knew'],
+	laid: ['lay', 'laid'],
+	led: ['lead', 'led'],
+	left: ['leave', 'left'],
+	lent: ['lend', 'lent'],
+	let: ['let', 'let'],
+	lit: ['light', 'lit'],
+	lost: ['lose', 'lost'],
+	made: ['make', 'made'],
+	meant: ['mean', 'meant'],
+	met: ['meet', 'met'],
+	misled: ['mislead', 'misled'],
+	overcome: ['overcome', 'overcame'],
+	overseen: ['oversee', 'oversaw'],
+	overtaken: ['overtake', 'overtook'],
+	paid: ['pay', 'paid'],
+	put: ['put', 'put'],
+	read: ['read', 'read'],
+	rebuilt: ['rebuild', 'rebuilt'],
+	rewritten: ['rewrite', 'rewrote'],
+	ridden: ['ride', 'rode'],
+	rung: ['ring', 'rang'],
+	run: ['run', 'ran'],
+	said: ['say', 'said'],
+	seen: ['see', 'saw'],
+	sent: ['send', 'sent'],
+	set: ['set', 'set'],
+	shaken: ['shake', 'shook'],
+	shot: ['shoot', 'shot'],
+	shown: ['show', 'showed'],
+	shut: ['shut', 'shut'],
+	slain: ['slay', 'slew'],
+	sold: ['sell', 'sold'],
+	sought: ['seek', 'sought'],
+	spent: ['spend', 'spent'],
+	spoken: ['speak', 'spoke'],
+	spread: ['spread', 'spread'],
+	spun: ['spin', 'spun'],
+	stolen: ['steal', 'stole'],
+	struck: ['strike', 'struck'],
+	stung: ['sting', 'stung'],
+	sung: ['sing', 'sang'],
+	sunk: ['sink', 'sank'],
+	swept: ['sweep', 'swept'],
+	sworn: ['swear', 'swore'],
+	taken: ['take', 'took'],
+	taught: ['teach', 'taught'],
+	thought: ['think', 'thought'],
+	thrown: ['throw', 'threw'],
+	told: ['tell', 'told'],
+	torn: ['tear', 'tore'],
+	undertaken: ['undertake', 'undertook'],
+	understood: ['understand', 'understood'],
+	upheld: ['uphold', 'upheld'],
+	upset: ['upset', 'upset'],
+	withdrawn: ['withdraw', 'withdrew'],
+	withheld: ['withhold', 'withheld'],
+	woken: ['wake', 'woke'],
+	won: ['win', 'won'],
+	worn: ['wear', 'wore'],
+	woven: ['weave', 'wove'],
+	written: ['write', 'wrote'],
+};
+
+/**
+ * Words ending in "-ed" that are not past participles
+ */
+const NOT_PARTICIPLES = new Set([
+	'bed',
+	'bleed',
+	'breed',
+	'creed',
+	'deed',
+	'exceed',
+	'feed',
+	'greed',
+	'heed',
+	'hundred',
+	'indeed',
+	'jagged',
+	'kindred',
+	'naked',
+	'need',
+	'proceed',
+	'ragged',
+	'red',
+	'reed',
+	'rugged',
+	'sacred',
+	'seed',
+	'shed',
+	'sled',
+	'speed',
+	'succeed',
+	'weed',
+	'wicked',
+	'wretched',
+]);
+
+/**
+ * Participles mostly used as adjectives after "be"; without an agent they
+ * describe a state rather than an action
+ */
+const ADJECTIVAL_PARTICIPLES = new Set([
+	'accustomed',
+	'acquainted',
+	'advanced',
+	'aged',
+	'amazed',
+	'annoyed',
+	'ashamed',
+	'based',
+	'biased',
+	'bored',
+	'closed',
+	'complicated',
+	'concerned',
+	'confused',
+	'convinced',
+	'crowded',
+	'dedicated',
+	'delighted',
+	'detailed',
+	'determined',
+	'devoted',
+	'disappointed',
+	'done',
+	'educated',
+	'embarrassed',
+	'engaged',
+	'entitled',
+	'excited',
+	'exhausted',
+	'experienced',
+	'finished',
+	'frightened',
+	'gone',
+	'interested',
+	'involved',
+	'limited',
+	'located',
+	'married',
+	'obsessed',
+	'overwhelmed',
+	'pleased',
+	'prepared',
+	'qualified',
+	'related',
+	'relieved',
+	'satisfied',
+	'scared',
+	'shocked',
+	'skilled',
+	'sophisticated',
+	'supposed',
+	'surprised',
+	'talented',
+	'terrified',
+	'thrilled',
+	'tired',
+	'upset',
+	'worried',
+]);
+
+/**
+ * Degree words that mark the following participle as an adjective
+ * ("very tired", "more complicated")
+ */
+const INTENSIFIERS = new Set([
+	'extremely',
+	'fairly',
+	'increasingly',
+	'least',
+	'less',
+	'more',
+	'most',
+	'pretty',
+	'quite',
+	'rather',
+	'really',
+	'so',
+	'somewhat',
+	'too',
+	'very',
+]);
+
+const BE_FORMS = new Set([
+	'am',
+	'is',
+	'are',
+	'was',
+	'were',
+	'be',
+	'been',
+	'being',
+]);
+const NEGATED_BE = /^(am|is|are|was|were)n['’]t$/;
+const MODALS = new Set([
+	'can',
+	'could',
+	'may',
+	'might',
+	'must',
+	'shall',
+	'should',
+	'will',
+	'would',
+]);
+
+/**
+ * Adverbs that may sit between "be" and the participle, besides -ly words
+ */
+const ADVERBS = new Set([
+	'all',
+	'already',
+	'also',
+	'always',
+	'both',
+	'first',
+	'never',
+	'not',
+	'now',
+	'often',
+	'once',
+	'still',
+	'then',
+]);
+
+/**
+ * Words that end an agent phrase ("by the committee on Monday")
+ */
+const AGENT_STOPS = new Set([
+	'about',
+	'after',
+	'again',
+	'and',
+	'as',
+	'at',
+	'because',
+	'before',
+	'but',
+	'during',
+	'each',
+	'every',
+	'for',
+	'from',
+	'if',
+	'in',
+	'into',
+	'last',
+	'later',
+	'next',
+	'on',
+	'online',
+	'since',
+	'so',
+	'than',
+	'that',
+	'through',
+	'to',
+	'today',
+	'under',
+	'until',
+	'when',
+	'which',
+	'while',
+	'who',
+	'with',
+	'without',
+	'yesterday',
+]);
+
+/**
+ * "by" phrases that give a means or a time rather than an agent
+ */
+const NON_AGENTS = new Set([
+	'accident',
+	'chance',
+	'default',
+	'design',
+	'email',
+	'far',
+	'hand',
+	'law',
+	'mail',
+	'means',
+	'mistake',
+	'now',
+	'phone',
+	'post',
+	'then',
+	'today',
+	'tomorrow',
+	'tonight',
+	'monday',
+	'tuesday',
+	'wednesday',
+	'thursday',
+	'friday',
+	'saturday',
+	'sunday',
+]);
+
+/**
+ * Words that may open a clause before its subject
+ */
+const CLAUSE_OPENERS = new Set([
+	'after',
+	'although',
+	'and',
+	'as',
+	'because',
+	'before',
+	'but',
+	'if',
+	'since',
+	'so',
+	'though',
+	'unless',
+	'until',
+	'when',
+	'whereas',
+	'while',
+]);
+
+/**
+ * Subjects that make the "be" verb part of a relative clause, which cannot
+ * be rewritten on its own
+ */
+const RELATIVE_PRONOUNS = new Set(['that', 'which', 'who', 'whom', 'whose']);
+
+const DETERMINERS = new Set([
+	'a',
+	'all',
+	'an',
+	'each',
+	'every',
+	'her',
+	'his',
+	'its',
+	'many',
+	'most',
+	'my',
+	'our',
+	'some',
+	'that',
+	'the',
+	'their',
+	'these',
+	'this',
+	'those',
+	'your',
+]);
+
+const SUBJECT_TO_OBJECT: Record<string, string> = {
+	i: 'me',
+	he: 'him',
+	she: 'her',
+	we: 'us',
+	they: 'them',
+};
+
+const OBJECT_TO_SUBJECT: Record<string, string> = {
+	me: 'I',
+	him: 'he',
+	her: 'she',
+	us: 'we',
+	them: 'they',
+};
+
+function tokenize(sentence: string): Token[] {
+	return Array.from(sentence.matchAll(/[\p{L}\p{M}\p{N}'’-]+/gu), (match) => {
+		const start = match.index ?? 0;
+		return {
+			word: match[0],
+			lower: match[0].toLowerCase(),
+			start,
+			end: start + match[0].length,
+		};
+	});
+}
+
+function isAdverb(word: string): boolean {
+	return ADVERBS.has(word) || (word.length > 4 && word.endsWith('ly'));
+}
+
+/**
+ * Base form and simple past of an irregular participle
+ */
+function irregularForms(
+	participle: string
+): [base: string, past: string] | undefined {
+	return Object.hasOwn(IRREGULAR_VERBS, participle)
+		? IRREGULAR_VERBS[participle]
+		: undefined;
+}
+
+function isParticiple(word: string): boolean {
+	return (
+		irregularForms(word) !== undefined ||
+		(/^[a-z]{2,}ed$/.test(word) && !NOT_PARTICIPLES.has(word))
+	);
+}
+
+/**
+ * Whether only spaces separate two tokens, so they sit in the same clause
+ */
+function adjacent(sentence: string, left: Token, right: Token): boolean {
+	return /^\s+$/.test(sentence.slice(left.end, right.start));
+}
+
+/**
+ * Regular participles whose base form the spelling rules in regularBase
+ * would get wrong
+ */
+const REGULAR_BASES: Record<string, string> = {
+	adored: 'adore',
+	biased: 'bias',
+	bored: 'bore',
+	cancelled: 'cancel',
+	cited: 'cite',
+	compelled: 'compel',
+	competed: 'compete',
+	completed: 'complete',
+	controlled: 'control',
+	created: 'create',
+	deleted: 'delete',
+	denoted: 'denote',
+	deplored: 'deplore',
+	devoted: 'devote',
+	excelled: 'excel',
+	excited: 'excite',
+	explored: 'explore',
+	focused: 'focus',
+	ignited: 'ignite',
+	ignored: 'ignore',
+	implored: 'implore',
+	invited: 'invite',
+	labelled: 'label',
+	modelled: 'model',
+	noted: 'note',
+	patrolled: 'patrol',
+	promoted: 'promote',
+	propelled: 'propel',
+	quoted: 'quote',
+	recited: 'recite',
+	restored: 'restore',
+	scored: 'score',
+	snored: 'snore',
+	stored: 'store',
+	travelled: 'travel',
+	united: 'unite',
+	voted: 'vote',
+};
+
+/**
+ * Base form of a regular past participle, e.g. "studied" -> "study",
+ * "stopped" -> "stop", "approved" -> "approve". English spelling leaves
+ * some cases ambiguous, so the result is a best guess.
+ */
+function regularBase(participle: string): string {
+	if (Object.hasOwn(REGULAR_BASES, participle)) {
+		return REGULAR_BASES[participle];
+	}
+	if (participle.endsWith('ied')) {
+		return `${participle.slice(0, -3)}y`;
+	}
+	if (participle.endsWith('eed')) {
+		return participle.slice(0, -1);
+	}
+	const stem = participle.slice(0, -2);
+	// "qu" spells a consonant sound ("required", "quoted")
+	const sound = stem.replace(/qu/g, 'q');
+
+	if (stem.length > 3 && /([b-dg-hj-km-np-rtv-y])\1$/.test(stem)) {
+		return stem.slice(0, -1);
+	}
+	if (/[^s]s$/.test(stem)) {
+		return `${stem}e`;
+	}
+	if (/(?:[vcu]|[^z]z|[^io]ng|[^n]g|[bcdfgkptz]l)$/.test(stem)) {
+		return `${stem}e`;
+	}
+	if (/[aeiouy][aeiou][^aeiouwxy]$/.test(sound)) {
+		return stem;
+	}
+	if (
+		/(?:at|ut|[aiu]r|[aeiou][dbkm]|[aiu]p|[iu]l|in)$/.test(sound) ||
+		/^[^aeiouy]*[aeiouy][^aeiouwxy]$/.test(sound)
+	) {
+		return `${stem}e`;
+	}
+	return stem;
+}
+
+function baseForm(participle: string): string {
+	return irregularForms(participle)?.[0] ?? regularBase(participle);
+}
+
+function pastForm(participle: string): string {
+	return irregularForms(participle)?.[1] ?? participle;
+}
+
+/**
+ * Present tense form agreeing with a third-person singular subject
+ */
+function thirdPerson(base: string): string {
+	if (base === 'be') return 'is';
+	if (base === 'have') return 'has';
+	if (/(?:s|x|z|ch|sh|o)$/.test(base)) return `${base}es`;
+	if (/[^aeiou]y$/.test(base)) return `${base.slice(0, -1)}ies`;
+	return `${base}s`;
+}
+
+/**
+ * Whether an agent takes a singular verb ("the committee approves")
+ */
+function isSingular(agent: string): boolean {
+	const lower = agent.toLowerCase();
+	if (['i', 'you', 'we', 'they'].includes(lower)) return false;
+	if (/\band\b/.test(lower)) return false;
+	const last = lower.split(/\s+/).pop() ?? '';
+	return !/[^su]s$/.test(last) || /(?:ss|us|is)$/.test(last);
+}
+
+/**
+ * Whether a word after "and" or "or" in an agent starts another noun
+ * phrase ("by Anna and Bob", "by the board and its staff") rather than a
+ * new clause ("by Sarah and published")
+ */
+function startsConjunct(token: Token): boolean {
+	return (
+		DETERMINERS.has(token.lower) ||
+		Object.hasOwn(OBJECT_TO_SUBJECT, token.lower) ||
+		/^\p{Lu}/u.test(token.word)
+	);
+}
+
+/**
+ * The agent named after the participle ("by the committee"), as the
+ * tokens it spans. Noun phrases joined by "and" or "or" stay together.
+ */
+function agentTokens(
+	sentence: string,
+	tokens: Token[],
+	participle: number
+): Token[] | undefined {
+	const by = tokens[participle + 1];
+	const first = tokens[participle + 2];
+	if (
+		!by ||
+		by.lower !== 'by' ||
+		!first ||
+		!adjacent(sentence, tokens[participle], by) ||
+		!adjacent(sentence, by, first) ||
+		NON_AGENTS.has(first.lower) ||
+		/^\d/.test(first.word) ||
+		/^(?:the|this|that) (?:end|time|way)\b/i.test(
+			sentence.slice(first.start)
+		)
+	) {
+		return undefined;
+	}
+
+	const agent = [first];
+	for (let index = participle + 3; index < tokens.length; index++) {
+		const token = tokens[index];
+		if (
+			agent.length >= 6 ||
+			!adjacent(sentence, agent[agent.length - 1], token)
+		) {
+			break;
+		}
+		const next = tokens[index + 1];
+		if (
+			(token.lower === 'and' || token.lower === 'or') &&
+			next &&
+			adjacent(sentence, token, next) &&
+			startsConjunct(next)
+		) {
+			agent.push(token, next);
+			index++;
+			continue;
+		}
+		if (AGENT_STOPS.has(token.lower)) {
+			break;
+		}
+		agent.push(token);
+	}
+	return agent;
+}
+
+/**
+ * Active verb phrase for the auxiliaries in front of the participle, or
+ * undefined for forms the rewrite does not handle ("is being reviewed")
+ */
+function activeVerb(
+	auxiliaries: string[],
+	adverbs: string[],
+	participle: string,
+	singular: boolean
+): string | undefined {
+	const negated = adverbs.includes('not');
+	const join = (...words: string[]) => words.filter(Boolean).join(' ');
+	const modifiers = adverbs.join(' ');
+	const [first, second] = auxiliaries;
+
+	if (auxiliaries.length === 1 && (first === 'was' || first === 'were')) {
+		return negated
+			? join('did', modifiers, baseForm(participle))
+			: join(modifiers, pastForm(participle));
+	}
+	if (auxiliaries.length === 1 && ['am', 'is', 'are'].includes(first)) {
+		const base = baseForm(participle);
+		if (negated) {
+			return join(singular ? 'does' : 'do', modifiers, base);
+		}
+		return join(modifiers, singular ? thirdPerson(base) : base);
+	}
+	if (second === 'been' && ['has', 'have', 'had'].includes(first)) {
+		const have = first === 'had' ? 'had' : singular ? 'has' : 'have';
+		return join(have, modifiers, participle);
+	}
+	if (second === 'be' && MODALS.has(first)) {
+		return join(first, modifiers, baseForm(participle));
+	}
+	return undefined;
+}
+
+function capitalize(text: string): string {
+	return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * The sentence with the agent as subject and the passive subject as
+ * object, e.g. "The plan was approved by the board." -> "The board
+ * approved the plan."
+ */
+function activeRewrite(
+	sentence: string,
+	tokens: Token[],
+	verbStart: number,
+	participle: number,
+	auxiliaries: string[],
+	adverbs: string[],
+	agent: Token[]
+): string | undefined {
+	// The subject runs from the start of the clause to the verb phrase
+	let clauseStart = 0;
+	for (let index = verbStart - 1; index > 0; index--) {
+		if (!adjacent(sentence, tokens[index - 1], tokens[index])) {
+			clauseStart = index;
+			break;
+		}
+	}
+	while (
+		clauseStart < verbStart &&
+		CLAUSE_OPENERS.has(tokens[clauseStart].lower)
+	) {
+		clauseStart++;
+	}
+	const subjectTokens = tokens.slice(clauseStart, verbStart);
+	if (
+		subjectTokens.length === 0 ||
+		subjectTokens.length > 8 ||
+		subjectTokens.some((token) => RELATIVE_PRONOUNS.has(token.lower))
+	) {
+		return undefined;
+	}
+
+	const agentText = sentence.slice(
+		agent[0].start,
+		agent[agent.length - 1].end
+	);
+	const verb = activeVerb(
+		auxiliaries,
+		adverbs,
+		tokens[participle].lower,
+		isSingular(agentText)
+	);
+	if (!verb) {
+		return undefined;
+	}
+
+	const prefix = sentence.slice(0, subjectTokens[0].start);
+	const atStart = prefix.trim() === '';
+	let subject = sentence.slice(
+		subjectTokens[0].start,
+		subjectTokens[subjectTokens.length - 1].end
+	);
+	const pronoun = SUBJECT_TO_OBJECT[subject.toLowerCase()];
+	if (pronoun) {
+		subject = pronoun;
+	} else if (atStart && DETERMINERS.has(subjectTokens[0].lower)) {
+		subject = subject.charAt(0).toLowerCase() + subject.slice(1);
+	}
+
+	// Pronouns standing alone as the agent or one of its conjuncts
+	// ("by him", "by Anna and me") become subject pronouns
+	let newSubject = agent
+		.map((token, index) => {
+			const pronoun = Object.hasOwn(OBJECT_TO_SUBJECT, token.lower)
+				? OBJECT_TO_SUBJECT[token.lower]
+				: undefined;
+			const alone = [agent[index - 1], agent[index + 1]].every(
+				(neighbor) =>
+					!neighbor ||
+					neighbor.lower === 'and' ||
+					neighbor.lower === 'or'
+			);
+			return pronoun && alone ? pronoun : token.word;
+		})
+		.join(' ');
+	if (atStart) {
+		newSubject = capitalize(newSubject);
+	}
+	const rest = sentence.slice(agent[agent.length - 1].end);
+	// "was edited by Sarah and published" shares its subject with a second verb
+	if (/^\s+(?:and|or)\s/.test(rest)) {
+		return undefined;
+	}
+	return `${prefix}${newSubject} ${verb} ${subject}${rest}`;
+}
+
+/**
+ * Passive constructions in a single sentence
+ */
+export function findPassiveConstructions(
+	sentence: string
+): PassiveConstruction[] {
+	const tokens = tokenize(sentence);
+	const found: PassiveConstruction[] = [];
+
+	tokens.forEach((token, index) => {
+		const negatedBe = NEGATED_BE.exec(token.lower);
+		if (!BE_FORMS.has(token.lower) && !negatedBe) {
+			return;
+		}
+		// Only the first "be" of a chain like "has been" or "is being" starts one
+		const previous = tokens[index - 1];
+		if (
+			previous &&
+			BE_FORMS.has(previous.lower) &&
+			adjacent(sentence, previous, token)
+		) {
+			return;
+		}
+
+		const auxiliaries = [negatedBe ? negatedBe[1] : token.lower];
+		const adverbs = negatedBe ? ['not'] : [];
+		let verbStart = index;
+		if (
+			previous &&
+			adjacent(sentence, previous, token) &&
+			(MODALS.has(previous.lower) ||
+				(['has', 'have', 'had'].includes(previous.lower) &&
+					token.lower === 'been'))
+		) {
+			auxiliaries.unshift(previous.lower);
+			verbStart = index - 1;
+		}
+
+		let cursor = index + 1;
+		while (cursor < tokens.length && cursor <= index + 3) {
+			const next = tokens[cursor];
+			if (!adjacent(sentence, tokens[cursor - 1], next)) {
+				return;
+			}
+			if (BE_FORMS.has(next.lower)) {
+				auxiliaries.push(next.lower);
+			} else if (isAdverb(next.lower)) {
+				adverbs.push(next.lower);
+			} else {
+				break;
+			}
+			cursor++;
+		}
+
+		const participle = tokens[cursor];
+		if (
+			!participle ||
+			!adjacent(sentence, tokens[cursor - 1], participle) ||
+			!isParticiple(participle.lower) ||
+			INTENSIFIERS.has(tokens[cursor - 1].lower)
+		) {
+			return;
+		}
+
+		const agent = agentTokens(sentence, tokens, cursor);
+		if (ADJECTIVAL_PARTICIPLES.has(participle.lower) && !agent) {
+			return;
+		}
+
+		found.push({
+			text: sentence.slice(tokens[verbStart].start, participle.end),
+			offset: tokens[verbStart].start,
+			...(agent && {
+				agent: sentence.slice(
+					agent[0].start,
+					agent[agent.length - 1].end
+				),
+				rewrite: activeRewrite(
+					sentence,
+					tokens,
+					verbStart,
+					cursor,
+					auxiliaries,
+					adverbs,
+					agent
+				),
+			}),
+		});
+	});
+
+	return found;
+}
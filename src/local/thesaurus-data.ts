@@ -0,0 +1,1317 @@
+/**
+ * A small built-in thesaurus of words that come up constantly in student and
+ * academic writing, used when Merriam-Webster cannot be reached. Each word
+ * maps to one or more senses.
+ */
+export interface LocalSense {
+	partOfSpeech: string;
+	definition: string;
+	synonyms: string[];
+	antonyms: string[];
+}
+
+export const THESAURUS_DATA: Record<string, LocalSense[]> = {
+	good: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'of a favorable character or tendency',
+			synonyms: [
+				'excellent',
+				'fine',
+				'favorable',
+				'satisfactory',
+				'superior',
+				'beneficial',
+				'worthy',
+			],
+			antonyms: ['bad', 'poor', 'inferior'],
+		},
+	],
+	bad: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'below an acceptable standard in quality',
+			synonyms: [
+				'poor',
+				'inferior',
+				'substandard',
+				'deficient',
+				'inadequate',
+				'unsatisfactory',
+			],
+			antonyms: ['good', 'excellent', 'satisfactory'],
+		},
+		{
+			partOfSpeech: 'adjective',
+			definition: 'causing harm or damage',
+			synonyms: [
+				'harmful',
+				'damaging',
+				'detrimental',
+				'injurious',
+				'adverse',
+			],
+			antonyms: ['beneficial', 'harmless'],
+		},
+	],
+	big: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'large in size, extent or amount',
+			synonyms: [
+				'large',
+				'substantial',
+				'considerable',
+				'extensive',
+				'sizable',
+				'vast',
+				'enormous',
+			],
+			antonyms: ['small', 'little', 'minor'],
+		},
+	],
+	small: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'little in size, extent or amount',
+			synonyms: [
+				'little',
+				'minor',
+				'modest',
+				'slight',
+				'limited',
+				'minimal',
+				'negligible',
+			],
+			antonyms: ['big', 'large', 'substantial'],
+		},
+	],
+	important: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'having great significance or value',
+			synonyms: [
+				'significant',
+				'crucial',
+				'essential',
+				'vital',
+				'critical',
+				'fundamental',
+				'key',
+			],
+			antonyms: ['unimportant', 'trivial', 'insignificant'],
+		},
+	],
+	show: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to make evident or prove',
+			synonyms: [
+				'demonstrate',
+				'illustrate',
+				'reveal',
+				'indicate',
+				'establish',
+				'display',
+			],
+			antonyms: ['conceal', 'hide'],
+		},
+	],
+	use: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to put into action or service',
+			synonyms: ['employ', 'apply', 'utilize', 'exercise', 'exploit'],
+			antonyms: [],
+		},
+	],
+	get: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to come to have or hold',
+			synonyms: [
+				'obtain',
+				'acquire',
+				'gain',
+				'receive',
+				'secure',
+				'attain',
+			],
+			antonyms: ['lose', 'forfeit'],
+		},
+	],
+	make: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to bring into being',
+			synonyms: [
+				'create',
+				'produce',
+				'construct',
+				'generate',
+				'form',
+				'build',
+			],
+			antonyms: ['destroy', 'demolish'],
+		},
+	],
+	help: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to provide what is useful or necessary',
+			synonyms: [
+				'assist',
+				'aid',
+				'support',
+				'facilitate',
+				'benefit',
+				'serve',
+			],
+			antonyms: ['hinder', 'obstruct', 'impede'],
+		},
+	],
+	think: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to have as an opinion',
+			synonyms: [
+				'believe',
+				'consider',
+				'reckon',
+				'suppose',
+				'judge',
+				'hold',
+			],
+			antonyms: ['doubt'],
+		},
+		{
+			partOfSpeech: 'verb',
+			definition: 'to use the mind to consider something',
+			synonyms: [
+				'reflect',
+				'contemplate',
+				'ponder',
+				'deliberate',
+				'reason',
+			],
+			antonyms: [],
+		},
+	],
+	say: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to express in words',
+			synonyms: [
+				'state',
+				'declare',
+				'assert',
+				'claim',
+				'remark',
+				'mention',
+			],
+			antonyms: [],
+		},
+	],
+	many: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'consisting of a large number',
+			synonyms: [
+				'numerous',
+				'multiple',
+				'various',
+				'countless',
+				'several',
+				'abundant',
+			],
+			antonyms: ['few'],
+		},
+	],
+	few: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'consisting of a small number',
+			synonyms: ['scarce', 'limited', 'sparse', 'rare', 'infrequent'],
+			antonyms: ['many', 'numerous'],
+		},
+	],
+	very: [
+		{
+			partOfSpeech: 'adverb',
+			definition: 'to a high degree',
+			synonyms: [
+				'extremely',
+				'highly',
+				'exceptionally',
+				'particularly',
+				'remarkably',
+				'considerably',
+			],
+			antonyms: ['slightly', 'somewhat'],
+		},
+	],
+	often: [
+		{
+			partOfSpeech: 'adverb',
+			definition: 'many times',
+			synonyms: [
+				'frequently',
+				'regularly',
+				'commonly',
+				'repeatedly',
+				'routinely',
+			],
+			antonyms: ['rarely', 'seldom'],
+		},
+	],
+	happy: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'feeling or showing pleasure',
+			synonyms: [
+				'glad',
+				'cheerful',
+				'joyful',
+				'content',
+				'pleased',
+				'delighted',
+			],
+			antonyms: ['sad', 'unhappy', 'miserable'],
+		},
+	],
+	sad: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'feeling or showing grief or unhappiness',
+			synonyms: [
+				'unhappy',
+				'sorrowful',
+				'dejected',
+				'melancholy',
+				'downcast',
+				'miserable',
+			],
+			antonyms: ['happy', 'cheerful', 'joyful'],
+		},
+	],
+	hard: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'difficult to do or understand',
+			synonyms: [
+				'difficult',
+				'challenging',
+				'demanding',
+				'arduous',
+				'complicated',
+				'tough',
+			],
+			antonyms: ['easy', 'simple'],
+		},
+	],
+	easy: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'requiring little effort',
+			synonyms: [
+				'simple',
+				'straightforward',
+				'effortless',
+				'uncomplicated',
+				'manageable',
+			],
+			antonyms: ['hard', 'difficult', 'challenging'],
+		},
+	],
+	fast: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'moving or able to move quickly',
+			synonyms: ['quick', 'rapid', 'swift', 'speedy', 'brisk', 'prompt'],
+			antonyms: ['slow', 'sluggish'],
+		},
+	],
+	slow: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'moving or proceeding without speed',
+			synonyms: [
+				'gradual',
+				'unhurried',
+				'sluggish',
+				'leisurely',
+				'delayed',
+			],
+			antonyms: ['fast', 'quick', 'rapid'],
+		},
+	],
+	new: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'having recently come into existence',
+			synonyms: [
+				'novel',
+				'recent',
+				'modern',
+				'fresh',
+				'original',
+				'innovative',
+			],
+			antonyms: ['old', 'outdated', 'established'],
+		},
+	],
+	old: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'having existed for a long time',
+			synonyms: [
+				'ancient',
+				'aged',
+				'established',
+				'traditional',
+				'outdated',
+				'former',
+			],
+			antonyms: ['new', 'modern', 'recent'],
+		},
+	],
+	change: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to make or become different',
+			synonyms: [
+				'alter',
+				'modify',
+				'adjust',
+				'transform',
+				'revise',
+				'amend',
+			],
+			antonyms: ['preserve', 'maintain'],
+		},
+		{
+			partOfSpeech: 'noun',
+			definition: 'the act or result of making something different',
+			synonyms: [
+				'alteration',
+				'modification',
+				'shift',
+				'transformation',
+				'revision',
+			],
+			antonyms: ['stability', 'continuity'],
+		},
+	],
+	start: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to take the first step in a process',
+			synonyms: [
+				'begin',
+				'commence',
+				'initiate',
+				'launch',
+				'establish',
+				'undertake',
+			],
+			antonyms: ['end', 'finish', 'conclude'],
+		},
+	],
+	end: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to bring or come to a close',
+			synonyms: [
+				'finish',
+				'conclude',
+				'complete',
+				'terminate',
+				'cease',
+				'close',
+			],
+			antonyms: ['start', 'begin', 'commence'],
+		},
+	],
+	look: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to direct attention toward something',
+			synonyms: [
+				'examine',
+				'observe',
+				'inspect',
+				'study',
+				'view',
+				'regard',
+			],
+			antonyms: ['ignore', 'overlook'],
+		},
+	],
+	need: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to be in want of',
+			synonyms: ['require', 'demand', 'necessitate', 'lack'],
+			antonyms: [],
+		},
+	],
+	want: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to have a desire for',
+			synonyms: ['desire', 'wish', 'seek', 'crave', 'prefer'],
+			antonyms: ['reject', 'refuse'],
+		},
+	],
+	give: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to hand over or make available',
+			synonyms: [
+				'provide',
+				'supply',
+				'offer',
+				'grant',
+				'present',
+				'contribute',
+			],
+			antonyms: ['take', 'withhold'],
+		},
+	],
+	find: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to discover by searching or by chance',
+			synonyms: [
+				'discover',
+				'identify',
+				'detect',
+				'locate',
+				'determine',
+				'uncover',
+			],
+			antonyms: ['lose', 'miss'],
+		},
+	],
+	keep: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to continue to have or hold',
+			synonyms: ['retain', 'maintain', 'preserve', 'hold', 'sustain'],
+			antonyms: ['discard', 'abandon'],
+		},
+	],
+	try: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to make an effort to do something',
+			synonyms: ['attempt', 'endeavor', 'strive', 'seek', 'undertake'],
+			antonyms: ['abandon', 'quit'],
+		},
+	],
+	problem: [
+		{
+			partOfSpeech: 'noun',
+			definition: 'a matter or situation that needs to be dealt with',
+			synonyms: [
+				'issue',
+				'difficulty',
+				'challenge',
+				'complication',
+				'obstacle',
+				'dilemma',
+			],
+			antonyms: ['solution', 'answer'],
+		},
+	],
+	idea: [
+		{
+			partOfSpeech: 'noun',
+			definition:
+				'a thought or suggestion about a possible course of action',
+			synonyms: [
+				'concept',
+				'notion',
+				'theory',
+				'proposal',
+				'hypothesis',
+				'insight',
+			],
+			antonyms: [],
+		},
+	],
+	result: [
+		{
+			partOfSpeech: 'noun',
+			definition: 'something that follows from an action or condition',
+			synonyms: [
+				'outcome',
+				'consequence',
+				'effect',
+				'finding',
+				'conclusion',
+				'product',
+			],
+			antonyms: ['cause', 'origin'],
+		},
+	],
+	cause: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to make something happen',
+			synonyms: [
+				'produce',
+				'generate',
+				'trigger',
+				'induce',
+				'provoke',
+				'create',
+			],
+			antonyms: ['prevent'],
+		},
+		{
+			partOfSpeech: 'noun',
+			definition: 'something that brings about a result',
+			synonyms: ['source', 'origin', 'root', 'basis', 'reason'],
+			antonyms: ['effect', 'result', 'consequence'],
+		},
+	],
+	effect: [
+		{
+			partOfSpeech: 'noun',
+			definition: 'a change that results from an action or cause',
+			synonyms: [
+				'impact',
+				'influence',
+				'consequence',
+				'outcome',
+				'result',
+			],
+			antonyms: ['cause'],
+		},
+	],
+	clear: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'easy to perceive or understand',
+			synonyms: [
+				'evident',
+				'obvious',
+				'apparent',
+				'plain',
+				'explicit',
+				'lucid',
+			],
+			antonyms: ['unclear', 'ambiguous', 'vague', 'obscure'],
+		},
+	],
+	different: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'not the same as another',
+			synonyms: [
+				'distinct',
+				'dissimilar',
+				'diverse',
+				'contrasting',
+				'divergent',
+				'various',
+			],
+			antonyms: ['similar', 'identical', 'alike'],
+		},
+	],
+	similar: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'alike but not identical',
+			synonyms: [
+				'comparable',
+				'alike',
+				'analogous',
+				'equivalent',
+				'corresponding',
+				'related',
+			],
+			antonyms: ['different', 'dissimilar', 'distinct'],
+		},
+	],
+	true: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'in accordance with fact or reality',
+			synonyms: [
+				'accurate',
+				'correct',
+				'valid',
+				'factual',
+				'genuine',
+				'exact',
+			],
+			antonyms: ['false', 'incorrect', 'inaccurate'],
+		},
+	],
+	false: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'not in accordance with fact or reality',
+			synonyms: [
+				'incorrect',
+				'inaccurate',
+				'untrue',
+				'erroneous',
+				'invalid',
+				'mistaken',
+			],
+			antonyms: ['true', 'correct', 'accurate'],
+		},
+	],
+	strong: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'having great power or force',
+			synonyms: [
+				'powerful',
+				'robust',
+				'sturdy',
+				'forceful',
+				'compelling',
+				'solid',
+			],
+			antonyms: ['weak', 'feeble', 'fragile'],
+		},
+	],
+	weak: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'lacking strength, force or effectiveness',
+			synonyms: [
+				'feeble',
+				'fragile',
+				'frail',
+				'ineffective',
+				'unconvincing',
+				'flimsy',
+			],
+			antonyms: ['strong', 'powerful', 'robust'],
+		},
+	],
+	increase: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to become or make greater in size or amount',
+			synonyms: [
+				'grow',
+				'rise',
+				'expand',
+				'enlarge',
+				'escalate',
+				'augment',
+				'boost',
+			],
+			antonyms: ['decrease', 'reduce', 'decline'],
+		},
+	],
+	decrease: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to become or make smaller in size or amount',
+			synonyms: [
+				'reduce',
+				'decline',
+				'diminish',
+				'lessen',
+				'shrink',
+				'lower',
+			],
+			antonyms: ['increase', 'grow', 'rise'],
+		},
+	],
+	improve: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to make or become better',
+			synonyms: [
+				'enhance',
+				'refine',
+				'upgrade',
+				'strengthen',
+				'advance',
+				'develop',
+			],
+			antonyms: ['worsen', 'deteriorate', 'impair'],
+		},
+	],
+	explain: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to make plain or understandable',
+			synonyms: [
+				'clarify',
+				'describe',
+				'elucidate',
+				'interpret',
+				'illustrate',
+				'account for',
+			],
+			antonyms: ['confuse', 'obscure'],
+		},
+	],
+	describe: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to give an account of in words',
+			synonyms: [
+				'portray',
+				'depict',
+				'outline',
+				'characterize',
+				'detail',
+				'report',
+			],
+			antonyms: [],
+		},
+	],
+	support: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to provide evidence for or argue in favor of',
+			synonyms: [
+				'substantiate',
+				'corroborate',
+				'confirm',
+				'back',
+				'reinforce',
+				'uphold',
+			],
+			antonyms: ['contradict', 'oppose', 'undermine'],
+		},
+	],
+	prove: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to establish the truth of by evidence',
+			synonyms: [
+				'demonstrate',
+				'establish',
+				'confirm',
+				'verify',
+				'validate',
+				'substantiate',
+			],
+			antonyms: ['disprove', 'refute'],
+		},
+	],
+	suggest: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to put forward for consideration or imply',
+			synonyms: [
+				'propose',
+				'indicate',
+				'imply',
+				'recommend',
+				'hint',
+				'advise',
+			],
+			antonyms: [],
+		},
+	],
+	argue: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to give reasons for or against something',
+			synonyms: [
+				'contend',
+				'maintain',
+				'assert',
+				'claim',
+				'reason',
+				'hold',
+			],
+			antonyms: ['concede', 'agree'],
+		},
+	],
+	believe: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to accept as true',
+			synonyms: [
+				'accept',
+				'trust',
+				'hold',
+				'consider',
+				'suppose',
+				'maintain',
+			],
+			antonyms: ['doubt', 'disbelieve', 'question'],
+		},
+	],
+	know: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to be aware of through observation or information',
+			synonyms: [
+				'understand',
+				'recognize',
+				'realize',
+				'comprehend',
+				'perceive',
+			],
+			antonyms: [],
+		},
+	],
+	understand: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to grasp the meaning of',
+			synonyms: [
+				'comprehend',
+				'grasp',
+				'follow',
+				'interpret',
+				'perceive',
+				'appreciate',
+			],
+			antonyms: ['misunderstand', 'misinterpret'],
+		},
+	],
+	create: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to bring into existence',
+			synonyms: [
+				'produce',
+				'generate',
+				'develop',
+				'design',
+				'establish',
+				'form',
+			],
+			antonyms: ['destroy', 'eliminate'],
+		},
+	],
+	stop: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to bring or come to an end',
+			synonyms: [
+				'cease',
+				'halt',
+				'end',
+				'discontinue',
+				'terminate',
+				'suspend',
+			],
+			antonyms: ['start', 'begin', 'continue'],
+		},
+	],
+	allow: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to give permission for or make possible',
+			synonyms: ['permit', 'enable', 'authorize', 'let', 'tolerate'],
+			antonyms: ['forbid', 'prohibit', 'prevent'],
+		},
+	],
+	prevent: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to keep from happening',
+			synonyms: [
+				'avert',
+				'avoid',
+				'hinder',
+				'impede',
+				'inhibit',
+				'preclude',
+			],
+			antonyms: ['allow', 'permit', 'cause'],
+		},
+	],
+	choose: [
+		{
+			partOfSpeech: 'verb',
+			definition: 'to pick out from a number of possibilities',
+			synonyms: ['select', 'pick', 'opt', 'elect', 'decide'],
+			antonyms: ['reject'],
+		},
+	],
+	interesting: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'holding the attention',
+			synonyms: [
+				'engaging',
+				'fascinating',
+				'compelling',
+				'intriguing',
+				'absorbing',
+				'notable',
+			],
+			antonyms: ['boring', 'dull', 'tedious'],
+		},
+	],
+	boring: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'causing weariness through lack of interest',
+			synonyms: [
+				'dull',
+				'tedious',
+				'monotonous',
+				'uninteresting',
+				'dreary',
+			],
+			antonyms: ['interesting', 'engaging', 'exciting'],
+		},
+	],
+	smart: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'having or showing quick intelligence',
+			synonyms: [
+				'intelligent',
+				'clever',
+				'bright',
+				'astute',
+				'shrewd',
+				'insightful',
+			],
+			antonyms: ['foolish', 'unintelligent'],
+		},
+	],
+	simple: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'not complicated',
+			synonyms: [
+				'straightforward',
+				'uncomplicated',
+				'basic',
+				'plain',
+				'elementary',
+				'easy',
+			],
+			antonyms: ['complex', 'complicated', 'intricate'],
+		},
+	],
+	complex: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'made of many interconnected parts',
+			synonyms: [
+				'complicated',
+				'intricate',
+				'elaborate',
+				'involved',
+				'sophisticated',
+				'multifaceted',
+			],
+			antonyms: ['simple', 'straightforward', 'basic'],
+		},
+	],
+	common: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'occurring or found often',
+			synonyms: [
+				'frequent',
+				'widespread',
+				'prevalent',
+				'usual',
+				'typical',
+				'ordinary',
+			],
+			antonyms: ['rare', 'uncommon', 'unusual'],
+		},
+	],
+	rare: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'not occurring very often',
+			synonyms: [
+				'uncommon',
+				'unusual',
+				'infrequent',
+				'scarce',
+				'exceptional',
+				'sporadic',
+			],
+			antonyms: ['common', 'frequent', 'usual'],
+		},
+	],
+	main: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'chief in size or importance',
+			synonyms: [
+				'primary',
+				'principal',
+				'chief',
+				'central',
+				'major',
+				'predominant',
+			],
+			antonyms: ['minor', 'secondary', 'subordinate'],
+		},
+	],
+	basic: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'forming an essential foundation',
+			synonyms: [
+				'fundamental',
+				'essential',
+				'elementary',
+				'underlying',
+				'rudimentary',
+				'core',
+			],
+			antonyms: ['advanced', 'secondary'],
+		},
+	],
+	enough: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'as much as is needed',
+			synonyms: ['sufficient', 'adequate', 'ample', 'satisfactory'],
+			antonyms: ['insufficient', 'inadequate'],
+		},
+	],
+	whole: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'all of something',
+			synonyms: ['entire', 'complete', 'full', 'total', 'comprehensive'],
+			antonyms: ['partial', 'incomplete'],
+		},
+	],
+	part: [
+		{
+			partOfSpeech: 'noun',
+			definition: 'a piece or segment of something',
+			synonyms: [
+				'portion',
+				'section',
+				'component',
+				'element',
+				'segment',
+				'fraction',
+			],
+			antonyms: ['whole', 'entirety'],
+		},
+	],
+	thing: [
+		{
+			partOfSpeech: 'noun',
+			definition: 'an object, fact or matter not precisely named',
+			synonyms: [
+				'object',
+				'item',
+				'element',
+				'factor',
+				'aspect',
+				'matter',
+			],
+			antonyms: [],
+		},
+	],
+	way: [
+		{
+			partOfSpeech: 'noun',
+			definition: 'a method or manner of doing something',
+			synonyms: [
+				'method',
+				'approach',
+				'means',
+				'technique',
+				'procedure',
+				'manner',
+			],
+			antonyms: [],
+		},
+	],
+	lots: [
+		{
+			partOfSpeech: 'noun',
+			definition: 'a large number or amount',
+			synonyms: [
+				'many',
+				'numerous',
+				'plenty',
+				'abundance',
+				'multitude',
+				'wealth',
+			],
+			antonyms: ['few', 'little'],
+		},
+	],
+	angry: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'feeling or showing strong annoyance',
+			synonyms: [
+				'annoyed',
+				'irate',
+				'furious',
+				'indignant',
+				'resentful',
+				'irritated',
+			],
+			antonyms: ['calm', 'pleased', 'content'],
+		},
+	],
+	calm: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'free from agitation or strong emotion',
+			synonyms: [
+				'composed',
+				'serene',
+				'tranquil',
+				'peaceful',
+				'relaxed',
+				'placid',
+			],
+			antonyms: ['agitated', 'anxious', 'angry'],
+		},
+	],
+	afraid: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'filled with fear or apprehension',
+			synonyms: [
+				'fearful',
+				'frightened',
+				'scared',
+				'anxious',
+				'apprehensive',
+				'nervous',
+			],
+			antonyms: ['brave', 'confident', 'fearless'],
+		},
+	],
+	brave: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'ready to face danger or pain',
+			synonyms: [
+				'courageous',
+				'bold',
+				'fearless',
+				'daring',
+				'valiant',
+				'heroic',
+			],
+			antonyms: ['afraid', 'cowardly', 'timid'],
+		},
+	],
+	beautiful: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'pleasing to the senses or mind',
+			synonyms: [
+				'attractive',
+				'lovely',
+				'elegant',
+				'exquisite',
+				'striking',
+				'gorgeous',
+			],
+			antonyms: ['ugly', 'unattractive'],
+		},
+	],
+	rich: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'having a great deal of money or resources',
+			synonyms: [
+				'wealthy',
+				'affluent',
+				'prosperous',
+				'well-off',
+				'opulent',
+			],
+			antonyms: ['poor', 'impoverished'],
+		},
+	],
+	poor: [
+		{
+			partOfSpeech: 'adjective',
+			definition: 'lacking sufficient money or resources',
+			synonyms: [
+				'impoverished',
+				'needy',
+				'destitute',
+				'disadvantaged',
+				'deprived',
+			],
+			antonyms: ['rich', 'wealthy', 'affluent'],
+		},
+	],
+	maybe: [
+		{
+			partOfSpeech: 'adverb',
+			definition: 'possibly but not certainly',
+			synonyms: [
+				'perhaps',
+				'possibly',
+				'conceivably',
+				'potentially',
+				'plausibly',
+			],
+			antonyms: ['certainly', 'definitely'],
+		},
+	],
+	really: [
+		{
+			partOfSpeech: 'adverb',
+			definition: 'in actual fact',
+			synonyms: ['actually', 'genuinely', 'truly', 'indeed', 'in fact'],
+			antonyms: [],
+		},
+	],
+	also: [
+		{
+			partOfSpeech: 'adverb',
+			definition: 'in addition',
+			synonyms: [
+				'additionally',
+				'furthermore',
+				'moreover',
+				'likewise',
+				'besides',
+				'too',
+			],
+			antonyms: [],
+		},
+	],
+	but: [
+		{
+			partOfSpeech: 'conjunction',
+			definition: 'used to introduce a contrasting statement',
+			synonyms: [
+				'however',
+				'nevertheless',
+				'yet',
+				'although',
+				'nonetheless',
+			],
+			antonyms: [],
+		},
+	],
+	so: [
+		{
+			partOfSpeech: 'conjunction',
+			definition: 'for that reason',
+			synonyms: [
+				'therefore',
+				'consequently',
+				'thus',
+				'hence',
+				'accordingly',
+			],
+			antonyms: [],
+		},
+	],
+};
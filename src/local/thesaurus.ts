@@ -0,0 +1,104 @@
+import { NotFoundError } from '../errors.js';
+import type { ThesaurusResult } from '../types.js';
+import { THESAURUS_DATA } from './thesaurus-data.js';
+
+/**
+ * Headwords listing each word as a synonym, built on first use
+ */
+let synonymIndex: Map<string, string[]> | undefined;
+
+function headwordsFor(synonym: string): string[] {
+	if (!synonymIndex) {
+		synonymIndex = new Map();
+		for (const [headword, senses] of Object.entries(THESAURUS_DATA)) {
+			for (const sense of senses) {
+				for (const word of sense.synonyms) {
+					const headwords = synonymIndex.get(word) ?? [];
+					if (!headwords.includes(headword)) {
+						headwords.push(headword);
+					}
+					synonymIndex.set(word, headwords);
+				}
+			}
+		}
+	}
+	return synonymIndex.get(synonym) ?? [];
+}
+
+/**
+ * The word itself followed by plausible base forms, e.g. "studies" -> "study"
+ * and "stopped" -> "stop"
+ */
+function baseForms(word: string): string[] {
+	const forms = [word];
+	const add = (form: string) => {
+		if (form.length > 1 && !forms.includes(form)) {
+			forms.push(form);
+		}
+	};
+
+	if (word.endsWith('ies')) add(`${word.slice(0, -3)}y`);
+	if (word.endsWith('es')) add(word.slice(0, -2));
+	if (word.endsWith('s') && !word.endsWith('ss')) add(word.slice(0, -1));
+	for (const suffix of ['ed', 'ing']) {
+		if (word.endsWith(suffix)) {
+			const stem = word.slice(0, -suffix.length);
+			add(stem);
+			add(`${stem}e`);
+			if (/([^aeiou])\1$/.test(stem)) add(stem.slice(0, -1));
+		}
+	}
+	return forms;
+}
+
+/**
+ * Look a word up in the built-in thesaurus. Words that only appear as
+ * synonyms of a headword get that headword's senses, with the headword
+ * offered as a synonym in their place.
+ */
+export function lookupLocalThesaurus(word: string): ThesaurusResult {
+	const normalized = word.trim().toLowerCase();
+
+	for (const form of baseForms(normalized)) {
+		const senses = THESAURUS_DATA[form];
+		if (senses) {
+			return {
+				word,
+				entries: senses.map((sense, index) => ({
+					id: `${form}:${index + 1}`,
+					partOfSpeech: sense.partOfSpeech,
+					definitions: [sense.definition],
+					synonyms: sense.synonyms,
+					antonyms: sense.antonyms,
+				})),
+			};
+		}
+
+		const headwords = headwordsFor(form);
+		if (headwords.length > 0) {
+			return {
+				word,
+				entries: headwords.flatMap((headword) =>
+					THESAURUS_DATA[headword]
+						.filter((sense) => sense.synonyms.includes(form))
+						.map((sense, index) => ({
+							id: `${headword}:${index + 1}`,
+							partOfSpeech: sense.partOfSpeech,
+							definitions: [sense.definition],
+							synonyms: [
+								headword,
+								...sense.synonyms.filter(
+									(synonym) => synonym !== form
+								),
+							],
+							antonyms: sense.antonyms,
+						}))
+				),
+			};
+		}
+	}
+
+	throw new NotFoundError(
+		`"${word}" is not in the offline thesaurus; synonyms for it need a connection to Merriam-Webster`
+	);
+}
@@ -0,0 +1,406 @@
+import type { SentimentAnalysisResult, ToneAnalysisResult } from '../types.js';
+
+/**
+ * Lexicon-based tone and sentiment estimates for offline use. Scores come
+ * from counting marker words, so they are rough compared with Sapling's
+ * models but follow the same result shapes.
+ */
+
+const POSITIVE_WORDS = new Set([
+	'good',
+	'great',
+	'excellent',
+	'wonderful',
+	'amazing',
+	'fantastic',
+	'love',
+	'like',
+	'enjoy',
+	'happy',
+	'glad',
+	'pleased',
+	'delighted',
+	'best',
+	'better',
+	'beautiful',
+	'brilliant',
+	'success',
+	'successful',
+	'effective',
+	'helpful',
+	'benefit',
+	'beneficial',
+	'positive',
+	'improve',
+	'improved',
+	'improvement',
+	'impressive',
+	'remarkable',
+	'valuable',
+	'thank',
+	'thanks',
+	'grateful',
+	'appreciate',
+	'exciting',
+	'excited',
+	'perfect',
+	'awesome',
+	'nice',
+	'easy',
+	'clear',
+	'strong',
+	'win',
+	'hope',
+	'hopeful',
+	'support',
+	'recommend',
+	'favorable',
+	'superior',
+	'outstanding',
+	'elegant',
+	'fun',
+	'kind',
+]);
+
+const NEGATIVE_WORDS = new Set([
+	'bad',
+	'poor',
+	'terrible',
+	'awful',
+	'horrible',
+	'hate',
+	'dislike',
+	'sad',
+	'angry',
+	'upset',
+	'annoyed',
+	'annoying',
+	'disappointed',
+	'disappointing',
+	'worst',
+	'worse',
+	'fail',
+	'failed',
+	'failure',
+	'problem',
+	'problems',
+	'wrong',
+	'difficult',
+	'hard',
+	'harmful',
+	'damage',
+	'damaging',
+	'negative',
+	'broken',
+	'useless',
+	'weak',
+	'unfortunately',
+	'sorry',
+	'afraid',
+	'fear',
+	'worried',
+	'worry',
+	'concern',
+	'concerned',
+	'risk',
+	'lose',
+	'loss',
+	'inferior',
+	'flawed',
+	'unacceptable',
+	'frustrating',
+	'frustrated',
+	'ugly',
+	'boring',
+	'confusing',
+	'slow',
+	'pain',
+	'painful',
+	'crisis',
+	'threat',
+]);
+
+const NEGATIONS = new Set([
+	'not',
+	'no',
+	'never',
+	'neither',
+	'nor',
+	'without',
+	'hardly',
+	'barely',
+]);
+
+const INTENSIFIERS = new Set([
+	'very',
+	'extremely',
+	'really',
+	'highly',
+	'incredibly',
+	'truly',
+	'so',
+	'absolutely',
+	'totally',
+	'completely',
+	'deeply',
+]);
+
+const CONFIDENT_MARKERS = new Set([
+	'clearly',
+	'certainly',
+	'definitely',
+	'undoubtedly',
+	'must',
+	'will',
+	'always',
+	'never',
+	'obviously',
+	'surely',
+	'prove',
+	'proves',
+	'demonstrates',
+	'confident',
+	'know',
+	'evident',
+	'indeed',
+	'absolutely',
+]);
+
+const TENTATIVE_MARKERS = new Set([
+	'might',
+	'may',
+	'perhaps',
+	'possibly',
+	'maybe',
+	'seems',
+	'seem',
+	'appears',
+	'suggest',
+	'suggests',
+	'somewhat',
+	'probably',
+	'likely',
+	'could',
+	'unsure',
+	'guess',
+	'think',
+	'believe',
+	'apparently',
+	'arguably',
+	'relatively',
+]);
+
+const INFORMAL_MARKERS = new Set([
+	'gonna',
+	'wanna',
+	'gotta',
+	'kinda',
+	'sorta',
+	'yeah',
+	'yep',
+	'nope',
+	'ok',
+	'okay',
+	'hey',
+	'hi',
+	'cool',
+	'awesome',
+	'stuff',
+	'guys',
+	'lol',
+	'btw',
+	'pretty',
+	'super',
+	'totally',
+	'basically',
+	'literally',
+	'like',
+	'lots',
+]);
+
+const FORMAL_MARKERS = new Set([
+	'therefore',
+	'furthermore',
+	'moreover',
+	'however',
+	'consequently',
+	'thus',
+	'hence',
+	'whereas',
+	'nevertheless',
+	'accordingly',
+	'regarding',
+	'pursuant',
+	'demonstrate',
+	'indicate',
+	'significant',
+	'substantial',
+	'facilitate',
+	'subsequently',
+	'notwithstanding',
+	'herein',
+	'respectively',
+	'shall',
+]);
+
+const FRIENDLY_MARKERS = new Set([
+	'please',
+	'thanks',
+	'thank',
+	'appreciate',
+	'glad',
+	'hope',
+	'welcome',
+	'happy',
+	'enjoy',
+	'kind',
+	'cheers',
+	'dear',
+	'wonderful',
+	'love',
+]);
+
+const URGENT_MARKERS = new Set([
+	'urgent',
+	'urgently',
+	'immediately',
+	'asap',
+	'now',
+	'deadline',
+	'critical',
+	'emergency',
+	'quickly',
+	'promptly',
+	'today',
+]);
+
+const DOMINANT_TONE_THRESHOLD = 0.6;
+
+function tokenize(text: string): string[] {
+	return text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? [];
+}
+
+/**
+ * Squash a raw total into the range -1..1, as VADER does
+ */
+function normalize(total: number): number {
+	return total / Math.sqrt(total * total + 15);
+}
+
+function round(value: number): number {
+	return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Sum of word polarities. A negation flips the next three words and an
+ * intensifier strengthens the next one.
+ */
+function polarity(words: string[]): number {
+	let total = 0;
+	let negatedFor = 0;
+	let boost = 1;
+
+	for (const word of words) {
+		if (NEGATIONS.has(word) || word.endsWith("n't")) {
+			negatedFor = 3;
+			continue;
+		}
+		if (INTENSIFIERS.has(word)) {
+			boost = 1.5;
+			continue;
+		}
+
+		let value = POSITIVE_WORDS.has(word)
+			? 1
+			: NEGATIVE_WORDS.has(word)
+			? -1
+			: 0;
+		if (negatedFor > 0) {
+			value = -value * 0.75;
+			negatedFor--;
+		}
+		total += value * boost;
+		boost = 1;
+	}
+	return total;
+}
+
+/**
+ * Share of words from a marker set, scaled so that roughly one marker word
+ * in twenty gives a full score
+ */
+function markerScore(words: string[], markers: Set<string>): number {
+	if (words.length === 0) return 0;
+	const count = words.filter((word) => markers.has(word)).length;
+	return Math.min(1, (count / words.length) * 20);
+}
+
+export function analyzeSentimentLocally(text: string): SentimentAnalysisResult {
+	const score = round(normalize(polarity(tokenize(text))));
+	const magnitude = Math.abs(score);
+
+	return {
+		sentiment:
+			score > 0.2 ? 'positive' : score < -0.2 ? 'negative' : 'neutral',
+		score,
+		confidence:
+			magnitude > 0.6 ? 'high' : magnitude > 0.3 ? 'medium' : 'low',
+	};
+}
+
+export function analyzeToneLocally(text: string): ToneAnalysisResult {
+	const words = tokenize(text);
+	const contractions = words.filter((word) => word.includes("'")).length;
+	const exclamations = (text.match(/!/g) ?? []).length;
+	const sentences = Math.max(1, (text.match(/[.!?]+/g) ?? []).length);
+	const averageLength =
+		words.reduce((sum, word) => sum + word.length, 0) /
+		Math.max(1, words.length);
+	const sentiment = normalize(polarity(words));
+
+	// Long words and formal connectives push towards formal; contractions,
+	// casual vocabulary and exclamation marks towards informal
+	const informality = Math.min(
+		1,
+		markerScore(words, INFORMAL_MARKERS) * 0.6 +
+			Math.min(1, (contractions / Math.max(1, words.length)) * 15) * 0.3 +
+			Math.min(1, exclamations / sentences) * 0.3
+	);
+	const formality = Math.max(
+		0,
+		Math.min(
+			1,
+			markerScore(words, FORMAL_MARKERS) * 0.5 +
+				Math.min(1, Math.max(0, averageLength - 3.5) / 2.5) * 0.5
+		) -
+			informality * 0.5
+	);
+	const confident = markerScore(words, CONFIDENT_MARKERS);
+	const tentative = markerScore(words, TENTATIVE_MARKERS);
+
+	const scores: Record<string, number> = {
+		formal: round(formality),
+		informal: round(informality),
+		confident: round(Math.max(0, confident - tentative * 0.5)),
+		tentative: round(Math.max(0, tentative - confident * 0.5)),
+		joyful: round(Math.max(0, sentiment)),
+		frustrated: round(Math.max(0, -sentiment)),
+		friendly: round(markerScore(words, FRIENDLY_MARKERS)),
+		urgent: round(
+			Math.min(
+				1,
+				markerScore(words, URGENT_MARKERS) +
+					Math.min(1, exclamations / sentences) * 0.3
+			)
+		),
+	};
+
+	const [overall] = Object.entries(scores).sort(([, a], [, b]) => b - a);
+	return {
+		overall: overall[1] > 0 ? overall[0] : 'neutral',
+		scores,
+		dominant: Object.entries(scores)
+			.filter(([, score]) => score > DOMINANT_TONE_THRESHOLD)
+			.map(([tone]) => tone),
+	};
+}
@@ -0,0 +1,130 @@
+import { parseArgs } from 'util';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { config, configFile, isToolEnabled, validateConfig } from './config.js';
+import { COMMANDS, runCli } from './cli.js';
+import { coreTools } from './tools/definitions.js';
+import { loadPlugins, pluginTools } from './plugins.js';
+import { createServer, SERVER_VERSION, toolRegistry } from './server.js';
+import { startHttpServer } from './transports/http.js';
+import { startRestServer } from './transports/rest.js';
+
+/**
+ * Load the tools of the configured plugin directory and register the enabled
+ * ones. Returns the names of the plugins loaded.
+ */
+async function loadPluginTools(): Promise<string[]> {
+	if (!config.plugins.directory) {
+		return [];
+	}
+
+	const { plugins, tools, problems } = await loadPlugins(
+		config.plugins.directory
+	);
+	tools.forEach((tool) => {
+		if (coreTools.some((core) => core.name === tool.name)) {
+			problems.push(`Plugin tool ${tool.name} clashes with a core tool`);
+			return;
+		}
+		pluginTools.push(tool);
+		if (isToolEnabled(tool.name)) {
+			toolRegistry.register(tool);
+		}
+	});
+	problems.forEach((problem) => {
+		console.error(`Plugin warning: ${problem}`);
+	});
+	return plugins;
+}
+
+// Start server
+async function runServer() {
+	const plugins = await loadPluginTools();
+
+	const { values } = parseArgs({
+		options: {
+			transport: { type: 'string', default: config.server.transport },
+			host: { type: 'string', default: config.server.host },
+			port: { type: 'string', default: String(config.server.port) },
+			offline: { type: 'boolean', default: config.server.offline },
+		},
+	});
+	config.server.offline = values.offline;
+
+	if (values.transport === 'http' || values.transport === 'rest') {
+		const port = Number(values.port);
+		if (!Number.isInteger(port) || port < 0 || port > 65535) {
+			throw new Error(`Invalid port: ${values.port}`);
+		}
+
+		if (values.transport === 'rest') {
+			await startRestServer({ host: values.host, port });
+			console.error(
+				`English MCP Server v${SERVER_VERSION} REST API listening on http://${values.host}:${port}/tools/<name> (OpenAPI at /openapi.json)`
+			);
+		} else {
+			await startHttpServer({ host: values.host, port });
+			console.error(
+				`English MCP Server v${SERVER_VERSION} listening on http://${values.host}:${port}/mcp (legacy SSE at /sse)`
+			);
+		}
+	} else if (values.transport === 'stdio') {
+		const transport = new StdioServerTransport();
+		await createServer().connect(transport);
+		console.error(`English MCP Server v${SERVER_VERSION} running on stdio`);
+	} else {
+		throw new Error(
+			`Unknown transport "${values.transport}". Use "stdio", "http" or "rest".`
+		);
+	}
+
+	console.error(
+		'Comprehensive language tools: dictionary, grammar, citations, readability, research APIs'
+	);
+
+	if (config.server.offline) {
+		console.error(
+			'Offline mode: no network requests; tools use local fallbacks or cached responses'
+		);
+	}
+	if (configFile) {
+		console.error(`Loaded configuration from ${configFile}`);
+	}
+	if (plugins.length > 0) {
+		console.error(
+			`Loaded plugins from ${config.plugins.directory}: ${plugins.join(
+				', '
+			)}`
+		);
+	}
+	const problems = validateConfig(
+		[...coreTools, ...pluginTools].map((tool) => tool.name)
+	);
+	problems.forEach((problem) => {
+		console.error(`Config warning: ${problem}`);
+	});
+}
+
+// A subcommand (or --help) runs a single tool; anything else starts the server
+const [command] = process.argv.slice(2);
+if (
+	command &&
+	(Object.hasOwn(COMMANDS, command) ||
+		['tools', 'help', '--help', '-h'].includes(command))
+) {
+	loadPluginTools()
+		.then(() => runCli(process.argv.slice(2)))
+		.then(
+			(code) => {
+				process.exitCode = code;
+			},
+			(error) => {
+				console.error('Fatal error:', error);
+				process.exitCode = 1;
+			}
+		);
+} else {
+	runServer().catch((error) => {
+		console.error('Fatal error running server:', error);
+		process.exit(1);
+	});
+}
@@ -0,0 +1,231 @@
+import { readdir, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { config, PROVIDER_NAMES } from './config.js';
+import type { Config, ProviderId } from './config.js';
+import * as errors from './errors.js';
+import { ResponseFormatter } from './responses/formatters.js';
+import { defineTool } from './tools/registry.js';
+import type { ToolDefinition } from './tools/registry.js';
+import { responseCache } from './utils/cache.js';
+import { fetchJson } from './utils/http.js';
+
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+const NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
+
+/**
+ * Response cache scoped to one plugin. Entries follow the server's cache
+ * settings and are served stale in offline mode, like provider responses.
+ */
+export interface PluginCache {
+	get(url: string): Promise<unknown>;
+	set(url: string, body: unknown, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * What the server hands each plugin when loading its tools
+ */
+export interface PluginContext {
+	config: Readonly<Config>;
+	/** The server's HTTP client, with retries, timeouts, proxy and offline mode */
+	fetchJson: typeof fetchJson;
+	cache: PluginCache;
+	ResponseFormatter: typeof ResponseFormatter;
+	defineTool: typeof defineTool;
+	/** The server's copy of Zod, for tool schemas */
+	z: typeof z;
+	errors: typeof errors;
+}
+
+/**
+ * Default export of a plugin module: a name and the tools it adds, given
+ * either directly or by a function of the plugin context
+ */
+export interface Plugin {
+	name: string;
+	tools:
+		| ToolDefinition[]
+		| ((
+				context: PluginContext
+		  ) => ToolDefinition[] | Promise<ToolDefinition[]>);
+}
+
+export interface PluginLoadResult {
+	/** Names of the plugins that loaded */
+	plugins: string[];
+	tools: ToolDefinition[];
+	/** Plugins or tools that were skipped, and why */
+	problems: string[];
+}
+
+/**
+ * Helper that gives plugin modules type checking
+ */
+export function definePlugin(plugin: Plugin): Plugin {
+	return plugin;
+}
+
+const isFunction = (value: unknown) => typeof value === 'function';
+const isZodSchema = (value: unknown) =>
+	isFunction((value as { safeParse?: unknown } | undefined)?.safeParse);
+// By type name, so schemas built with the plugin's own copy of Zod pass too
+const isZodObject = (value: unknown) =>
+	isZodSchema(value) &&
+	(value as { _def?: { typeName?: unknown } })._def?.typeName === 'ZodObject';
+
+const PluginSchema = z.object({
+	name: z.string().regex(NAME_PATTERN, 'must be letters, digits, _ or -'),
+	tools: z.union([z.array(z.unknown()), z.custom<Function>(isFunction)]),
+});
+
+const PluginToolSchema = z.object({
+	name: z.string().regex(NAME_PATTERN, 'must be letters, digits, _ or -'),
+	description: z.string().min(1),
+	inputSchema: z.custom(isZodSchema, 'must be a Zod schema'),
+	outputSchema: z.custom(isZodObject, 'must be a Zod object schema'),
+	handler: z.custom(isFunction, 'must be a function'),
+	summarize: z.custom(isFunction, 'must be a function'),
+	provider: z
+		.enum(Object.keys(PROVIDER_NAMES) as [ProviderId, ...ProviderId[]])
+		.optional(),
+	credentials: z.array(z.string()).optional(),
+});
+
+/**
+ * Tools loaded from plugins at startup, in addition to the core tools
+ */
+export const pluginTools: ToolDefinition[] = [];
+
+function pluginCache(name: string): PluginCache {
+	const namespace = `plugin-${name}` as const;
+	return {
+		get: async (url) =>
+			config.cache.enabled
+				? responseCache.get(namespace, url, config.server.offline)
+				: undefined,
+		set: async (url, body, ttlSeconds) => {
+			if (config.cache.enabled) {
+				await responseCache.set(namespace, url, body, ttlSeconds);
+			}
+		},
+	};
+}
+
+function describeIssues(error: z.ZodError): string {
+	return error.issues
+		.map((issue) => `${issue.path.join('.') || 'value'} ${issue.message}`)
+		.join('; ');
+}
+
+/**
+ * Paths of the plugin modules in a directory: JavaScript files, and
+ * subdirectories with an index.js
+ */
+async function pluginModules(directory: string): Promise<string[]> {
+	const names = (await readdir(directory)).sort();
+	const paths = await Promise.all(
+		names
+			.filter((name) => !name.startsWith('.'))
+			.map(async (name) => {
+				const path = join(directory, name);
+				if (MODULE_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+					return path;
+				}
+				const index = join(path, 'index.js');
+				const isPackage = await stat(index).then(
+					(info) => info.isFile(),
+					() => false
+				);
+				return isPackage ? index : undefined;
+			})
+	);
+	return paths.filter((path): path is string => path !== undefined);
+}
+
+/**
+ * Import every plugin module in a directory and collect its tools. A plugin
+ * that fails to load, or a tool that is malformed or reuses a name, is
+ * skipped and reported rather than stopping the server.
+ */
+export async function loadPlugins(
+	directory: string
+): Promise<PluginLoadResult> {
+	const result: PluginLoadResult = { plugins: [], tools: [], problems: [] };
+	const names = new Set<string>();
+
+	let paths: string[];
+	try {
+		paths = await pluginModules(resolve(directory));
+	} catch (error) {
+		result.problems.push(
+			`Cannot read plugin directory ${directory}: ${
+				error instanceof Error ? error.message : String(error)
+			}`
+		);
+		return result;
+	}
+
+	for (const path of paths) {
+		let plugin: Plugin;
+		let tools: unknown[];
+		try {
+			const module = await import(pathToFileURL(path).href);
+			const parsed = PluginSchema.safeParse(module.default ?? module);
+			if (!parsed.success) {
+				result.problems.push(
+					`${path} is not a plugin: ${describeIssues(parsed.error)}`
+				);
+				continue;
+			}
+			plugin = module.default ?? module;
+			tools =
+				typeof plugin.tools === 'function'
+					? await plugin.tools({
+							config,
+							fetchJson,
+							cache: pluginCache(plugin.name),
+							ResponseFormatter,
+							defineTool,
+							z,
+							errors,
+					  })
+					: plugin.tools;
+			if (!Array.isArray(tools)) {
+				throw new Error('tools() did not return an array');
+			}
+		} catch (error) {
+			result.problems.push(
+				`Plugin ${path} failed to load: ${
+					error instanceof Error ? error.message : String(error)
+				}`
+			);
+			continue;
+		}
+
+		tools.forEach((tool, index) => {
+			const parsed = PluginToolSchema.safeParse(tool);
+			if (!parsed.success) {
+				result.problems.push(
+					`Plugin ${
+						plugin.name
+					}: tool ${index} is invalid: ${describeIssues(
+						parsed.error
+					)}`
+				);
+				return;
+			}
+			if (names.has(parsed.data.name)) {
+				result.problems.push(
+					`Plugin ${plugin.name}: tool ${parsed.data.name} is already defined`
+				);
+				return;
+			}
+			names.add(parsed.data.name);
+			result.tools.push(tool as ToolDefinition);
+		});
+		result.plugins.push(plugin.name);
+	}
+
+	return result;
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { definePrompt } from './registry.js';
+import type { PromptDefinition } from './registry.js';
+
+function userMessage(text: string) {
+	return {
+		role: 'user' as const,
+		content: { type: 'text' as const, text },
+	};
+}
+
+/**
+ * Every prompt template the server ships with
+ */
+export const corePrompts: PromptDefinition[] = [
+	definePrompt({
+		name: 'revise_for_audience',
+		description:
+			'Revise an essay so its reading level suits a target audience age, using check_readability and check_grammar_advanced.',
+		arguments: z.object({
+			essay: z.string().describe('The essay text to revise'),
+			age: z
+				.string()
+				.optional()
+				.describe('Target reader age in years (default: 17)'),
+		}),
+		build: ({ essay, age = '17' }) => [
+			userMessage(
+				`Revise the essay below for a ${age}-year-old audience.
+
+1. Call \`check_readability\` on the essay with the \`audience\` closest to that age (middle-school, high-school, undergraduate or general-adult) and note the grade level, reading ease and difficult words.
+2. Call \`check_grammar_advanced\` on the essay and collect the grammar, spelling and style issues.
+3. Rewrite the essay so it reads comfortably for a ${age}-year-old: fix every reported issue, replace difficult words where a simpler one keeps the meaning, and split overlong sentences. Keep the author's argument and voice.
+4. Call \`check_readability\` on your revision with the same audience and confirm it moved toward the target.
+
+Reply with the revised essay followed by a short list of the main changes and the before/after readability scores.
+
+Essay:
+"""
+${essay}
+"""`
+			),
+		],
+	}),
+	definePrompt({
+		name: 'annotated_bibliography',
+		description:
+			'Build an annotated bibliography on a topic, using search_academic_papers and generate_bibliography.',
+		arguments: z.object({
+			topic: z.string().describe('Research topic to cover'),
+			count: z
+				.string()
+				.optional()
+				.describe('Number of sources to include (default: 8)'),
+			style: z
+				.string()
+				.optional()
+				.describe(
+					'Citation style: mla, apa, chicago, harvard or vancouver (default: apa)'
+				),
+		}),
+		build: ({ topic, count = '8', style = 'apa' }) => [
+			userMessage(
+				`Build an annotated bibliography of ${count} scholarly sources on "${topic}".
+
+1. Call \`search_academic_papers\` with queries covering the main angles of the topic. Prefer well-cited papers that have a DOI and an abstract.
+2. Pick the ${count} most relevant and diverse sources.
+3. Call \`generate_bibliography\` with their DOIs and style "${style}".
+4. Under each formatted entry, write a 2-3 sentence annotation summarizing the source's contribution and how it relates to "${topic}", based on its abstract.
+
+Reply with the annotated bibliography only, in ${style.toUpperCase()} order.`
+			),
+		],
+	}),
+	definePrompt({
+		name: 'tighten_academic_tone',
+		description:
+			'Tighten a passage into concise, formal academic prose, using check_grammar_advanced, suggest_academic_vocabulary and check_readability.',
+		arguments: z.object({
+			text: z.string().describe('The passage to tighten'),
+		}),
+		build: ({ text }) => [
+			userMessage(
+				`Tighten the passage below into concise, formal academic prose.
+
+1. Call \`check_grammar_advanced\` on the passage and fix every grammar and style issue, paying attention to redundancy.
+2. For casual or vague words (e.g. "big", "show", "get", "a lot"), call \`suggest_academic_vocabulary\` and use the best-fitting alternative.
+3. Remove filler, contractions and hedging that adds no meaning, without changing the claims.
+4. Call \`check_readability\` on the result so the passage stays readable rather than inflated.
+
+Reply with the tightened passage, then a brief list of the edits that mattered most.
+
+Passage:
+"""
+${text}
+"""`
+			),
+		],
+	}),
+];
@@ -0,0 +1,92 @@
+import type { z } from 'zod';
+import type {
+	GetPromptResult,
+	Prompt,
+	PromptMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Prompt arguments are always strings in MCP, so each argument schema is a
+ * (possibly optional) string field.
+ */
+export type PromptArgumentsSchema = z.ZodObject<
+	Record<string, z.ZodString | z.ZodOptional<z.ZodString>>
+>;
+
+/**
+ * A parameterized prompt template
+ */
+export interface PromptDefinition<
+	S extends PromptArgumentsSchema = PromptArgumentsSchema
+> {
+	name: string;
+	description: string;
+	arguments: S;
+	build(args: z.infer<S>): PromptMessage[];
+}
+
+/**
+ * Helper that keeps the builder's argument type tied to its schema
+ */
+export function definePrompt<S extends PromptArgumentsSchema>(
+	definition: PromptDefinition<S>
+): PromptDefinition {
+	return definition;
+}
+
+/**
+ * Holds prompt templates and produces the prompt list and rendered prompts
+ */
+export class PromptRegistry {
+	private prompts = new Map<string, PromptDefinition>();
+
+	constructor(definitions: PromptDefinition[] = []) {
+		definitions.forEach((definition) => this.register(definition));
+	}
+
+	register(definition: PromptDefinition): void {
+		if (this.prompts.has(definition.name)) {
+			throw new Error(`Prompt already registered: ${definition.name}`);
+		}
+		this.prompts.set(definition.name, definition);
+	}
+
+	definition(name: string): PromptDefinition | undefined {
+		return this.prompts.get(name);
+	}
+
+	list(): Prompt[] {
+		return Array.from(this.prompts.values()).map((definition) => ({
+			name: definition.name,
+			description: definition.description,
+			arguments: Object.entries(definition.arguments.shape).map(
+				([name, schema]) => ({
+					name,
+					description: schema.description,
+					required: !schema.isOptional(),
+				})
+			),
+		}));
+	}
+
+	get(name: string, args: Record<string, string> = {}): GetPromptResult {
+		const definition = this.prompts.get(name);
+		if (!definition) {
+			throw new Error(`Unknown prompt: ${name}`);
+		}
+
+		const parsed = definition.arguments.safeParse(args);
+		if (!parsed.success) {
+			throw new Error(
+				`Invalid arguments for prompt ${name}: ${parsed.error.issues
+					.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+					.join(', ')}`
+			);
+		}
+
+		return {
+			description: definition.description,
+			messages: definition.build(parsed.data),
+		};
+	}
+}
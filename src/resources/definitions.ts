@@ -0,0 +1,221 @@
+import type { ResourceProvider } from './registry.js';
+import {
+	STYLE_MAP,
+	describeCitationStyle,
+	getSavedBibliography,
+	generateBibliography,
+	getWorkMetadata,
+	listCachedDois,
+	crossrefToCsl,
+} from '../tools/citations.js';
+import type { CitationStyle } from '../tools/citations.js';
+import {
+	getWikipediaSummary,
+	getWordOfTheDay,
+	isWordnikConfigured,
+	listCachedWikipediaSummaries,
+} from '../tools/research.js';
+
+const CITATION_STYLES = Object.keys(STYLE_MAP) as CitationStyle[];
+
+function isCitationStyle(value: string): value is CitationStyle {
+	return (CITATION_STYLES as string[]).includes(value);
+}
+
+/**
+ * Descriptions of each supported citation style
+ */
+const citationStyles: ResourceProvider = {
+	scheme: 'citation-style',
+	async list() {
+		return CITATION_STYLES.map((style) => ({
+			uri: `citation-style://${style}`,
+			name: `${style.toUpperCase()} citation style`,
+			description: describeCitationStyle(style).description,
+			mimeType: 'application/json',
+		}));
+	},
+	async read(path, uri) {
+		if (!isCitationStyle(path)) {
+			throw new Error(`Unknown citation style: ${path}`);
+		}
+		return [
+			{
+				uri,
+				mimeType: 'application/json',
+				text: JSON.stringify(describeCitationStyle(path), null, 2),
+			},
+		];
+	},
+};
+
+/**
+ * Wordnik word of the day (only listed when Wordnik is configured)
+ */
+const wordOfTheDay: ResourceProvider = {
+	scheme: 'wordnik',
+	async list() {
+		if (!isWordnikConfigured()) {
+			return [];
+		}
+		return [
+			{
+				uri: 'wordnik://word-of-the-day',
+				name: 'Word of the day',
+				description: "Wordnik's word of the day with definitions",
+				mimeType: 'application/json',
+			},
+		];
+	},
+	async read(path, uri) {
+		if (path !== 'word-of-the-day') {
+			throw new Error(`Unknown resource: ${uri}`);
+		}
+		return [
+			{
+				uri,
+				mimeType: 'application/json',
+				text: JSON.stringify(await getWordOfTheDay(), null, 2),
+			},
+		];
+	},
+};
+
+/**
+ * Citations saved with the save_to_bibliography tool
+ */
+const savedBibliography: ResourceProvider = {
+	scheme: 'bibliography',
+	templates: [
+		{
+			uriTemplate: 'bibliography://saved/{style}',
+			name: 'Saved bibliography (formatted)',
+			description: `Saved bibliography formatted in one of: ${CITATION_STYLES.join(
+				', '
+			)}`,
+			mimeType: 'text/plain',
+		},
+	],
+	async list() {
+		return [
+			{
+				uri: 'bibliography://saved',
+				name: 'Saved bibliography',
+				description: 'Citations saved with save_to_bibliography',
+				mimeType: 'application/json',
+			},
+		];
+	},
+	async read(path, uri) {
+		const [root, style] = path.split('/');
+		if (root !== 'saved') {
+			throw new Error(`Unknown resource: ${uri}`);
+		}
+
+		const entries = await getSavedBibliography();
+		if (!style) {
+			return [
+				{
+					uri,
+					mimeType: 'application/json',
+					text: JSON.stringify(entries, null, 2),
+				},
+			];
+		}
+
+		if (!isCitationStyle(style)) {
+			throw new Error(`Unknown citation style: ${style}`);
+		}
+		return [
+			{
+				uri,
+				mimeType: 'text/plain',
+				text:
+					entries.length > 0
+						? await generateBibliography({
+								citations: entries,
+								style,
+								format: 'text',
+						  })
+						: '',
+			},
+		];
+	},
+};
+
+/**
+ * Wikipedia article summaries; listing shows those fetched most recently
+ */
+const wikipediaSummaries: ResourceProvider = {
+	scheme: 'wikipedia',
+	templates: [
+		{
+			uriTemplate: 'wikipedia://{title}',
+			name: 'Wikipedia article summary',
+			description:
+				'Introduction of the Wikipedia article with this title',
+			mimeType: 'application/json',
+		},
+	],
+	async list() {
+		return listCachedWikipediaSummaries().map((summary) => ({
+			uri: `wikipedia://${encodeURIComponent(summary.title)}`,
+			name: summary.title,
+			description: `Wikipedia summary of ${summary.title}`,
+			mimeType: 'application/json',
+		}));
+	},
+	async read(path, uri) {
+		return [
+			{
+				uri,
+				mimeType: 'application/json',
+				text: JSON.stringify(await getWikipediaSummary(path), null, 2),
+			},
+		];
+	},
+};
+
+/**
+ * CSL-JSON for a DOI from CrossRef; listing shows DOIs already looked up
+ */
+const doiMetadata: ResourceProvider = {
+	scheme: 'doi',
+	templates: [
+		{
+			uriTemplate: 'doi://{doi}',
+			name: 'DOI metadata',
+			description: 'CSL-JSON citation data for a DOI, from CrossRef',
+			mimeType: 'application/json',
+		},
+	],
+	async list() {
+		return listCachedDois().map((work) => ({
+			uri: `doi://${work.DOI}`,
+			name: work.title?.[0] || work.DOI,
+			description: `CrossRef metadata for ${work.DOI}`,
+			mimeType: 'application/json',
+		}));
+	},
+	async read(path, uri) {
+		const work = await getWorkMetadata(path);
+		return [
+			{
+				uri,
+				mimeType: 'application/json',
+				text: JSON.stringify(crossrefToCsl(work), null, 2),
+			},
+		];
+	},
+};
+
+/**
+ * Every resource family the server ships with
+ */
+export const coreResources: ResourceProvider[] = [
+	citationStyles,
+	wordOfTheDay,
+	savedBibliography,
+	wikipediaSummaries,
+	doiMetadata,
+];
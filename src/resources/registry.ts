@@ -0,0 +1,71 @@
+import type {
+	ReadResourceResult,
+	Resource,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+
+export type ResourceContents = ReadResourceResult['contents'];
+
+/**
+ * A family of resources sharing one URI scheme, e.g. `wikipedia://{title}`.
+ * `list` returns the concrete resources currently known; `read` receives the
+ * decoded part of the URI after `scheme://`.
+ */
+export interface ResourceProvider {
+	scheme: string;
+	templates?: ResourceTemplate[];
+	list?(): Promise<Resource[]>;
+	read(path: string, uri: string): Promise<ResourceContents>;
+}
+
+/**
+ * Routes resource listing and reads to the provider owning each URI scheme
+ */
+export class ResourceRegistry {
+	private providers = new Map<string, ResourceProvider>();
+
+	constructor(providers: ResourceProvider[] = []) {
+		providers.forEach((provider) => this.register(provider));
+	}
+
+	register(provider: ResourceProvider): void {
+		if (this.providers.has(provider.scheme)) {
+			throw new Error(
+				`Resource scheme already registered: ${provider.scheme}`
+			);
+		}
+		this.providers.set(provider.scheme, provider);
+	}
+
+	async list(): Promise<Resource[]> {
+		const lists = await Promise.all(
+			Array.from(this.providers.values()).map((provider) =>
+				provider.list ? provider.list() : Promise.resolve([])
+			)
+		);
+		return lists.flat();
+	}
+
+	listTemplates(): ResourceTemplate[] {
+		return Array.from(this.providers.values()).flatMap(
+			(provider) => provider.templates || []
+		);
+	}
+
+	async read(uri: string): Promise<ReadResourceResult> {
+		const match = uri.match(/^([a-z][a-z0-9+.-]*):\/\/(.*)$/i);
+		if (!match) {
+			throw new Error(`Invalid resource URI: ${uri}`);
+		}
+
+		const [, scheme, path] = match;
+		const provider = this.providers.get(scheme.toLowerCase());
+		if (!provider) {
+			throw new Error(`Unknown resource: ${uri}`);
+		}
+
+		return {
+			contents: await provider.read(decodeURIComponent(path), uri),
+		};
+	}
+}
@@ -1,39 +1,39 @@
 import type {
-	StructuredToolResponse,
 	GrammarCheckResult,
 	ToneAnalysisResult,
 	SentimentAnalysisResult,
 	AIDetectionResult,
 	ThesaurusResult,
 	DictionaryResult,
+	ReadabilityResult,
+	ReadabilityHeatmapResult,
+	PassiveVoiceResult,
+	SimplifyVocabularyResult,
+	AcademicVocabularyResult,
+	PaperSearchResult,
+	PaperDetailsResult,
+	WikipediaArticlesResult,
+	WikipediaSummaryResult,
+	QuoteSearchResult,
+	QuoteResult,
+	WordRelationshipResult,
+	AdvancedGrammarResult,
+	WordDetailsResult,
+	WordOfTheDayResult,
+	DoiCitationResult,
+	SavedBibliographyResult,
+	ServerStatusResult,
+	ClearCacheResult,
+	UsageReportResult,
 } from '../types.js';
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { toEnglishMcpError } from '../errors.js';
 
 export type ToolResult = CallToolResult;
 
 export class ResponseFormatter {
-	static formatThesaurus(result: ThesaurusResult): ToolResult {
-		const totalSynonyms = result.entries.reduce(
-			(sum, e) => sum + e.synonyms.length,
-			0
-		);
-		const totalAntonyms = result.entries.reduce(
-			(sum, e) => sum + e.antonyms.length,
-			0
-		);
-
-		const structured: StructuredToolResponse = {
-			success: true,
-			tool: 'get_synonyms_antonyms',
-			data: result,
-			metadata: {
-				entryCount: result.entries.length,
-				totalSynonyms,
-				totalAntonyms,
-			},
-		};
-
+	static summarizeThesaurus(result: ThesaurusResult): string {
 		let humanText = `**${result.word}**\n\n`;
 		humanText += `Found ${result.entries.length} meaning(s):\n\n`;
 
@@ -65,35 +65,10 @@ export class ResponseFormatter {
 			humanText += `\n`;
 		});
 
-		return {
-			content: [
-				{
-					type: 'text',
-					text: humanText.trim(),
-				},
-				{
-					type: 'resource',
-					resource: {
-						uri: `english-mcp://result/thesaurus/${result.word}`,
-						mimeType: 'application/json',
-						text: JSON.stringify(structured, null, 2),
-					},
-				},
-			],
-		};
+		return humanText.trim();
 	}
 
-	static formatDictionary(result: DictionaryResult): ToolResult {
-		const structured: StructuredToolResponse = {
-			success: true,
-			tool: 'lookup_dictionary',
-			data: result,
-			metadata: {
-				definitionCount: result.definitions.length,
-				hasPartOfSpeech: !!result.partOfSpeech,
-			},
-		};
-
+	static summarizeDictionary(result: DictionaryResult): string {
 		let humanText = `**${result.word}**\n\n`;
 
 		if (result.partOfSpeech) {
@@ -107,37 +82,10 @@ export class ResponseFormatter {
 			});
 		}
 
-		return {
-			content: [
-				{
-					type: 'text',
-					text: humanText,
-				},
-				{
-					type: 'resource',
-					resource: {
-						uri: `english-mcp://result/dictionary/${result.word}`,
-						mimeType: 'application/json',
-						text: JSON.stringify(structured, null, 2),
-					},
-				},
-			],
-		};
+		return humanText;
 	}
 
-	static formatGrammarCheck(result: GrammarCheckResult): ToolResult {
-		const structured: StructuredToolResponse = {
-			success: true,
-			tool: 'check_grammar',
-			data: result,
-			metadata: {
-				errorCount: result.errorCount,
-				categories: [
-					...new Set(result.suggestions.map((s) => s.category)),
-				],
-			},
-		};
-
+	static summarizeGrammarCheck(result: GrammarCheckResult): string {
 		let humanText = '';
 		if (result.errorCount === 0) {
 			humanText = 'No grammar or spelling errors found.';
@@ -151,35 +99,10 @@ export class ResponseFormatter {
 			});
 		}
 
-		return {
-			content: [
-				{
-					type: 'text',
-					text: humanText,
-				},
-				{
-					type: 'resource',
-					resource: {
-						uri: 'english-mcp://result/grammar-check',
-						mimeType: 'application/json',
-						text: JSON.stringify(structured, null, 2),
-					},
-				},
-			],
-		};
+		return humanText;
 	}
 
-	static formatToneAnalysis(result: ToneAnalysisResult): ToolResult {
-		const structured: StructuredToolResponse = {
-			success: true,
-			tool: 'analyze_tone',
-			data: result,
-			metadata: {
-				dominantToneCount: result.dominant.length,
-				toneCount: Object.keys(result.scores).length,
-			},
-		};
-
+	static summarizeToneAnalysis(result: ToneAnalysisResult): string {
 		let humanText = `**Overall Tone**: ${result.overall}\n\n`;
 
 		if (Object.keys(result.scores).length > 0) {
@@ -189,36 +112,10 @@ export class ResponseFormatter {
 			});
 		}
 
-		return {
-			content: [
-				{
-					type: 'text',
-					text: humanText,
-				},
-				{
-					type: 'resource',
-					resource: {
-						uri: 'english-mcp://result/tone-analysis',
-						mimeType: 'application/json',
-						text: JSON.stringify(structured, null, 2),
-					},
-				},
-			],
-		};
+		return humanText;
 	}
 
-	static formatSentimentAnalysis(
-		result: SentimentAnalysisResult
-	): ToolResult {
-		const structured: StructuredToolResponse = {
-			success: true,
-			tool: 'analyze_sentiment',
-			data: result,
-			metadata: {
-				confidence: result.confidence,
-			},
-		};
-
+	static summarizeSentimentAnalysis(result: SentimentAnalysisResult): string {
 		let humanText = `**Sentiment**: ${result.sentiment}\n`;
 		humanText += `**Score**: ${(result.score * 100).toFixed(1)}%\n`;
 		humanText += `**Confidence**: ${result.confidence}\n`;
@@ -231,36 +128,10 @@ export class ResponseFormatter {
 			humanText += `\nThe text has a neutral or mixed sentiment.`;
 		}
 
-		return {
-			content: [
-				{
-					type: 'text',
-					text: humanText,
-				},
-				{
-					type: 'resource',
-					resource: {
-						uri: 'english-mcp://result/sentiment-analysis',
-						mimeType: 'application/json',
-						text: JSON.stringify(structured, null, 2),
-					},
-				},
-			],
-		};
+		return humanText;
 	}
 
-	static formatAIDetection(result: AIDetectionResult): ToolResult {
-		const structured: StructuredToolResponse = {
-			success: true,
-			tool: 'detect_ai_content',
-			data: result,
-			metadata: {
-				likelihood: result.likelihood,
-				flaggedCount: result.flaggedSentences.length,
-				suspiciousCount: result.suspiciousSentences.length,
-			},
-		};
-
+	static summarizeAIDetection(result: AIDetectionResult): string {
 		let humanText = `**Overall AI Detection Score**: ${(
 			result.overallScore * 100
 		).toFixed(1)}%\n\n`;
@@ -306,36 +177,445 @@ export class ResponseFormatter {
 			});
 		}
 
+		return humanText;
+	}
+
+	static summarizeReadability(result: ReadabilityResult): string {
+		let humanText = `**Grade Level**: ${result.gradeLevel}\n`;
+		humanText += `**Reading Ease**: ${result.readingEase}\n`;
+		humanText += `**Age Appropriate**: ${
+			result.ageAppropriate ? 'yes' : 'no'
+		} (${result.audience}: grade ${result.targets.minGrade}-${
+			result.targets.maxGrade
+		}, reading ease ${result.targets.minReadingEase}-${
+			result.targets.maxReadingEase
+		})\n`;
+		humanText += `**Reading Time**: ~${result.readingTimeMinutes} min\n`;
+
+		if (result.difficultWords.length > 0) {
+			humanText += `**Difficult Words**: ${result.difficultWords.join(
+				', '
+			)}\n`;
+		}
+
+		humanText += `\n**Recommendations**:\n`;
+		result.recommendations.forEach((rec) => {
+			humanText += `- ${rec}\n`;
+		});
+
+		return humanText;
+	}
+
+	static summarizeReadabilityHeatmap(
+		result: ReadabilityHeatmapResult
+	): string {
+		let humanText = `**Grade Level**: ${result.gradeLevel} (${result.audience}: grade ${result.targets.minGrade}-${result.targets.maxGrade})\n`;
+		humanText += `**Reading Ease**: ${result.readingEase}\n\n`;
+
+		humanText += `**Paragraphs**:\n`;
+		result.paragraphs.forEach((paragraph) => {
+			humanText += `${paragraph.index + 1}. Grade ${
+				paragraph.gradeLevel
+			} (${paragraph.band}), ${paragraph.sentenceCount} sentence${
+				paragraph.sentenceCount === 1 ? '' : 's'
+			}, chars ${paragraph.start}-${paragraph.end}\n`;
+		});
+
+		if (result.hardestSentences.length > 0) {
+			humanText += `\n**Hardest Sentences**:\n`;
+			result.hardestSentences.forEach((sentence, idx) => {
+				humanText += `${idx + 1}. Grade ${sentence.gradeLevel}: "${
+					sentence.text
+				}"\n`;
+				sentence.factors.forEach((factor) => {
+					humanText += `   - ${factor.description}${
+						factor.words ? `: ${factor.words.join(', ')}` : ''
+					}\n`;
+				});
+			});
+		}
+
+		return humanText;
+	}
+
+	static summarizePassiveVoice(result: PassiveVoiceResult): string {
+		let humanText = `**Passive Sentences**: ${result.passiveCount} of ${result.totalSentences} (${result.passivePercentage}%)\n`;
+		humanText += `**Threshold**: ${result.threshold}% (${
+			result.exceedsThreshold ? 'exceeded' : 'within'
+		})\n`;
+
+		if (result.flaggedSentences.length > 0) {
+			humanText += `\n**Flagged Sentences**:\n`;
+			result.flaggedSentences.forEach((flagged, idx) => {
+				humanText += `${idx + 1}. "${
+					flagged.sentence
+				}" (${flagged.constructions.join(', ')})\n`;
+				humanText += `   - ${flagged.suggestion}\n`;
+			});
+		}
+
+		return humanText;
+	}
+
+	static summarizeSimplifyVocabulary(
+		result: SimplifyVocabularyResult
+	): string {
+		if (result.words.length === 0) {
+			return 'No difficult words found.';
+		}
+
+		const { before, after } = result.readability;
+		let humanText = `**Grade Level**: ${before.gradeLevel} → ${after.gradeLevel} (${result.readability.gradeLevelChange})\n`;
+		humanText += `**Reading Ease**: ${before.readingEase} → ${after.readingEase} (${result.readability.readingEaseChange})\n\n`;
+
+		humanText += `**Difficult Words**:\n`;
+		result.words.forEach((word, idx) => {
+			const alternatives = word.suggestions
+				.map((suggestion) => suggestion.word)
+				.join(', ');
+			humanText += `${idx + 1}. **${word.word}** (${
+				word.syllables
+			} syllables, used ${word.occurrences} time${
+				word.occurrences === 1 ? '' : 's'
+			}): ${alternatives || 'no simpler alternatives'}\n`;
+		});
+
+		return humanText;
+	}
+
+	static summarizeAcademicVocabulary(
+		result: AcademicVocabularyResult
+	): string {
+		if (result.suggestions.length === 0) {
+			return `No academic alternatives found for "${result.word}".`;
+		}
+
+		let humanText = `**Academic alternatives for "${result.word}"**:\n\n`;
+		result.suggestions.forEach((suggestion, idx) => {
+			humanText += `${idx + 1}. **${suggestion.word}** (score ${
+				suggestion.academicScore
+			})`;
+			if (suggestion.definition) {
+				humanText += ` - ${suggestion.definition}`;
+			}
+			humanText += `\n`;
+		});
+
+		return humanText;
+	}
+
+	static summarizePaperSearch(result: PaperSearchResult): string {
+		let humanText = `Found ${result.total} paper(s), showing ${result.papers.length}:\n\n`;
+		result.papers.forEach((paper, idx) => {
+			humanText += `${idx + 1}. **${paper.title}**`;
+			if (paper.year) {
+				humanText += ` (${paper.year})`;
+			}
+			humanText += `\n   ${paper.authors}`;
+			if (paper.citations !== undefined && paper.citations !== null) {
+				humanText += ` · ${paper.citations} citations`;
+			}
+			humanText += `\n`;
+		});
+
+		return humanText;
+	}
+
+	static summarizePaperDetails(result: PaperDetailsResult): string {
+		const { paper } = result;
+		let humanText = `**${paper.title}**`;
+		if (paper.year) {
+			humanText += ` (${paper.year})`;
+		}
+		humanText += `\n${paper.authors.join(', ')}\n`;
+		if (paper.venue) {
+			humanText += `*${paper.venue}*\n`;
+		}
+		humanText += `\nCited by ${paper.citations ?? 0}, references ${
+			paper.references ?? 0
+		}.`;
+		if (paper.doi) {
+			humanText += ` DOI: ${paper.doi}`;
+		}
+
+		return humanText;
+	}
+
+	static summarizeWikipediaArticles(result: WikipediaArticlesResult): string {
+		if (result.articles.length === 0) {
+			return 'No Wikipedia articles found.';
+		}
+
+		let humanText = '';
+		result.articles.forEach((article, idx) => {
+			humanText += `${idx + 1}. **${article.title}**`;
+			if (article.url) {
+				humanText += ` - ${article.url}`;
+			}
+			humanText += `\n`;
+		});
+
+		return humanText;
+	}
+
+	static summarizeWikipediaSummary(result: WikipediaSummaryResult): string {
+		return `**${result.title}**\n\n${result.summary}\n\n${result.url}`;
+	}
+
+	static summarizeQuotes(result: QuoteSearchResult): string {
+		if (result.quotes.length === 0) {
+			return 'No quotes found.';
+		}
+
+		return result.quotes
+			.map((quote) => `"${quote.content}" - ${quote.author}`)
+			.join('\n\n');
+	}
+
+	static summarizeQuote(result: QuoteResult): string {
+		return `"${result.content}" - ${result.author}`;
+	}
+
+	static summarizeWordRelationships(result: WordRelationshipResult): string {
+		if (result.results.length === 0) {
+			return `No ${result.type} found for "${result.word}".`;
+		}
+
+		return `**${result.type} of "${result.word}"**: ${result.results
+			.map((r) => r.word)
+			.join(', ')}`;
+	}
+
+	static summarizeAdvancedGrammar(result: AdvancedGrammarResult): string {
+		if (result.totalErrors === 0) {
+			return 'No grammar, spelling or style issues found.';
+		}
+
+		let humanText = `Found ${result.totalErrors} issue(s): ${result.summary.grammar} grammar, ${result.summary.spelling} spelling, ${result.summary.style} style, ${result.summary.other} other.\n\n`;
+		const issues = [
+			...result.issues.grammar,
+			...result.issues.spelling,
+			...result.issues.style,
+		];
+		issues.forEach((issue, idx) => {
+			humanText += `${idx + 1}. ${issue.message}`;
+			if (issue.suggestions.length > 0) {
+				humanText += ` → ${issue.suggestions.slice(0, 3).join(', ')}`;
+			}
+			humanText += `\n`;
+		});
+
+		return humanText;
+	}
+
+	static summarizeWordDetails(result: WordDetailsResult): string {
+		let humanText = `**${result.word}**`;
+		if (result.pronunciations.length > 0) {
+			humanText += ` ${result.pronunciations[0]}`;
+		}
+		humanText += `\n\n`;
+
+		result.definitions.forEach((def, idx) => {
+			humanText += `${idx + 1}. ${
+				def.partOfSpeech ? `*${def.partOfSpeech}* ` : ''
+			}${def.text ?? ''}\n`;
+		});
+
+		if (result.examples.length > 0) {
+			humanText += `\n**Examples**:\n`;
+			result.examples.forEach((example) => {
+				humanText += `- ${example}\n`;
+			});
+		}
+
+		return humanText;
+	}
+
+	static summarizeWordOfTheDay(result: WordOfTheDayResult): string {
+		let humanText = `**Word of the day: ${result.word}**\n\n`;
+		result.definitions.forEach((def, idx) => {
+			humanText += `${idx + 1}. ${
+				def.partOfSpeech ? `*${def.partOfSpeech}* ` : ''
+			}${def.text ?? ''}\n`;
+		});
+		if (result.note) {
+			humanText += `\n${result.note}\n`;
+		}
+
+		return humanText;
+	}
+
+	static summarizeDoiCitation(result: DoiCitationResult): string {
+		return result.citation;
+	}
+
+	static summarizeSavedBibliography(result: SavedBibliographyResult): string {
+		if (result.count === 0) {
+			return 'Saved bibliography is empty.';
+		}
+
+		let humanText = `Saved bibliography has ${result.count} entr${
+			result.count === 1 ? 'y' : 'ies'
+		}:\n\n`;
+		result.entries.forEach((entry, idx) => {
+			humanText += `${idx + 1}. ${String(entry.title ?? 'Untitled')}`;
+			if (entry.DOI) {
+				humanText += ` (${String(entry.DOI)})`;
+			}
+			humanText += `\n`;
+		});
+
+		return humanText;
+	}
+
+	static summarizeServerStatus(result: ServerStatusResult): string {
+		let humanText = `**Mode**: ${
+			result.offline ? 'offline (no network requests are made)' : 'online'
+		}\n\n**Providers**:\n`;
+		result.providers.forEach((provider) => {
+			let line = `- ${provider.name}: `;
+			line += provider.configured
+				? 'configured'
+				: `missing ${provider.missingCredentials.join(', ')}`;
+			if (provider.reachable === true) {
+				line += `, reachable (${provider.latencyMs}ms)`;
+			} else if (provider.reachable === false) {
+				line += `, unreachable (${provider.error})`;
+			}
+			if (provider.circuit !== 'closed') {
+				line += `, circuit ${provider.circuit} after repeated failures`;
+			}
+			humanText += `${line}\n`;
+		});
+
+		if (result.disabledTools.length > 0) {
+			humanText += `\n**Disabled tools**: ${result.disabledTools.join(
+				', '
+			)}\n`;
+		}
+
+		if (result.offline) {
+			const byMode = (mode: string) =>
+				result.tools
+					.filter((tool) => tool.mode === mode)
+					.map((tool) => tool.name);
+			humanText += `\n**Tools offline**:\n`;
+			[
+				['local', 'Local'],
+				['fallback', 'Local fallback'],
+				['cached', 'Cached results only'],
+				['unavailable', 'Unavailable'],
+			].forEach(([mode, label]) => {
+				const names = byMode(mode);
+				if (names.length > 0) {
+					humanText += `- ${label}: ${names.join(', ')}\n`;
+				}
+			});
+		}
+
+		if (result.unavailableTools.length > 0) {
+			humanText += `\n**Unavailable tools**: ${result.unavailableTools.join(
+				', '
+			)}\n`;
+		}
+
+		humanText += `\n**Response cache**: ${
+			result.cache.enabled ? 'enabled' : 'disabled'
+		}, ${result.cache.entries} entries (${(
+			result.cache.bytes / 1024
+		).toFixed(1)} KB) in ${result.cache.directory}\n`;
+
+		if (result.problems.length > 0) {
+			humanText += `\n**Configuration problems**:\n`;
+			result.problems.forEach((problem) => {
+				humanText += `- ${problem}\n`;
+			});
+		}
+
+		humanText += `\nConfig file: ${result.configFile ?? 'none'}`;
+		return humanText;
+	}
+
+	static summarizeClearCache(result: ClearCacheResult): string {
+		return `Removed ${result.removed} cached response${
+			result.removed === 1 ? '' : 's'
+		}${result.provider ? ` from ${result.provider}` : ''}.`;
+	}
+
+	static summarizeUsageReport(result: UsageReportResult): string {
+		let humanText = `**Usage ${
+			result.days === 1
+				? `today (${result.date})`
+				: `over the last ${result.days} days`
+		}**\n`;
+
+		if (result.budgets.length > 0) {
+			humanText += `\n**Daily budgets** (reset ${result.resetsAt}):\n`;
+			result.budgets.forEach((entry) => {
+				humanText +=
+					entry.budget === null
+						? `- ${entry.name}: ${entry.used} requests, no budget\n`
+						: `- ${entry.name}: ${entry.used} of ${entry.budget} requests, ${entry.remaining} left (${entry.action} when exceeded)\n`;
+			});
+		}
+
+		humanText += `\n**Requests by provider**:\n`;
+		humanText +=
+			result.providers.length > 0
+				? result.providers
+						.map((entry) => `- ${entry.name}: ${entry.requests}`)
+						.join('\n') + '\n'
+				: 'No upstream requests.\n';
+
+		if (result.tools.length > 0) {
+			humanText += `\n**Calls by tool**:\n`;
+			result.tools.forEach((entry) => {
+				humanText += `- ${entry.name}: ${entry.calls} call${
+					entry.calls === 1 ? '' : 's'
+				}, ${entry.upstream} upstream request${
+					entry.upstream === 1 ? '' : 's'
+				}${entry.errors > 0 ? `, ${entry.errors} failed` : ''}\n`;
+			});
+		}
+
+		return humanText;
+	}
+
+	/**
+	 * Pair a human summary with the result as MCP structuredContent
+	 */
+	static formatStructured(
+		result: Record<string, unknown>,
+		summary: string
+	): ToolResult {
 		return {
 			content: [
 				{
 					type: 'text',
-					text: humanText,
-				},
-				{
-					type: 'resource',
-					resource: {
-						uri: 'english-mcp://result/ai-detection',
-						mimeType: 'application/json',
-						text: JSON.stringify(structured, null, 2),
-					},
+					text: summary,
 				},
 			],
+			structuredContent: result,
 		};
 	}
 
-	static formatError(tool: string, error: Error): ToolResult {
-		const structured: StructuredToolResponse = {
+	/**
+	 * Report an error as text plus a machine-readable JSON resource with its
+	 * code, retryability and provider
+	 */
+	static formatError(tool: string, error: unknown): ToolResult {
+		const details = toEnglishMcpError(error).toJSON();
+		const structured = {
 			success: false,
 			tool,
-			error: error.message,
+			error: details,
 		};
 
 		return {
 			content: [
 				{
 					type: 'text',
-					text: `Error: ${error.message}`,
+					text: `Error (${details.code}): ${details.message}`,
 				},
 				{
 					type: 'resource',
@@ -0,0 +1,150 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+	CallToolRequestSchema,
+	GetPromptRequestSchema,
+	ListPromptsRequestSchema,
+	ListResourcesRequestSchema,
+	ListResourceTemplatesRequestSchema,
+	ListToolsRequestSchema,
+	ReadResourceRequestSchema,
+	SetLevelRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { isToolEnabled } from './config.js';
+import {
+	CompleteArgumentRequestSchema,
+	completeArgument,
+} from './completions.js';
+import { Logger } from './utils/logger.js';
+import { runWithContext } from './utils/request-context.js';
+import { Trace } from './utils/trace.js';
+import { ToolRegistry } from './tools/registry.js';
+import { coreTools } from './tools/definitions.js';
+import { ResourceRegistry } from './resources/registry.js';
+import { coreResources } from './resources/definitions.js';
+import { PromptRegistry } from './prompts/registry.js';
+import { corePrompts } from './prompts/definitions.js';
+
+export const SERVER_NAME = 'english-mcp';
+export const SERVER_VERSION = '3.0.0';
+
+// Registries are shared by every connected session. Plugin tools are added
+// to the tool registry at startup.
+export const toolRegistry = new ToolRegistry(
+	coreTools.filter((tool) => isToolEnabled(tool.name))
+);
+const resources = new ResourceRegistry(coreResources);
+const prompts = new PromptRegistry(corePrompts);
+
+/**
+ * Create an MCP server with all handlers registered. Each transport (stdio,
+ * or one per HTTP session) needs its own Server instance.
+ */
+export function createServer(): Server {
+	const server = new Server(
+		{
+			name: SERVER_NAME,
+			version: SERVER_VERSION,
+		},
+		{
+			capabilities: {
+				tools: {},
+				resources: {},
+				prompts: {},
+				logging: {},
+				completions: {},
+			},
+		}
+	);
+
+	// Log entries go to stderr and, at the level it picks, to the client
+	const logger = new Logger((entry) => {
+		server
+			.sendLoggingMessage({
+				level: entry.level,
+				logger: entry.logger,
+				data: { message: entry.message, ...entry.data },
+			})
+			.catch(() => {
+				// The client went away; stderr still has the entry
+			});
+	});
+
+	server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+		logger.setLevel(request.params.level);
+		return {};
+	});
+
+	// Tool handlers
+	server.setRequestHandler(ListToolsRequestSchema, async () => {
+		return {
+			tools: toolRegistry.list(),
+		};
+	});
+
+	// Cancelling a request aborts the upstream fetches it started. Each call
+	// is traced, and the trace ID is returned in the result's _meta.
+	server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+		const { name, arguments: args } = request.params;
+		const trace = new Trace(name, logger);
+		const result = await runWithContext(
+			{ signal: extra.signal, trace },
+			() => toolRegistry.call(name, args)
+		);
+
+		const [first] = result.content;
+		trace.finish(
+			result.isError && first?.type === 'text' ? first.text : undefined
+		);
+		return { ...result, _meta: { ...result._meta, traceId: trace.id } };
+	});
+
+	// Resource handlers
+	server.setRequestHandler(ListResourcesRequestSchema, async () => {
+		return {
+			resources: await resources.list(),
+		};
+	});
+
+	server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+		return {
+			resourceTemplates: resources.listTemplates(),
+		};
+	});
+
+	server.setRequestHandler(
+		ReadResourceRequestSchema,
+		async (request, extra) => {
+			return runWithContext({ signal: extra.signal }, () =>
+				resources.read(request.params.uri)
+			);
+		}
+	);
+
+	// Prompt handlers
+	server.setRequestHandler(ListPromptsRequestSchema, async () => {
+		return {
+			prompts: prompts.list(),
+		};
+	});
+
+	server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+		const { name, arguments: args } = request.params;
+		return prompts.get(name, args);
+	});
+
+	// Argument completion for prompts, resource templates and tools
+	server.setRequestHandler(
+		CompleteArgumentRequestSchema,
+		async (request, extra) => {
+			return runWithContext({ signal: extra.signal }, () =>
+				completeArgument(request.params, {
+					tools: toolRegistry,
+					prompts,
+					resources,
+				})
+			);
+		}
+	);
+
+	return server;
+}
@@ -0,0 +1,13 @@
+import type { ProviderId } from '../config.js';
+import { responseCache } from '../utils/cache.js';
+import type { ClearCacheResult } from '../types.js';
+
+/**
+ * Delete cached upstream responses so the next lookups hit the network
+ */
+export async function clearCache(
+	provider?: ProviderId
+): Promise<ClearCacheResult> {
+	const removed = await responseCache.clear(provider);
+	return { provider: provider ?? null, removed };
+}
@@ -1,6 +1,78 @@
 import { Cite, plugins } from '@citation-js/core';
 import '@citation-js/plugin-csl';
 import { CrossRefClient, WorkMetadata } from '../api/crossref.js';
+import { join } from 'path';
+import { BibliographyStore } from '../utils/bibliography-store.js';
+import { LruMap } from '../utils/lru.js';
+import { config } from '../config.js';
+import { EnglishMcpError, InvalidInputError, OfflineError } from '../errors.js';
+
+const bibliographyStore = new BibliographyStore();
+
+/**
+ * CSL-JSON for every DOI resolved while online, so citations can still be
+ * formatted in offline mode
+ */
+const citationLibrary = new BibliographyStore(
+	join(config.storage.dataDir, 'citation-library.json')
+);
+
+/**
+ * CrossRef metadata for DOIs looked up recently during this session
+ */
+const doiCache = new LruMap<string, WorkMetadata>(100);
+
+/**
+ * Keep typed errors (e.g. from CrossRef) as they are; anything else thrown
+ * while processing means the citation data could not be used
+ */
+function citationError(action: string, error: unknown): EnglishMcpError {
+	if (error instanceof EnglishMcpError) {
+		return error;
+	}
+	return new InvalidInputError(
+		`Failed to ${action}: ${
+			error instanceof Error ? error.message : 'Unknown error'
+		}`
+	);
+}
+
+/**
+ * Add resolved citation data to the library. Failing to write it only
+ * means the DOI will not be available offline.
+ */
+async function addToLibrary(entry: CitationInput): Promise<void> {
+	try {
+		await citationLibrary.add(entry);
+	} catch {
+		// Ignore; the citation itself was resolved fine
+	}
+}
+
+/**
+ * Find a DOI in the saved bibliography or the citation library
+ */
+async function findInLibrary(doi: string): Promise<CitationInput | undefined> {
+	const key = doi.toLowerCase();
+	for (const store of [bibliographyStore, citationLibrary]) {
+		const entry = (await store.load()).find(
+			(entry) => entry.DOI?.toLowerCase() === key
+		);
+		if (entry) {
+			return entry;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Resolve a DOI through CrossRef, so the lookup is cached, retried and
+ * budgeted like every other upstream request. Offline, it comes from the
+ * response cache or the citation library.
+ */
+async function citeDoi(doi: string): Promise<Cite> {
+	return new Cite(crossrefToCsl(await getWorkMetadata(doi)));
+}
 
 /**
  * Citation style type
@@ -10,7 +82,7 @@ export type CitationStyle = 'apa' | 'vancouver' | 'harvard' | 'mla' | 'chicago';
 /**
  * Map user-friendly style names to Citation.js template names
  */
-const STYLE_MAP: Record<CitationStyle, string> = {
+export const STYLE_MAP: Record<CitationStyle, string> = {
 	apa: 'apa',
 	vancouver: 'vancouver',
 	harvard: 'harvard1',
@@ -18,6 +90,37 @@ const STYLE_MAP: Record<CitationStyle, string> = {
 	chicago: 'apa', // Fallback to APA for Chicago (author-date similar)
 };
 
+/**
+ * Human-readable descriptions of each supported style
+ */
+const STYLE_DESCRIPTIONS: Record<CitationStyle, string> = {
+	apa: 'American Psychological Association (7th ed.). Author-date style used in the social sciences.',
+	vancouver:
+		'Numbered citation style used in medicine and the life sciences.',
+	harvard: 'Author-date style common in UK and Australian universities.',
+	mla: 'Modern Language Association (9th ed.). Author-page style used in the humanities.',
+	chicago:
+		'Chicago Manual of Style (author-date). Used in history and the social sciences.',
+};
+
+/**
+ * Describe a citation style, including which template actually renders it
+ */
+export function describeCitationStyle(style: CitationStyle): {
+	style: CitationStyle;
+	template: string;
+	description: string;
+	fallback: boolean;
+} {
+	const template = STYLE_MAP[style];
+	return {
+		style,
+		template,
+		description: STYLE_DESCRIPTIONS[style],
+		fallback: template !== style && !template.startsWith(style),
+	};
+}
+
 /**
  * Output format type
  */
@@ -57,7 +160,7 @@ export async function formatCitation(params: {
 
 		if (typeof data === 'string') {
 			if (data.startsWith('10.')) {
-				cite = await Cite.async(data);
+				cite = await citeDoi(data);
 			} else {
 				cite = new Cite(data);
 			}
@@ -73,14 +176,24 @@ export async function formatCitation(params: {
 			lang,
 		});
 	} catch (error) {
-		throw new Error(
-			`Failed to format citation: ${
-				error instanceof Error ? error.message : 'Unknown error'
-			}`
-		);
+		throw citationError('format citation', error);
 	}
 }
 
+/**
+ * CSL types of the CrossRef work types whose names differ
+ */
+const CSL_TYPES: Record<string, string> = {
+	'journal-article': 'article-journal',
+	'book-chapter': 'chapter',
+	'proceedings-article': 'paper-conference',
+	'posted-content': 'article',
+	'edited-book': 'book',
+	monograph: 'book',
+	'reference-entry': 'entry',
+	dissertation: 'thesis',
+};
+
 /**
  * Convert CrossRef work metadata to CSL-JSON
  */
@@ -88,7 +201,7 @@ export function crossrefToCsl(work: WorkMetadata): CitationInput {
 	const csl: CitationInput = {
 		id: work.DOI,
 		DOI: work.DOI,
-		type: work.type || 'article',
+		type: (work.type && CSL_TYPES[work.type]) || work.type || 'article',
 		title: work.title?.[0],
 		'container-title': work['container-title']?.[0],
 		publisher: work.publisher,
@@ -114,6 +227,28 @@ export function crossrefToCsl(work: WorkMetadata): CitationInput {
 	return csl;
 }
 
+/**
+ * Convert CSL-JSON back to the CrossRef metadata shape, for DOIs that are
+ * only known from the citation library
+ */
+function cslToCrossref(csl: CitationInput): WorkMetadata {
+	return {
+		DOI: csl.DOI as string,
+		type: csl.type,
+		title: csl.title ? [csl.title] : undefined,
+		'container-title': csl['container-title']
+			? [csl['container-title']]
+			: undefined,
+		publisher: csl.publisher,
+		volume: csl.volume,
+		issue: csl.issue,
+		page: csl.page,
+		URL: csl.URL,
+		author: csl.author,
+		published: csl.issued,
+	};
+}
+
 /**
  * Generate bibliography from multiple citations
  */
@@ -139,7 +274,7 @@ export async function generateBibliography(params: {
 					typeof citation === 'string' &&
 					citation.startsWith('10.')
 				) {
-					const cite = await Cite.async(citation);
+					const cite = await citeDoi(citation);
 					return cite.data[0];
 				}
 				return citation;
@@ -157,11 +292,7 @@ export async function generateBibliography(params: {
 			nosort: !sort,
 		});
 	} catch (error) {
-		throw new Error(
-			`Failed to generate bibliography: ${
-				error instanceof Error ? error.message : 'Unknown error'
-			}`
-		);
+		throw citationError('generate bibliography', error);
 	}
 }
 
@@ -176,7 +307,7 @@ export async function convertToBibtex(
 
 		if (typeof data === 'string') {
 			if (data.startsWith('10.')) {
-				cite = await Cite.async(data);
+				cite = await citeDoi(data);
 			} else {
 				cite = new Cite(data);
 			}
@@ -186,11 +317,7 @@ export async function convertToBibtex(
 
 		return cite.format('bibtex');
 	} catch (error) {
-		throw new Error(
-			`Failed to convert to BibTeX: ${
-				error instanceof Error ? error.message : 'Unknown error'
-			}`
-		);
+		throw citationError('convert to BibTeX', error);
 	}
 }
 
@@ -225,6 +352,55 @@ export function validateCitation(citation: CitationInput): {
 	};
 }
 
+/**
+ * Fetch CrossRef metadata for a DOI, reusing earlier lookups
+ */
+export async function getWorkMetadata(
+	doi: string,
+	mailto?: string
+): Promise<WorkMetadata> {
+	const key = doi.toLowerCase();
+	const cached = doiCache.get(key);
+	if (cached) {
+		return cached;
+	}
+
+	const crossref = new CrossRefClient({
+		mailto: mailto || config.crossref.mailto || undefined,
+		plusApiToken: config.crossref.plusApiToken || undefined,
+	});
+	let work: WorkMetadata;
+	try {
+		work = await crossref.getWork(doi);
+	} catch (error) {
+		// Offline, a DOI missing from the response cache may still be in
+		// the citation library
+		if (!(error instanceof OfflineError)) {
+			throw error;
+		}
+		const entry = await findInLibrary(doi);
+		if (!entry) {
+			throw new OfflineError(
+				'crossref',
+				`DOI ${doi} is neither cached nor in the offline citation library; it has to be looked up online once first`
+			);
+		}
+		work = cslToCrossref(entry);
+	}
+	doiCache.set(key, work);
+	if (!config.server.offline) {
+		await addToLibrary(crossrefToCsl(work));
+	}
+	return work;
+}
+
+/**
+ * DOIs whose metadata was fetched most recently
+ */
+export function listCachedDois(): WorkMetadata[] {
+	return Array.from(doiCache.values());
+}
+
 /**
  * Search for a work by DOI and return formatted citation
  */
@@ -238,8 +414,7 @@ export async function searchAndFormatDoi(params: {
 	const { doi, style, format, lang, mailto } = params;
 
 	try {
-		const crossref = new CrossRefClient({ mailto });
-		const work = await crossref.getWork(doi);
+		const work = await getWorkMetadata(doi, mailto);
 
 		const cslData = crossrefToCsl(work);
 		const citation = await formatCitation({
@@ -254,11 +429,7 @@ export async function searchAndFormatDoi(params: {
 			metadata: work,
 		};
 	} catch (error) {
-		throw new Error(
-			`Failed to search and format DOI: ${
-				error instanceof Error ? error.message : 'Unknown error'
-			}`
-		);
+		throw citationError('search and format DOI', error);
 	}
 }
 
@@ -278,7 +449,7 @@ export async function getInTextCitation(params: {
 
 		if (typeof data === 'string') {
 			if (data.startsWith('10.')) {
-				cite = await Cite.async(data);
+				cite = await citeDoi(data);
 			} else {
 				cite = new Cite(data);
 			}
@@ -292,10 +463,49 @@ export async function getInTextCitation(params: {
 			lang,
 		});
 	} catch (error) {
-		throw new Error(
-			`Failed to format in-text citation: ${
-				error instanceof Error ? error.message : 'Unknown error'
-			}`
-		);
+		throw citationError('format in-text citation', error);
+	}
+}
+
+/**
+ * Save a citation (DOI or CSL-JSON) to the persistent bibliography
+ */
+export async function saveCitation(
+	data: CitationInput | string
+): Promise<CitationInput[]> {
+	let entry: CitationInput;
+
+	if (typeof data === 'string') {
+		if (!data.startsWith('10.')) {
+			throw new InvalidInputError(
+				'Saved citations must be a DOI or CSL-JSON object'
+			);
+		}
+		entry = crossrefToCsl(await getWorkMetadata(data));
+	} else {
+		entry = data;
+	}
+
+	const { valid, errors } = validateCitation(entry);
+	if (!valid) {
+		throw new InvalidInputError(`Invalid citation: ${errors.join(', ')}`, {
+			details: { errors },
+		});
 	}
+
+	return bibliographyStore.add(entry);
+}
+
+/**
+ * Entries in the persistent bibliography
+ */
+export async function getSavedBibliography(): Promise<CitationInput[]> {
+	return bibliographyStore.load();
+}
+
+/**
+ * Remove every entry from the persistent bibliography
+ */
+export async function clearSavedBibliography(): Promise<void> {
+	await bibliographyStore.clear();
 }
@@ -0,0 +1,474 @@
+import type { z } from 'zod';
+import {
+	WordSchema,
+	TextSchema,
+	SearchPapersSchema,
+	PaperIdSchema,
+	WikipediaSearchSchema,
+	WikipediaTitleSchema,
+	QuoteSearchSchema,
+	QuoteTagsSchema,
+	WordRelationshipSchema,
+	CitationSchema,
+	BibliographySchema,
+	DoiSchema,
+	BibtexSchema,
+	SaveCitationSchema,
+	ServerStatusSchema,
+	ClearCacheSchema,
+	UsageReportSchema,
+	ReadabilitySchema,
+	ReadabilityHeatmapSchema,
+	PassiveVoiceSchema,
+	SimplifyVocabularySchema,
+	EmptySchema,
+	ThesaurusResultSchema,
+	DictionaryResultSchema,
+	AcademicVocabularyResultSchema,
+	GrammarCheckResultSchema,
+	ReadabilityResultSchema,
+	ReadabilityHeatmapResultSchema,
+	PassiveVoiceResultSchema,
+	SimplifyVocabularyResultSchema,
+	ToneAnalysisResultSchema,
+	SentimentAnalysisResultSchema,
+	AIDetectionResultSchema,
+	PaperSearchResultSchema,
+	PaperDetailsResultSchema,
+	WikipediaArticlesResultSchema,
+	WikipediaSummaryResultSchema,
+	QuoteSearchResultSchema,
+	QuoteResultSchema,
+	WordRelationshipResultSchema,
+	AdvancedGrammarResultSchema,
+	WordDetailsResultSchema,
+	WordOfTheDayResultSchema,
+	CitationResultSchema,
+	BibliographyResultSchema,
+	DoiCitationResultSchema,
+	BibtexResultSchema,
+	SavedBibliographyResultSchema,
+	ServerStatusResultSchema,
+	ClearCacheResultSchema,
+	UsageReportResultSchema,
+} from '../types.js';
+import { ResponseFormatter } from '../responses/formatters.js';
+import { InvalidInputError } from '../errors.js';
+import { pluginTools } from '../plugins.js';
+import { defineTool } from './registry.js';
+import type { ToolDefinition } from './registry.js';
+import {
+	getSynonymsAntonyms,
+	getSynonymsAntonymsOffline,
+	lookupDictionary,
+	suggestAcademicVocabulary,
+} from './dictionary.js';
+import { checkGrammar, checkGrammarOffline } from './grammar.js';
+import { analyzeTone, analyzeToneOffline } from './tone.js';
+import { analyzeSentiment, analyzeSentimentOffline } from './sentiment.js';
+import { detectAIContent } from './ai-detection.js';
+import { checkReadability, readabilityHeatmap } from './readability.js';
+import { detectPassiveVoice } from './passive-voice.js';
+import { simplifyVocabulary, simplifyVocabularyOffline } from './simplify.js';
+import {
+	searchAcademicPapers,
+	getPaperDetails,
+	searchWikipedia,
+	getWikipediaSummary,
+	searchQuotes,
+	getRandomQuote,
+	findWordRelationships,
+	checkGrammarAdvanced,
+	checkGrammarAdvancedOffline,
+	getWordDetails,
+	getWordOfTheDay,
+} from './research.js';
+import {
+	formatCitation,
+	generateBibliography,
+	searchAndFormatDoi,
+	convertToBibtex,
+	saveCitation,
+	clearSavedBibliography,
+} from './citations.js';
+import { getServerStatus } from './status.js';
+import { clearCache } from './cache.js';
+import { getUsageReport } from './usage.js';
+
+/**
+ * Look up a DOI and format it. Offline, the metadata comes from the response
+ * cache or the citation library.
+ */
+async function doiCitation(params: z.infer<typeof DoiSchema>) {
+	const { citation, metadata } = await searchAndFormatDoi({
+		doi: params.doi,
+		style: params.style || 'mla',
+		format: params.format || 'text',
+	});
+	return { citation, metadata: { ...metadata } };
+}
+
+/**
+ * Save a DOI or CSL-JSON entry to the persistent bibliography
+ */
+async function saveToBibliography({
+	data,
+}: z.infer<typeof SaveCitationSchema>) {
+	const entries = await saveCitation(data);
+	return {
+		count: entries.length,
+		entries: entries.map((entry) => ({ ...entry })),
+	};
+}
+
+/**
+ * Every tool the server ships with, in the order they are listed
+ */
+export const coreTools: ToolDefinition[] = [
+	defineTool({
+		name: 'get_synonyms_antonyms',
+		description:
+			'Find synonyms and antonyms for a word using Merriam-Webster Thesaurus. Returns both human-readable text and structured JSON for AI parsing.',
+		provider: 'merriamWebster',
+		credentials: ['MERRIAM_WEBSTER_THESAURUS_KEY'],
+		inputSchema: WordSchema,
+		outputSchema: ThesaurusResultSchema,
+		handler: ({ word }) => getSynonymsAntonyms(word),
+		offlineHandler: ({ word }) => getSynonymsAntonymsOffline(word),
+		summarize: ResponseFormatter.summarizeThesaurus,
+	}),
+	defineTool({
+		name: 'lookup_dictionary',
+		description:
+			'Look up word definitions, parts of speech, and usage examples using Merriam-Webster Collegiate Dictionary. Returns both human-readable text and structured JSON for AI parsing.',
+		provider: 'merriamWebster',
+		credentials: ['MERRIAM_WEBSTER_DICTIONARY_KEY'],
+		inputSchema: WordSchema,
+		outputSchema: DictionaryResultSchema,
+		handler: ({ word }) => lookupDictionary(word),
+		summarize: ResponseFormatter.summarizeDictionary,
+	}),
+	defineTool({
+		name: 'suggest_academic_vocabulary',
+		description:
+			'Find formal academic alternatives to a word. Returns synonyms ranked by academic formality with definitions. Perfect for elevating casual language to academic writing standards.',
+		provider: 'merriamWebster',
+		credentials: ['MERRIAM_WEBSTER_THESAURUS_KEY'],
+		inputSchema: WordSchema,
+		outputSchema: AcademicVocabularyResultSchema,
+		handler: ({ word }) => suggestAcademicVocabulary(word),
+		offlineHandler: ({ word }) =>
+			suggestAcademicVocabulary(word, getSynonymsAntonymsOffline),
+		summarize: ResponseFormatter.summarizeAcademicVocabulary,
+	}),
+	defineTool({
+		name: 'check_grammar',
+		description:
+			'Check text for grammar and spelling errors with AI-powered suggestions. Returns detailed error categorization and structured JSON for AI parsing.',
+		provider: 'sapling',
+		credentials: ['SAPLING_PRIVATE_KEY'],
+		inputSchema: TextSchema,
+		outputSchema: GrammarCheckResultSchema,
+		handler: ({ text }) => checkGrammar(text),
+		offlineHandler: ({ text }) => checkGrammarOffline(text),
+		summarize: ResponseFormatter.summarizeGrammarCheck,
+	}),
+	defineTool({
+		name: 'check_readability',
+		description:
+			'Analyze text readability with 7+ metrics including Flesch-Kincaid Grade Level and Reading Ease. Verifies if text suits a target audience (middle school, high school, undergraduate or general adult; default high school, age 17), with optional custom thresholds. Returns grade level, difficult words, reading time, and recommendations.',
+		inputSchema: ReadabilitySchema,
+		outputSchema: ReadabilityResultSchema,
+		handler: ({ text, audience, thresholds }) =>
+			checkReadability(text, audience, thresholds),
+		summarize: ResponseFormatter.summarizeReadability,
+	}),
+	defineTool({
+		name: 'readability_heatmap',
+		description:
+			'Score each paragraph and sentence of a text for readability against a target audience, with character offsets. Returns a ranked list of the hardest sentences and what makes each hard (long sentences, polysyllabic words).',
+		inputSchema: ReadabilityHeatmapSchema,
+		outputSchema: ReadabilityHeatmapResultSchema,
+		handler: ({ text, audience, limit, thresholds }) =>
+			readabilityHeatmap(text, audience, limit, thresholds),
+		summarize: ResponseFormatter.summarizeReadabilityHeatmap,
+	}),
+	defineTool({
+		name: 'detect_passive_voice',
+		description:
+			'Find sentences in the passive voice, including irregular participles, and report their share of the text against a threshold (default 10%). Suggests an active rewrite where the agent is named ("by the committee").',
+		inputSchema: PassiveVoiceSchema,
+		outputSchema: PassiveVoiceResultSchema,
+		handler: ({ text, threshold }) => detectPassiveVoice(text, threshold),
+		summarize: ResponseFormatter.summarizePassiveVoice,
+	}),
+	defineTool({
+		name: 'simplify_vocabulary',
+		description:
+			'Suggest simpler, more common alternatives for the difficult words in a text, drawing on Datamuse and on Merriam-Webster Thesaurus when MERRIAM_WEBSTER_THESAURUS_KEY is set, or the built-in thesaurus otherwise. Each suggestion lists its sources; suggestions are ranked by syllable count and corpus frequency, and the predicted readability gain of applying the top ones is reported.',
+		provider: 'datamuse',
+		inputSchema: SimplifyVocabularySchema,
+		outputSchema: SimplifyVocabularyResultSchema,
+		handler: ({ text, limit }) => simplifyVocabulary(text, limit),
+		offlineHandler: ({ text, limit }) =>
+			simplifyVocabularyOffline(text, limit),
+		summarize: ResponseFormatter.summarizeSimplifyVocabulary,
+	}),
+	defineTool({
+		name: 'analyze_tone',
+		description:
+			'Analyze the tone and style of text (formal, casual, confident, etc.). Returns tone scores and dominant tones in both human and machine-readable formats.',
+		provider: 'sapling',
+		credentials: ['SAPLING_PRIVATE_KEY'],
+		inputSchema: TextSchema,
+		outputSchema: ToneAnalysisResultSchema,
+		handler: ({ text }) => analyzeTone(text),
+		offlineHandler: ({ text }) => analyzeToneOffline(text),
+		summarize: ResponseFormatter.summarizeToneAnalysis,
+	}),
+	defineTool({
+		name: 'analyze_sentiment',
+		description:
+			'Detect the emotional sentiment of text (positive, negative, neutral) with confidence scoring. Returns structured sentiment analysis for AI interpretation.',
+		provider: 'sapling',
+		credentials: ['SAPLING_PRIVATE_KEY'],
+		inputSchema: TextSchema,
+		outputSchema: SentimentAnalysisResultSchema,
+		handler: ({ text }) => analyzeSentiment(text),
+		offlineHandler: ({ text }) => analyzeSentimentOffline(text),
+		summarize: ResponseFormatter.summarizeSentimentAnalysis,
+	}),
+	defineTool({
+		name: 'detect_ai_content',
+		description:
+			'Check if content appears to be AI-generated with sentence-level analysis. Returns flagged sentences, confidence scores, and actionable recommendations in both human and machine-readable formats.',
+		provider: 'sapling',
+		credentials: ['SAPLING_PRIVATE_KEY'],
+		inputSchema: TextSchema,
+		outputSchema: AIDetectionResultSchema,
+		handler: ({ text }) => detectAIContent(text),
+		summarize: ResponseFormatter.summarizeAIDetection,
+	}),
+	defineTool({
+		name: 'search_academic_papers',
+		description:
+			'Search 214M+ academic papers from Semantic Scholar by keywords, year, or topic. Returns paper titles, authors, abstracts, citations, and open access PDFs. Essential for research and literature reviews.',
+		provider: 'semanticScholar',
+		inputSchema: SearchPapersSchema,
+		outputSchema: PaperSearchResultSchema,
+		handler: (params) => searchAcademicPapers(params),
+		summarize: ResponseFormatter.summarizePaperSearch,
+	}),
+	defineTool({
+		name: 'get_paper_details',
+		description:
+			'Get comprehensive details for a specific academic paper including full metadata, citation graph (papers that cite it and papers it references), and field classifications. Use paper ID or DOI.',
+		provider: 'semanticScholar',
+		inputSchema: PaperIdSchema,
+		outputSchema: PaperDetailsResultSchema,
+		handler: ({ paperId }) => getPaperDetails(paperId),
+		summarize: ResponseFormatter.summarizePaperDetails,
+	}),
+	defineTool({
+		name: 'search_wikipedia',
+		description:
+			'Search Wikipedia articles and get summaries. Returns article titles, excerpts, URLs, and thumbnails. Perfect for quick research and fact-checking.',
+		provider: 'wikipedia',
+		inputSchema: WikipediaSearchSchema,
+		outputSchema: WikipediaArticlesResultSchema,
+		handler: ({ query, limit }) => searchWikipedia(query, limit),
+		summarize: ResponseFormatter.summarizeWikipediaArticles,
+	}),
+	defineTool({
+		name: 'get_wikipedia_summary',
+		description:
+			'Get the full summary of a specific Wikipedia article by exact title. Returns complete introduction and article URL.',
+		provider: 'wikipedia',
+		inputSchema: WikipediaTitleSchema,
+		outputSchema: WikipediaSummaryResultSchema,
+		handler: ({ title }) => getWikipediaSummary(title),
+		summarize: ResponseFormatter.summarizeWikipediaSummary,
+	}),
+	defineTool({
+		name: 'search_quotes',
+		description:
+			'Search for quotes by content, author, or tags. Returns relevant quotes with attribution. Great for finding supporting quotes or inspiration.',
+		provider: 'quotable',
+		inputSchema: QuoteSearchSchema,
+		outputSchema: QuoteSearchResultSchema,
+		handler: (params) => searchQuotes(params),
+		summarize: ResponseFormatter.summarizeQuotes,
+	}),
+	defineTool({
+		name: 'get_random_quote',
+		description:
+			'Get a random inspirational quote, optionally filtered by tags (e.g., wisdom, life, success). Perfect for writing inspiration or motivation.',
+		provider: 'quotable',
+		inputSchema: QuoteTagsSchema,
+		outputSchema: QuoteResultSchema,
+		handler: (params) => getRandomQuote(params),
+		summarize: ResponseFormatter.summarizeQuote,
+	}),
+	defineTool({
+		name: 'find_word_relationships',
+		description:
+			'Find word relationships using Datamuse: synonyms, antonyms, rhymes, similar meaning, or sounds-like. Returns ranked results with definitions. More comprehensive than basic thesaurus.',
+		provider: 'datamuse',
+		inputSchema: WordRelationshipSchema,
+		outputSchema: WordRelationshipResultSchema,
+		handler: (params) => findWordRelationships(params),
+		summarize: ResponseFormatter.summarizeWordRelationships,
+	}),
+	defineTool({
+		name: 'check_grammar_advanced',
+		description:
+			'Advanced grammar and style checking using LanguageTool. Categorizes issues into grammar, spelling, and style. More detailed than basic grammar check.',
+		provider: 'languageTool',
+		inputSchema: TextSchema,
+		outputSchema: AdvancedGrammarResultSchema,
+		handler: ({ text }) => checkGrammarAdvanced(text),
+		offlineHandler: ({ text }) => checkGrammarAdvancedOffline(text),
+		summarize: ResponseFormatter.summarizeAdvancedGrammar,
+	}),
+	defineTool({
+		name: 'get_word_details',
+		description:
+			'Get comprehensive word information from Wordnik including definitions, examples, related words, and pronunciations.',
+		provider: 'wordnik',
+		credentials: ['WORDNIK_API_KEY'],
+		inputSchema: WordSchema,
+		outputSchema: WordDetailsResultSchema,
+		handler: ({ word }) => getWordDetails(word),
+		summarize: ResponseFormatter.summarizeWordDetails,
+	}),
+	defineTool({
+		name: 'get_word_of_the_day',
+		description:
+			"Get Wordnik's word of the day with definitions and examples. Great for vocabulary building.",
+		provider: 'wordnik',
+		credentials: ['WORDNIK_API_KEY'],
+		inputSchema: EmptySchema,
+		outputSchema: WordOfTheDayResultSchema,
+		handler: () => getWordOfTheDay(),
+		summarize: ResponseFormatter.summarizeWordOfTheDay,
+	}),
+	defineTool({
+		name: 'format_citation',
+		description:
+			'Format a citation in MLA9, APA, Chicago, Harvard, or Vancouver style. Accepts DOI or CSL-JSON. Returns properly formatted citation for academic writing.',
+		annotations: { openWorldHint: true },
+		inputSchema: CitationSchema,
+		outputSchema: CitationResultSchema,
+		handler: async (params) => {
+			if (!params.data) {
+				throw new InvalidInputError('Citation data is required');
+			}
+			const citation = await formatCitation({
+				data: params.data,
+				style: params.style,
+				format: params.format || 'text',
+				lang: params.lang,
+			});
+			return { citation };
+		},
+		summarize: (result) => result.citation,
+	}),
+	defineTool({
+		name: 'generate_bibliography',
+		description:
+			'Generate a complete bibliography from multiple citations in any major style. Accepts array of DOIs or CSL-JSON objects. Automatically sorts entries.',
+		annotations: { openWorldHint: true },
+		inputSchema: BibliographySchema,
+		outputSchema: BibliographyResultSchema,
+		handler: async (params) => ({
+			bibliography: await generateBibliography(params),
+		}),
+		summarize: (result) => result.bibliography,
+	}),
+	defineTool({
+		name: 'search_doi_and_format',
+		description:
+			'Look up a DOI in CrossRef and return a formatted citation. Automatically retrieves metadata and formats in your chosen style.',
+		provider: 'crossref',
+		inputSchema: DoiSchema,
+		outputSchema: DoiCitationResultSchema,
+		handler: doiCitation,
+		offlineHandler: doiCitation,
+		summarize: ResponseFormatter.summarizeDoiCitation,
+	}),
+	defineTool({
+		name: 'convert_to_bibtex',
+		description:
+			'Convert citation data to BibTeX format for LaTeX documents. Accepts DOI or CSL-JSON.',
+		annotations: { openWorldHint: true },
+		inputSchema: BibtexSchema,
+		outputSchema: BibtexResultSchema,
+		handler: async ({ data }) => ({
+			bibtex: await convertToBibtex(data),
+		}),
+		summarize: (result) => result.bibtex,
+	}),
+	defineTool({
+		name: 'save_to_bibliography',
+		description:
+			'Save a citation (DOI or CSL-JSON) to the persistent bibliography. The saved list is available as the bibliography://saved resource and can be formatted in any style via bibliography://saved/{style}.',
+		provider: 'crossref',
+		annotations: { readOnlyHint: false, idempotentHint: true },
+		inputSchema: SaveCitationSchema,
+		outputSchema: SavedBibliographyResultSchema,
+		handler: saveToBibliography,
+		offlineHandler: saveToBibliography,
+		summarize: ResponseFormatter.summarizeSavedBibliography,
+	}),
+	defineTool({
+		name: 'clear_saved_bibliography',
+		description:
+			'Remove every entry from the persistent bibliography saved with save_to_bibliography.',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+			idempotentHint: true,
+		},
+		inputSchema: EmptySchema,
+		outputSchema: SavedBibliographyResultSchema,
+		handler: async () => {
+			await clearSavedBibliography();
+			return { count: 0, entries: [] };
+		},
+		summarize: ResponseFormatter.summarizeSavedBibliography,
+	}),
+	defineTool({
+		name: 'server_status',
+		description:
+			'Show whether the server is online or offline, which API providers are configured and reachable, how each tool runs (online, local, offline fallback, cached only or unavailable), which tools are disabled, response cache usage, and any configuration problems.',
+		annotations: { openWorldHint: true },
+		inputSchema: ServerStatusSchema,
+		outputSchema: ServerStatusResultSchema,
+		handler: ({ checkReachability }) =>
+			getServerStatus([...coreTools, ...pluginTools], checkReachability),
+		summarize: ResponseFormatter.summarizeServerStatus,
+	}),
+	defineTool({
+		name: 'clear_cache',
+		description:
+			'Delete cached API responses (dictionary entries, DOI metadata, papers, etc.) so the next requests fetch fresh data.',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+			idempotentHint: true,
+		},
+		inputSchema: ClearCacheSchema,
+		outputSchema: ClearCacheResultSchema,
+		handler: ({ provider }) => clearCache(provider),
+		summarize: ResponseFormatter.summarizeClearCache,
+	}),
+	defineTool({
+		name: 'usage_report',
+		description:
+			"Report upstream API requests per provider and calls per tool over the last few days, and how much of each provider's daily request budget is left today.",
+		inputSchema: UsageReportSchema,
+		outputSchema: UsageReportResultSchema,
+		handler: ({ days }) => getUsageReport(days),
+		summarize: ResponseFormatter.summarizeUsageReport,
+	}),
+];
@@ -1,98 +1,139 @@
 import { MerriamWebsterAPI } from '../api/merriam-webster.js';
-import { ResponseFormatter } from '../responses/formatters.js';
-import type { ToolResult } from '../responses/formatters.js';
-import { AcademicVocabularyResult } from '../types.js';
+import { EnglishMcpError, InvalidInputError } from '../errors.js';
+import type { ErrorCode } from '../errors.js';
+import { lookupLocalThesaurus } from '../local/thesaurus.js';
+import type {
+	AcademicVocabularyResult,
+	DictionaryResult,
+	ThesaurusResult,
+} from '../types.js';
 
 const api = new MerriamWebsterAPI();
 
-export async function getSynonymsAntonyms(word: string): Promise<ToolResult> {
-	try {
-		const result = await api.getThesaurus(word);
-		return ResponseFormatter.formatThesaurus(result);
-	} catch (error) {
-		return ResponseFormatter.formatError(
-			'get_synonyms_antonyms',
-			error instanceof Error ? error : new Error(String(error))
-		);
-	}
+export async function getSynonymsAntonyms(
+	word: string
+): Promise<ThesaurusResult> {
+	return api.getThesaurus(word);
 }
 
-export async function lookupDictionary(word: string): Promise<ToolResult> {
+/**
+ * Merriam-Webster failures the built-in thesaurus stands in for: anything
+ * that keeps the provider from answering, but not an unknown word
+ */
+const FALLBACK_CODES: ErrorCode[] = [
+	'OFFLINE',
+	'MISSING_CREDENTIAL',
+	'RATE_LIMITED',
+	'QUOTA_EXCEEDED',
+	'UPSTREAM_UNAVAILABLE',
+	'UPSTREAM_ERROR',
+	'TIMEOUT',
+];
+
+/** Thesaurus that answered a synonym lookup */
+export type ThesaurusSource = 'merriamWebster' | 'localThesaurus';
+
+/**
+ * Merriam-Webster's thesaurus, or the built-in one when Merriam-Webster
+ * cannot answer (offline, no key, over its limits, down or slow), together
+ * with the thesaurus that answered
+ */
+export async function lookupSynonymsWithFallback(
+	word: string
+): Promise<{ result: ThesaurusResult; source: ThesaurusSource }> {
 	try {
-		const result = await api.getDictionary(word);
-		return ResponseFormatter.formatDictionary(result);
+		return {
+			result: await api.getThesaurus(word),
+			source: 'merriamWebster',
+		};
 	} catch (error) {
-		return ResponseFormatter.formatError(
-			'lookup_dictionary',
-			error instanceof Error ? error : new Error(String(error))
-		);
+		if (
+			error instanceof EnglishMcpError &&
+			FALLBACK_CODES.includes(error.code)
+		) {
+			return {
+				result: lookupLocalThesaurus(word),
+				source: 'localThesaurus',
+			};
+		}
+		throw error;
 	}
 }
 
-export async function suggestAcademicVocabulary(
+/**
+ * Offline synonym lookup: a cached Merriam-Webster response if there is
+ * one, otherwise the built-in thesaurus
+ */
+export async function getSynonymsAntonymsOffline(
 	word: string
+): Promise<ThesaurusResult> {
+	return (await lookupSynonymsWithFallback(word)).result;
+}
+
+export async function lookupDictionary(
+	word: string
+): Promise<DictionaryResult> {
+	return api.getDictionary(word);
+}
+
+export async function suggestAcademicVocabulary(
+	word: string,
+	lookupSynonyms: (word: string) => Promise<ThesaurusResult> = (word) =>
+		api.getThesaurus(word)
 ): Promise<AcademicVocabularyResult> {
 	if (!word || word.trim().length === 0) {
-		throw new Error('Word cannot be empty');
+		throw new InvalidInputError('Word cannot be empty');
 	}
 
-	try {
-		const thesaurusResult = await api.getThesaurus(word.toLowerCase());
+	const thesaurusResult = await lookupSynonyms(word.toLowerCase());
 
-		if (
-			!thesaurusResult ||
-			!thesaurusResult.entries ||
-			thesaurusResult.entries.length === 0
-		) {
-			return {
-				word,
-				suggestions: [],
-			};
+	if (
+		!thesaurusResult ||
+		!thesaurusResult.entries ||
+		thesaurusResult.entries.length === 0
+	) {
+		return {
+			word,
+			suggestions: [],
+		};
+	}
+
+	const allSynonyms = new Set<string>();
+	thesaurusResult.entries.forEach((entry) => {
+		if (entry.synonyms) {
+			entry.synonyms.forEach((syn) => allSynonyms.add(syn));
 		}
+	});
 
-		const allSynonyms = new Set<string>();
-		thesaurusResult.entries.forEach((entry) => {
-			if (entry.synonyms) {
-				entry.synonyms.forEach((syn) => allSynonyms.add(syn));
-			}
-		});
-
-		const rankedSuggestions = Array.from(allSynonyms)
-			.map((synonym) => ({
-				word: synonym,
-				academicScore: calculateAcademicScore(synonym),
-				definition: '',
-			}))
-			.filter((s) => s.academicScore > 0 && s.word !== word.toLowerCase())
-			.sort((a, b) => b.academicScore - a.academicScore)
-			.slice(0, 10);
-
-		for (const suggestion of rankedSuggestions) {
-			try {
-				const dictResult = await api.getDictionary(suggestion.word);
-				if (
-					dictResult &&
-					dictResult.definitions &&
-					dictResult.definitions.length > 0
-				) {
-					suggestion.definition = dictResult.definitions[0] || '';
-				}
-			} catch {
-				suggestion.definition = 'No definition available';
+	const rankedSuggestions = Array.from(allSynonyms)
+		.map((synonym) => ({
+			word: synonym,
+			academicScore: calculateAcademicScore(synonym),
+			definition: '',
+		}))
+		.filter((s) => s.academicScore > 0 && s.word !== word.toLowerCase())
+		.sort((a, b) => b.academicScore - a.academicScore)
+		.slice(0, 10);
+
+	for (const suggestion of rankedSuggestions) {
+		try {
+			const dictResult = await api.getDictionary(suggestion.word);
+			if (
+				dictResult &&
+				dictResult.definitions &&
+				dictResult.definitions.length > 0
+			) {
+				suggestion.definition = dictResult.definitions[0] || '';
 			}
+		} catch {
+			suggestion.definition = 'No definition available';
 		}
-
-		return {
-			word,
-			suggestions: rankedSuggestions,
-		};
-	} catch (error) {
-		throw new Error(
-			`Academic vocabulary suggestion failed: ${
-				error instanceof Error ? error.message : String(error)
-			}`
-		);
 	}
+
+	return {
+		word,
+		suggestions: rankedSuggestions,
+	};
 }
 
 /**
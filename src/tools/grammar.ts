@@ -1,17 +1,32 @@
 import { SaplingAPI } from '../api/sapling.js';
-import { ResponseFormatter } from '../responses/formatters.js';
-import type { ToolResult } from '../responses/formatters.js';
+import { checkTextLocally } from '../local/grammar.js';
+import type { GrammarCheckResult } from '../types.js';
 
 const api = new SaplingAPI();
 
-export async function checkGrammar(text: string): Promise<ToolResult> {
-	try {
-		const result = await api.checkGrammar(text);
-		return ResponseFormatter.formatGrammarCheck(result);
-	} catch (error) {
-		return ResponseFormatter.formatError(
-			'check_grammar',
-			error instanceof Error ? error : new Error(String(error))
-		);
-	}
+export async function checkGrammar(text: string): Promise<GrammarCheckResult> {
+	return api.checkGrammar(text);
+}
+
+/**
+ * Rule-based check used in offline mode
+ */
+export async function checkGrammarOffline(
+	text: string
+): Promise<GrammarCheckResult> {
+	const issues = checkTextLocally(text);
+
+	return {
+		errorCount: issues.length,
+		suggestions: issues.map((issue) => ({
+			original: text.slice(issue.offset, issue.offset + issue.length),
+			replacement: issue.replacements[0] ?? '',
+			type: issue.rule,
+			category: issue.category,
+			position: {
+				start: issue.offset,
+				end: issue.offset + issue.length,
+			},
+		})),
+	};
 }
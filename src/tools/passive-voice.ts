@@ -0,0 +1,68 @@
+import { findPassiveConstructions } from '../local/passive-voice.js';
+import { InvalidInputError } from '../errors.js';
+import type { PassiveVoiceResult } from '../types.js';
+import { lexiconCount, splitSentences } from '../utils/textstat.js';
+
+/**
+ * Finds sentences in the passive voice and reports their share of the text
+ * against a threshold, with active rewrites where the agent is named.
+ * Fragments of two words or fewer, such as headings, are left out, as the
+ * readability metrics leave them out of the sentence count.
+ */
+export async function detectPassiveVoice(
+	text: string,
+	threshold = 10
+): Promise<PassiveVoiceResult> {
+	if (!text || text.trim().length === 0) {
+		throw new InvalidInputError('Text cannot be empty');
+	}
+
+	const spans = splitSentences(text);
+	const counted = spans.filter((span) => lexiconCount(span.text) > 2);
+	const sentences = counted.length > 0 ? counted : spans;
+	const flaggedSentences: PassiveVoiceResult['flaggedSentences'] = [];
+
+	sentences.forEach((sentence) => {
+		const constructions = findPassiveConstructions(sentence.text);
+		if (constructions.length === 0) {
+			return;
+		}
+
+		const named = constructions.find((construction) => construction.agent);
+		let suggestion: string;
+		if (named?.rewrite) {
+			suggestion = `Lead with the agent: "${named.rewrite}"`;
+		} else if (named?.agent) {
+			suggestion = `Make "${named.agent}" the subject of the sentence.`;
+		} else {
+			suggestion = `Say who or what does the action in "${constructions[0].text}" and make it the subject.`;
+		}
+
+		flaggedSentences.push({
+			sentence: sentence.text,
+			position: sentence.start,
+			constructions: constructions.map(
+				(construction) => construction.text
+			),
+			...(named?.agent && { agent: named.agent }),
+			...(named?.rewrite && { rewrite: named.rewrite }),
+			suggestion,
+		});
+	});
+
+	const totalSentences = sentences.length;
+	const passivePercentage =
+		totalSentences === 0
+			? 0
+			: Math.round((flaggedSentences.length / totalSentences) * 1000) /
+			  10;
+
+	return {
+		passiveCount: flaggedSentences.length,
+		totalSentences,
+		passivePercentage,
+		threshold,
+		exceedsThreshold: passivePercentage > threshold,
+		flaggedSentences,
+	};
+}
@@ -1,101 +1,320 @@
-import { analyzeReadability } from '../utils/textstat.js';
-import { ReadabilityResult } from '../types.js';
+import {
+	analyzeReadability,
+	fleschScores,
+	lexiconCount,
+	splitSentences,
+	syllableCount,
+} from '../utils/textstat.js';
+import type { TextSpan } from '../utils/textstat.js';
+import type {
+	HeatmapParagraph,
+	HeatmapSentence,
+	ReadabilityFactor,
+	ReadabilityHeatmapResult,
+	ReadabilityInput,
+	ReadabilityResult,
+	ReadabilityTargets,
+} from '../types.js';
+import { InvalidInputError } from '../errors.js';
 
-const TARGET_AGE = 17;
-const TARGET_GRADE_MIN = 11;
-const TARGET_GRADE_MAX = 13;
-const TARGET_READING_EASE_MIN = 60;
-const TARGET_READING_EASE_MAX = 70;
+export type ReadabilityAudience = ReadabilityInput['audience'];
+
+/** Words above which a sentence counts as long */
+const LONG_SENTENCE_WORDS = 25;
+
+/** Blocks of text separated by blank lines */
+const PARAGRAPH = /\S(?:[\s\S]*?\S)?(?=\s*\n[ \t]*\n|\s*$)/g;
+
+/**
+ * Readers a text can be checked against, and the scores that suit them
+ */
+export interface AudienceProfile {
+	/** Who the audience is, as used in recommendations */
+	readers: string;
+	targets: ReadabilityTargets;
+}
+
+export const AUDIENCE_PROFILES: Record<ReadabilityAudience, AudienceProfile> = {
+	'middle-school': {
+		readers: 'middle school readers (ages 11-14)',
+		targets: {
+			minGrade: 6,
+			maxGrade: 8,
+			minReadingEase: 70,
+			maxReadingEase: 85,
+			maxDifficultWordRatio: 0.05,
+		},
+	},
+	'high-school': {
+		readers: '17-year-old readers',
+		targets: {
+			minGrade: 11,
+			maxGrade: 13,
+			minReadingEase: 60,
+			maxReadingEase: 70,
+			maxDifficultWordRatio: 0.1,
+		},
+	},
+	undergraduate: {
+		readers: 'undergraduate readers',
+		targets: {
+			minGrade: 13,
+			maxGrade: 16,
+			minReadingEase: 30,
+			maxReadingEase: 55,
+			maxDifficultWordRatio: 0.15,
+		},
+	},
+	'general-adult': {
+		readers: 'general adult readers',
+		targets: {
+			minGrade: 7,
+			maxGrade: 10,
+			minReadingEase: 60,
+			maxReadingEase: 80,
+			maxDifficultWordRatio: 0.08,
+		},
+	},
+};
 
 /**
- * Checks text readability using textstat library via Python
+ * The audience's targets with any custom thresholds applied
+ */
+function resolveTargets(
+	audience: ReadabilityAudience,
+	thresholds: Partial<ReadabilityTargets>
+): ReadabilityTargets {
+	const custom = Object.fromEntries(
+		Object.entries(thresholds).filter(([, value]) => value !== undefined)
+	);
+	const targets = { ...AUDIENCE_PROFILES[audience].targets, ...custom };
+
+	if (targets.minGrade > targets.maxGrade) {
+		throw new InvalidInputError(
+			`minGrade (${targets.minGrade}) is above maxGrade (${targets.maxGrade})`
+		);
+	}
+	if (targets.minReadingEase > targets.maxReadingEase) {
+		throw new InvalidInputError(
+			`minReadingEase (${targets.minReadingEase}) is above maxReadingEase (${targets.maxReadingEase})`
+		);
+	}
+	return targets;
+}
+
+/**
+ * Checks text readability with the textstat-compatible metrics, against the
+ * targets of an audience profile and any custom thresholds
  */
 export async function checkReadability(
-	text: string
+	text: string,
+	audience: ReadabilityAudience = 'high-school',
+	thresholds: Partial<ReadabilityTargets> = {}
 ): Promise<ReadabilityResult> {
 	if (!text || text.trim().length === 0) {
-		throw new Error('Text cannot be empty');
+		throw new InvalidInputError('Text cannot be empty');
 	}
 
-	try {
-		const stats = await analyzeReadability(text);
+	const { readers } = AUDIENCE_PROFILES[audience];
+	const targets = resolveTargets(audience, thresholds);
+	const stats = analyzeReadability(text);
 
-		const gradeLevel = stats.flesch_kincaid_grade;
-		const readingEase = stats.flesch_reading_ease;
+	const gradeLevel = stats.flesch_kincaid_grade;
+	const readingEase = stats.flesch_reading_ease;
+	const tooManyDifficultWords =
+		stats.difficult_words >
+		stats.lexicon_count * targets.maxDifficultWordRatio;
 
-		const ageAppropriate =
-			gradeLevel >= TARGET_GRADE_MIN &&
-			gradeLevel <= TARGET_GRADE_MAX &&
-			readingEase >= TARGET_READING_EASE_MIN;
+	const ageAppropriate =
+		gradeLevel >= targets.minGrade &&
+		gradeLevel <= targets.maxGrade &&
+		readingEase >= targets.minReadingEase &&
+		readingEase <= targets.maxReadingEase &&
+		!tooManyDifficultWords;
 
-		const recommendations: string[] = [];
+	const recommendations: string[] = [];
 
-		if (gradeLevel > TARGET_GRADE_MAX) {
-			recommendations.push(
-				'Text is too complex for 17-year-olds. Simplify sentence structure and use shorter words.'
-			);
-		}
-		if (gradeLevel < TARGET_GRADE_MIN) {
-			recommendations.push(
-				'Text may be too simple. Consider using more sophisticated vocabulary.'
-			);
-		}
-		if (readingEase < TARGET_READING_EASE_MIN) {
-			recommendations.push(
-				'Text is difficult to read. Break long sentences and use simpler words.'
-			);
-		}
-		if (readingEase > TARGET_READING_EASE_MAX) {
-			recommendations.push(
-				'Text is very easy to read. May be appropriate for younger audiences.'
-			);
+	if (gradeLevel > targets.maxGrade) {
+		recommendations.push(
+			`Text is too complex for ${readers}. Simplify sentence structure and use shorter words.`
+		);
+	}
+	if (gradeLevel < targets.minGrade) {
+		recommendations.push(
+			`Text may be too simple for ${readers}. Consider using more sophisticated vocabulary.`
+		);
+	}
+	if (readingEase < targets.minReadingEase) {
+		recommendations.push(
+			'Text is difficult to read. Break long sentences and use simpler words.'
+		);
+	}
+	if (readingEase > targets.maxReadingEase) {
+		recommendations.push(
+			`Text is very easy to read. May be better suited to a younger audience than ${readers}.`
+		);
+	}
+	if (tooManyDifficultWords) {
+		recommendations.push(
+			`High number of difficult words (${stats.difficult_words}). Consider simplifying vocabulary.`
+		);
+	}
+
+	const difficultWords = extractDifficultWords(text);
+
+	return {
+		audience,
+		targets,
+		gradeLevel: Math.round(gradeLevel * 10) / 10,
+		readingEase: Math.round(readingEase * 10) / 10,
+		ageAppropriate,
+		difficultWords: difficultWords.slice(0, 20),
+		readingTimeMinutes: Math.ceil(stats.reading_time / 60),
+		metrics: {
+			fleschKincaidGrade:
+				Math.round(stats.flesch_kincaid_grade * 10) / 10,
+			fleschReadingEase: Math.round(stats.flesch_reading_ease * 10) / 10,
+			smogIndex: Math.round(stats.smog_index * 10) / 10,
+			colemanLiauIndex: Math.round(stats.coleman_liau_index * 10) / 10,
+			automatedReadabilityIndex:
+				Math.round(stats.automated_readability_index * 10) / 10,
+			daleChallReadabilityScore:
+				Math.round(stats.dale_chall_readability_score * 10) / 10,
+			gunningFog: Math.round(stats.gunning_fog * 10) / 10,
+		},
+		recommendations:
+			recommendations.length > 0
+				? recommendations
+				: [`Text is appropriate for ${readers}.`],
+	};
+}
+
+function gradeBand(
+	grade: number,
+	targets: ReadabilityTargets
+): HeatmapSentence['band'] {
+	if (grade > targets.maxGrade) return 'above';
+	if (grade < targets.minGrade) return 'below';
+	return 'within';
+}
+
+/**
+ * What makes a sentence hard to read: its length and its words of three or
+ * more syllables
+ */
+function sentenceFactors(
+	sentence: string,
+	wordCount: number
+): ReadabilityFactor[] {
+	const factors: ReadabilityFactor[] = [];
+	if (wordCount > LONG_SENTENCE_WORDS) {
+		factors.push({
+			type: 'long_sentence',
+			description: `${wordCount} words (over ${LONG_SENTENCE_WORDS})`,
+		});
+	}
+
+	const words = sentence.match(/[\p{L}\p{M}'’-]+/gu) ?? [];
+	const polysyllabic = [
+		...new Set(words.filter((word) => syllableCount(word) >= 3)),
+	];
+	if (polysyllabic.length > 0) {
+		factors.push({
+			type: 'polysyllabic_words',
+			description: `${polysyllabic.length} word${
+				polysyllabic.length === 1 ? '' : 's'
+			} of three or more syllables`,
+			words: polysyllabic,
+		});
+	}
+	return factors;
+}
+
+/**
+ * Scores each paragraph and sentence of a text against an audience and any
+ * custom thresholds, with character offsets into the text, so writers can
+ * see which parts raise its grade. Sentence fragments of two words or
+ * fewer, such as headings, are not scored.
+ */
+export async function readabilityHeatmap(
+	text: string,
+	audience: ReadabilityAudience = 'high-school',
+	limit = 5,
+	thresholds: Partial<ReadabilityTargets> = {}
+): Promise<ReadabilityHeatmapResult> {
+	if (!text || text.trim().length === 0) {
+		throw new InvalidInputError('Text cannot be empty');
+	}
+
+	const targets = resolveTargets(audience, thresholds);
+	const round = (value: number) => Math.round(value * 10) / 10;
+	const paragraphSpans: TextSpan[] = Array.from(
+		text.matchAll(PARAGRAPH),
+		(match) => {
+			const start = match.index ?? 0;
+			return { text: match[0], start, end: start + match[0].length };
 		}
-		if (stats.difficult_words > text.split(/\s+/).length * 0.1) {
-			recommendations.push(
-				`High number of difficult words (${stats.difficult_words}). Consider simplifying vocabulary.`
-			);
+	);
+
+	const sentences: HeatmapSentence[] = [];
+	const paragraphs: HeatmapParagraph[] = paragraphSpans.map(
+		(paragraph, paragraphIndex) => {
+			const scored = splitSentences(paragraph.text)
+				.map((sentence) => ({
+					sentence,
+					wordCount: lexiconCount(sentence.text),
+				}))
+				.filter(({ wordCount }) => wordCount > 2);
+
+			scored.forEach(({ sentence, wordCount }) => {
+				const { grade, readingEase } = fleschScores(sentence.text);
+				sentences.push({
+					index: sentences.length,
+					paragraph: paragraphIndex,
+					start: paragraph.start + sentence.start,
+					end: paragraph.start + sentence.end,
+					text: sentence.text,
+					wordCount,
+					gradeLevel: round(grade),
+					readingEase: round(readingEase),
+					band: gradeBand(grade, targets),
+					factors: sentenceFactors(sentence.text, wordCount),
+				});
+			});
+
+			const { grade, readingEase } = fleschScores(paragraph.text);
+			return {
+				index: paragraphIndex,
+				start: paragraph.start,
+				end: paragraph.end,
+				sentenceCount: scored.length,
+				wordCount: lexiconCount(paragraph.text),
+				gradeLevel: round(grade),
+				readingEase: round(readingEase),
+				band: gradeBand(grade, targets),
+			};
 		}
+	);
 
-		const difficultWords = extractDifficultWords(text);
-
-		return {
-			gradeLevel: Math.round(gradeLevel * 10) / 10,
-			readingEase: Math.round(readingEase * 10) / 10,
-			ageAppropriate,
-			difficultWords: difficultWords.slice(0, 20),
-			readingTimeMinutes: Math.ceil(stats.reading_time / 60),
-			metrics: {
-				fleschKincaidGrade:
-					Math.round(stats.flesch_kincaid_grade * 10) / 10,
-				fleschReadingEase:
-					Math.round(stats.flesch_reading_ease * 10) / 10,
-				smogIndex: Math.round(stats.smog_index * 10) / 10,
-				colemanLiauIndex:
-					Math.round(stats.coleman_liau_index * 10) / 10,
-				automatedReadabilityIndex:
-					Math.round(stats.automated_readability_index * 10) / 10,
-				daleChallReadabilityScore:
-					Math.round(stats.dale_chall_readability_score * 10) / 10,
-				gunningFog: Math.round(stats.gunning_fog * 10) / 10,
-			},
-			recommendations:
-				recommendations.length > 0
-					? recommendations
-					: ['Text is appropriate for 17-year-old readers.'],
-		};
-	} catch (error) {
-		throw new Error(
-			`Failed to analyze readability: ${
-				error instanceof Error ? error.message : 'Unknown error'
-			}`
-		);
-	}
+	const overall = fleschScores(text);
+	return {
+		audience,
+		targets,
+		gradeLevel: round(overall.grade),
+		readingEase: round(overall.readingEase),
+		paragraphs,
+		sentences,
+		hardestSentences: [...sentences]
+			.sort((a, b) => b.gradeLevel - a.gradeLevel)
+			.slice(0, limit),
+	};
 }
 
 /**
- * Extracts difficult words from text (3+ syllables, not common)
+ * Extracts difficult words from text (3+ syllables, not common), most
+ * syllables first
  */
-function extractDifficultWords(text: string): string[] {
+export function extractDifficultWords(text: string): string[] {
 	const words = text.toLowerCase().match(/\b[a-z]+\b/g) || [];
 	const uniqueWords = [...new Set(words)];
 
@@ -152,21 +371,7 @@ function extractDifficultWords(text: string): string[] {
 		.filter((word) => {
 			if (word.length < 4) return false;
 			if (commonWords.has(word)) return false;
-			return countSyllables(word) >= 3;
+			return syllableCount(word) >= 3;
 		})
-		.sort((a, b) => countSyllables(b) - countSyllables(a));
-}
-
-/**
- * Counts syllables in a word
- */
-function countSyllables(word: string): number {
-	word = word.toLowerCase();
-	if (word.length <= 3) return 1;
-
-	word = word.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '');
-	word = word.replace(/^y/, '');
-
-	const matches = word.match(/[aeiouy]{1,2}/g);
-	return matches ? matches.length : 1;
+		.sort((a, b) => syllableCount(b) - syllableCount(a));
 }
@@ -0,0 +1,255 @@
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { z } from 'zod';
+import type { Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { config, hasCredential } from '../config.js';
+import {
+	describeZodIssues,
+	InternalError,
+	InvalidInputError,
+	MissingCredentialError,
+	OfflineError,
+} from '../errors.js';
+import type { ProviderId } from '../config.js';
+import { ResponseFormatter } from '../responses/formatters.js';
+import type { ToolResult } from '../responses/formatters.js';
+import type { ToolModeSchema } from '../types.js';
+import { currentContext, runWithContext } from '../utils/request-context.js';
+import { usageStore } from '../utils/usage.js';
+
+/**
+ * A single tool: everything needed to list it and to dispatch calls to it.
+ * The handler's return value is validated against `outputSchema` and sent as
+ * structuredContent, with `summarize` providing the human-readable text.
+ */
+export interface ToolDefinition<
+	S extends z.ZodTypeAny = z.ZodTypeAny,
+	O extends z.AnyZodObject = z.AnyZodObject
+> {
+	name: string;
+	description: string;
+	/** Upstream service the tool calls; omitted for tools that run locally */
+	provider?: ProviderId;
+	/** Environment variable names of credentials the tool cannot run without */
+	credentials?: string[];
+	/** Behavior hints; readOnlyHint and openWorldHint are filled in if absent */
+	annotations?: ToolAnnotations;
+	inputSchema: S;
+	outputSchema: O;
+	handler(args: z.infer<S>): Promise<z.input<O>>;
+	/** Local implementation used instead of `handler` in offline mode */
+	offlineHandler?(args: z.infer<S>): Promise<z.input<O>>;
+	summarize(result: z.infer<O>): string;
+}
+
+/**
+ * How a tool currently runs: against its upstream API ('online'), without
+ * one at all ('local'), or in offline mode through a local implementation
+ * ('fallback'), from cached responses only ('cached'), or not at all
+ */
+export type ToolMode = z.infer<typeof ToolModeSchema>;
+
+const OFFLINE_LABELS: Partial<Record<ToolMode, string>> = {
+	fallback: '[OFFLINE: local fallback]',
+	cached: '[OFFLINE: cached results only]',
+	unavailable: '[UNAVAILABLE OFFLINE]',
+};
+
+/**
+ * Helper that keeps the handler and summary types tied to their schemas
+ */
+export function defineTool<S extends z.ZodTypeAny, O extends z.AnyZodObject>(
+	definition: ToolDefinition<S, O>
+): ToolDefinition {
+	return definition;
+}
+
+/**
+ * Holds tool definitions and produces both the tool list and the dispatch
+ */
+export class ToolRegistry {
+	private tools = new Map<string, ToolDefinition>();
+
+	constructor(definitions: ToolDefinition[] = []) {
+		definitions.forEach((definition) => this.register(definition));
+	}
+
+	register(definition: ToolDefinition): void {
+		if (this.tools.has(definition.name)) {
+			throw new Error(`Tool already registered: ${definition.name}`);
+		}
+		this.tools.set(definition.name, definition);
+	}
+
+	has(name: string): boolean {
+		return this.tools.has(name);
+	}
+
+	definition(name: string): ToolDefinition | undefined {
+		return this.tools.get(name);
+	}
+
+	/**
+	 * Tool descriptors for the ListTools response. Tools missing credentials
+	 * are omitted, or listed with a warning when configured to flag them.
+	 */
+	list(): Tool[] {
+		return this.definitions().map((definition) =>
+			this.describe(definition)
+		);
+	}
+
+	/**
+	 * Definitions of the tools that are listed
+	 */
+	definitions(): ToolDefinition[] {
+		return Array.from(this.tools.values()).filter(
+			(definition) =>
+				config.server.unavailableTools === 'flag' ||
+				(missingToolCredentials(definition).length === 0 &&
+					toolMode(definition) !== 'unavailable')
+		);
+	}
+
+	/**
+	 * Description of a tool with any offline or missing-credential labels
+	 */
+	labeledDescription(definition: ToolDefinition): string {
+		const missing = missingToolCredentials(definition);
+		const labels = [
+			OFFLINE_LABELS[toolMode(definition)],
+			missing.length > 0 && `[UNAVAILABLE: set ${missing.join(', ')}]`,
+		].filter(Boolean);
+		return [...labels, definition.description].join(' ');
+	}
+
+	private describe(definition: ToolDefinition): Tool {
+		const missing = missingToolCredentials(definition);
+		const mode = toolMode(definition);
+
+		return {
+			name: definition.name,
+			description: this.labeledDescription(definition),
+			annotations: {
+				readOnlyHint: true,
+				openWorldHint: definition.provider !== undefined,
+				...definition.annotations,
+				requiredCredentials: definition.credentials || [],
+				available: missing.length === 0 && mode !== 'unavailable',
+				mode,
+			},
+			inputSchema: zodToJsonSchema(
+				definition.inputSchema
+			) as Tool['inputSchema'],
+			outputSchema: zodToJsonSchema(definition.outputSchema, {
+				$refStrategy: 'none',
+			}) as Tool['outputSchema'],
+		};
+	}
+
+	/**
+	 * Validate arguments, run the handler and wrap its output
+	 */
+	async call(name: string, args: unknown): Promise<ToolResult> {
+		try {
+			const { result, summary } = await this.run(name, args);
+			return ResponseFormatter.formatStructured(result, summary);
+		} catch (error) {
+			return ResponseFormatter.formatError(name, error);
+		}
+	}
+
+	/**
+	 * Validate arguments and run the handler, returning its validated output
+	 * and summary. Failures are thrown rather than formatted.
+	 */
+	async run(
+		name: string,
+		args: unknown
+	): Promise<{ result: Record<string, unknown>; summary: string }> {
+		const definition = this.tools.get(name);
+		if (!definition) {
+			throw new InvalidInputError(`Unknown tool: ${name}`);
+		}
+
+		const mode = toolMode(definition);
+		if (mode === 'unavailable') {
+			throw new OfflineError(definition.provider);
+		}
+
+		const missing = missingToolCredentials(definition);
+		if (missing.length > 0) {
+			throw new MissingCredentialError(missing, definition.provider);
+		}
+
+		const input = definition.inputSchema.safeParse(args ?? {});
+		if (!input.success) {
+			throw new InvalidInputError(
+				describeZodIssues(input.error, 'input'),
+				{ details: { issues: input.error.issues } }
+			);
+		}
+		const params = input.data;
+		let failed = true;
+		try {
+			const output = await runWithContext(
+				{ ...currentContext(), tool: name },
+				() =>
+					mode === 'fallback' && definition.offlineHandler
+						? definition.offlineHandler(params)
+						: definition.handler(params)
+			);
+			// Output that fails its schema is a bug in the tool, not the input
+			const parsed = definition.outputSchema.safeParse(output);
+			if (!parsed.success) {
+				throw new InternalError(
+					`Tool ${name} returned output that does not match its schema: ${describeZodIssues(
+						parsed.error,
+						'output'
+					)}`,
+					{ details: { issues: parsed.error.issues } }
+				);
+			}
+			failed = false;
+			return {
+				result: parsed.data,
+				summary: definition.summarize(parsed.data),
+			};
+		} finally {
+			void usageStore.recordToolCall(name, failed);
+		}
+	}
+}
+
+/**
+ * Credentials a tool requires that are not configured. Local fallbacks
+ * need none.
+ */
+export function missingToolCredentials(definition: ToolDefinition): string[] {
+	if (toolMode(definition) === 'fallback') {
+		return [];
+	}
+	return (definition.credentials || []).filter(
+		(name) => !hasCredential(name)
+	);
+}
+
+/**
+ * Current mode of a tool. In offline mode, tools without a local fallback
+ * can still answer from the response cache if their provider's responses
+ * are cached at all.
+ */
+export function toolMode(definition: ToolDefinition): ToolMode {
+	if (!definition.provider) {
+		return 'local';
+	}
+	if (!config.server.offline) {
+		return 'online';
+	}
+	if (definition.offlineHandler) {
+		return 'fallback';
+	}
+	return config.cache.enabled &&
+		config[definition.provider].cacheTtlSeconds > 0
+		? 'cached'
+		: 'unavailable';
+}
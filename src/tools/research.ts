@@ -4,22 +4,54 @@ import { QuotableClient } from '../api/quotable.js';
 import { DatamuseClient } from '../api/datamuse.js';
 import { WordnikClient } from '../api/wordnik.js';
 import { LanguageToolClient } from '../api/languagetool.js';
+import { config } from '../config.js';
+import { InvalidInputError, MissingCredentialError } from '../errors.js';
+import { checkTextLocally, issueContext } from '../local/grammar.js';
+import { LruMap } from '../utils/lru.js';
+import type {
+	PaperSearchResult,
+	PaperDetailsResult,
+	WikipediaArticlesResult,
+	WikipediaSummaryResult,
+	QuoteSearchResult,
+	QuoteResult,
+	WordRelationshipResult,
+	AdvancedGrammarResult,
+	WordDetailsResult,
+	WordOfTheDayResult,
+} from '../types.js';
 
-const semanticScholar = new SemanticScholarClient();
+const semanticScholar = new SemanticScholarClient({
+	apiKey: config.semanticScholar.apiKey || undefined,
+});
 const wikipedia = new WikipediaClient();
 const quotable = new QuotableClient();
 const datamuse = new DatamuseClient();
 const languageTool = new LanguageToolClient();
 
-let wordnik: WordnikClient | null = null;
+let wordnik: WordnikClient | null = config.wordnik.apiKey
+	? new WordnikClient({ apiKey: config.wordnik.apiKey })
+	: null;
 
 /**
- * Initialize Wordnik client with API key from environment
+ * Wikipedia summaries fetched recently during this session, keyed by title
+ */
+const wikipediaSummaries = new LruMap<string, WikipediaSummaryResult>(100);
+
+/**
+ * Initialize Wordnik client with a different API key than the configured one
  */
 export function initializeWordnik(apiKey: string) {
 	wordnik = new WordnikClient({ apiKey });
 }
 
+/**
+ * Whether Wordnik-backed features are available
+ */
+export function isWordnikConfigured(): boolean {
+	return wordnik !== null;
+}
+
 /**
  * Search academic papers using Semantic Scholar
  */
@@ -27,7 +59,7 @@ export async function searchAcademicPapers(params: {
 	query: string;
 	year?: string;
 	limit?: number;
-}) {
+}): Promise<PaperSearchResult> {
 	const { query, year, limit = 10 } = params;
 
 	const results = await semanticScholar.searchPapers({
@@ -70,7 +102,9 @@ export async function searchAcademicPapers(params: {
 /**
  * Get paper metadata and citations
  */
-export async function getPaperDetails(paperId: string) {
+export async function getPaperDetails(
+	paperId: string
+): Promise<PaperDetailsResult> {
 	const paper = await semanticScholar.getPaper(paperId, [
 		'title',
 		'authors',
@@ -124,7 +158,10 @@ export async function getPaperDetails(paperId: string) {
 /**
  * Search Wikipedia articles
  */
-export async function searchWikipedia(query: string, limit: number = 5) {
+export async function searchWikipedia(
+	query: string,
+	limit: number = 5
+): Promise<WikipediaArticlesResult> {
 	const results = await wikipedia.searchWithSummaries(query, limit);
 
 	return {
@@ -142,14 +179,31 @@ export async function searchWikipedia(query: string, limit: number = 5) {
 /**
  * Get Wikipedia article summary
  */
-export async function getWikipediaSummary(title: string) {
-	const article = await wikipedia.getSummary(title);
+export async function getWikipediaSummary(
+	title: string
+): Promise<WikipediaSummaryResult> {
+	const cached = wikipediaSummaries.get(title);
+	if (cached) {
+		return cached;
+	}
 
-	return {
+	const article = await wikipedia.getSummary(title);
+	const summary = {
 		title: article.title,
 		summary: article.extract,
 		url: article.fullurl,
 	};
+
+	wikipediaSummaries.set(title, summary);
+	wikipediaSummaries.set(article.title, summary);
+	return summary;
+}
+
+/**
+ * Wikipedia summaries fetched most recently this session
+ */
+export function listCachedWikipediaSummaries(): WikipediaSummaryResult[] {
+	return [...new Set(wikipediaSummaries.values())];
 }
 
 /**
@@ -160,7 +214,7 @@ export async function searchQuotes(params: {
 	author?: string;
 	tags?: string[];
 	limit?: number;
-}) {
+}): Promise<QuoteSearchResult> {
 	const { query, author, tags, limit = 10 } = params;
 
 	if (!query && !author && !tags) {
@@ -196,7 +250,9 @@ export async function searchQuotes(params: {
 /**
  * Get random inspirational quote
  */
-export async function getRandomQuote(params?: { tags?: string[] }) {
+export async function getRandomQuote(params?: {
+	tags?: string[];
+}): Promise<QuoteResult> {
 	const quote = await quotable.getRandomQuote(params);
 
 	return {
@@ -219,7 +275,7 @@ export async function findWordRelationships(params: {
 		| 'similar-meaning'
 		| 'sounds-like';
 	limit?: number;
-}) {
+}): Promise<WordRelationshipResult> {
 	const { word, type, limit = 10 } = params;
 
 	let results;
@@ -240,7 +296,7 @@ export async function findWordRelationships(params: {
 			results = await datamuse.findSoundsLike(word, limit);
 			break;
 		default:
-			throw new Error(`Unknown relationship type: ${type}`);
+			throw new InvalidInputError(`Unknown relationship type: ${type}`);
 	}
 
 	return {
@@ -257,7 +313,9 @@ export async function findWordRelationships(params: {
 /**
  * Advanced grammar and style check using LanguageTool
  */
-export async function checkGrammarAdvanced(text: string) {
+export async function checkGrammarAdvanced(
+	text: string
+): Promise<AdvancedGrammarResult> {
 	const result = await languageTool.checkWithCategories(text);
 
 	return {
@@ -295,14 +353,49 @@ export async function checkGrammarAdvanced(text: string) {
 	};
 }
 
+/**
+ * Rule-based check used in offline mode, grouped like LanguageTool's
+ */
+export async function checkGrammarAdvancedOffline(
+	text: string
+): Promise<AdvancedGrammarResult> {
+	const issues = checkTextLocally(text).map((issue) => ({
+		category: issue.category,
+		rule: issue.description,
+		message: issue.message,
+		context: issueContext(text, issue),
+		offset: issue.offset,
+		length: issue.length,
+		suggestions: issue.replacements,
+	}));
+	const byCategory = (category: string) =>
+		issues
+			.filter((issue) => issue.category === category)
+			.map(({ category, rule, ...issue }) => issue);
+	const grammar = issues
+		.filter((issue) => issue.category === 'grammar')
+		.map(({ category, ...issue }) => issue);
+	const spelling = byCategory('spelling');
+	const style = byCategory('style');
+
+	return {
+		totalErrors: issues.length,
+		summary: {
+			grammar: grammar.length,
+			spelling: spelling.length,
+			style: style.length,
+			other: 0,
+		},
+		issues: { grammar, spelling, style },
+	};
+}
+
 /**
  * Get comprehensive word information from Wordnik
  */
-export async function getWordDetails(word: string) {
+export async function getWordDetails(word: string): Promise<WordDetailsResult> {
 	if (!wordnik) {
-		throw new Error(
-			'Wordnik API key not configured. Set WORDNIK_API_KEY environment variable.'
-		);
+		throw new MissingCredentialError(['WORDNIK_API_KEY'], 'wordnik');
 	}
 
 	const [definitions, examples, relatedWords, pronunciations] =
@@ -334,9 +427,9 @@ export async function getWordDetails(word: string) {
 /**
  * Get word of the day from Wordnik
  */
-export async function getWordOfTheDay() {
+export async function getWordOfTheDay(): Promise<WordOfTheDayResult> {
 	if (!wordnik) {
-		throw new Error('Wordnik API key not configured');
+		throw new MissingCredentialError(['WORDNIK_API_KEY'], 'wordnik');
 	}
 
 	const wotd = await wordnik.getWordOfTheDay();
@@ -351,3 +444,30 @@ export async function getWordOfTheDay() {
 		note: wotd.note,
 	};
 }
+
+/**
+ * Words starting with (or spelled close to) a prefix, for completion
+ */
+export async function suggestWords(prefix: string): Promise<string[]> {
+	const suggestions = await datamuse.suggest(prefix, 20);
+	return suggestions.map((suggestion) => suggestion.word);
+}
+
+/**
+ * Titles of Wikipedia articles matching a prefix, for completion
+ */
+export async function suggestWikipediaTitles(
+	prefix: string
+): Promise<string[]> {
+	return wikipedia.search(prefix, 20);
+}
+
+/**
+ * Every Quotable tag, most used first
+ */
+export async function listQuoteTags(): Promise<string[]> {
+	const tags = await quotable.listTags();
+	return [...tags]
+		.sort((a, b) => b.quoteCount - a.quoteCount)
+		.map((tag) => tag.name);
+}
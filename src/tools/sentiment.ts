@@ -1,17 +1,20 @@
 import { SaplingAPI } from '../api/sapling.js';
-import { ResponseFormatter } from '../responses/formatters.js';
-import type { ToolResult } from '../responses/formatters.js';
+import { analyzeSentimentLocally } from '../local/tone.js';
+import type { SentimentAnalysisResult } from '../types.js';
 
 const api = new SaplingAPI();
 
-export async function analyzeSentiment(text: string): Promise<ToolResult> {
-	try {
-		const result = await api.analyzeSentiment(text);
-		return ResponseFormatter.formatSentimentAnalysis(result);
-	} catch (error) {
-		return ResponseFormatter.formatError(
-			'analyze_sentiment',
-			error instanceof Error ? error : new Error(String(error))
-		);
-	}
+export async function analyzeSentiment(
+	text: string
+): Promise<SentimentAnalysisResult> {
+	return api.analyzeSentiment(text);
+}
+
+/**
+ * Heuristic estimate used in offline mode
+ */
+export async function analyzeSentimentOffline(
+	text: string
+): Promise<SentimentAnalysisResult> {
+	return analyzeSentimentLocally(text);
 }
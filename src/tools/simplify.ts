@@ -0,0 +1,257 @@
+import { DatamuseClient, wordFrequency } from '../api/datamuse.js';
+import type { DatamuseWord } from '../api/datamuse.js';
+import {
+	CancelledError,
+	EnglishMcpError,
+	InvalidInputError,
+	NotFoundError,
+} from '../errors.js';
+import type { SimplifyVocabularyResult } from '../types.js';
+import {
+	fleschScores,
+	splitSentences,
+	syllableCount,
+} from '../utils/textstat.js';
+import { lookupSynonymsWithFallback } from './dictionary.js';
+import { extractDifficultWords } from './readability.js';
+
+const datamuse = new DatamuseClient();
+
+/** Synonyms asked of Datamuse per word, before filtering */
+const DATAMUSE_CANDIDATES = 20;
+
+/** Alternatives kept per word */
+const MAX_SUGGESTIONS = 5;
+
+/** Words looked up at once, each asking every source */
+const CONCURRENT_WORDS = 4;
+
+type Suggestion =
+	SimplifyVocabularyResult['words'][number]['suggestions'][number];
+
+/**
+ * Where alternatives come from. Without Datamuse, as offline, suggestions
+ * come from the thesaurus alone and carry no frequency. The thesaurus
+ * reports which one answered, so each suggestion names its source.
+ */
+export interface SynonymSources {
+	datamuse?: (word: string) => Promise<DatamuseWord[]>;
+	thesaurus: typeof lookupSynonymsWithFallback;
+}
+
+const ONLINE_SOURCES: SynonymSources = {
+	datamuse: (word) => datamuse.findSynonyms(word, DATAMUSE_CANDIDATES, true),
+	thesaurus: lookupSynonymsWithFallback,
+};
+
+/**
+ * A lookup's results, or none when the source does not know the word
+ */
+async function orNone<T>(lookup: Promise<T[]>): Promise<T[]> {
+	try {
+		return await lookup;
+	} catch (error) {
+		if (error instanceof NotFoundError) {
+			return [];
+		}
+		throw error;
+	}
+}
+
+/**
+ * Map items with at most `limit` calls in flight, keeping their order
+ */
+async function mapConcurrently<T, R>(
+	items: T[],
+	limit: number,
+	map: (item: T) => Promise<R>
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await map(items[index]);
+		}
+	};
+	await Promise.all(
+		Array.from({ length: Math.min(limit, items.length) }, worker)
+	);
+	return results;
+}
+
+function wordPattern(word: string): RegExp {
+	return new RegExp(`\\b${word}\\b`, 'gi');
+}
+
+/**
+ * Alternatives to a word with fewer syllables, shortest first and then the
+ * most frequent in Datamuse's corpus. A provider that fails leaves the
+ * other source's alternatives; the word fails only when both do, or when
+ * cancelled.
+ */
+async function findSimplerWords(
+	word: string,
+	syllables: number,
+	sources: SynonymSources
+): Promise<Suggestion[]> {
+	const lookups = await Promise.allSettled([
+		sources.datamuse ? orNone(sources.datamuse(word)) : [],
+		orNone(
+			sources
+				.thesaurus(word)
+				.then(({ result, source }) =>
+					result.entries.flatMap((entry) =>
+						entry.synonyms.map((synonym) => ({ synonym, source }))
+					)
+				)
+		),
+	]);
+	const failures = lookups.flatMap((lookup) =>
+		lookup.status === 'rejected' ? [lookup.reason] : []
+	);
+	const fatal = failures.find(
+		(error) =>
+			error instanceof CancelledError ||
+			!(error instanceof EnglishMcpError)
+	);
+	if (fatal || failures.length === lookups.length) {
+		throw fatal ?? failures[0];
+	}
+	const [related, synonyms] = [
+		lookups[0].status === 'fulfilled' ? lookups[0].value : [],
+		lookups[1].status === 'fulfilled' ? lookups[1].value : [],
+	];
+
+	const candidates = new Map<string, Suggestion>();
+	const add = (
+		candidate: string,
+		source: Suggestion['sources'][number],
+		frequency?: number
+	) => {
+		const lower = candidate.toLowerCase();
+		if (!/^[a-z]+$/.test(lower) || lower === word) {
+			return;
+		}
+		const suggestion = candidates.get(lower) ?? {
+			word: lower,
+			syllables: syllableCount(lower),
+			frequency: null,
+			sources: [],
+		};
+		if (!suggestion.sources.includes(source)) {
+			suggestion.sources.push(source);
+		}
+		suggestion.frequency = frequency ?? suggestion.frequency;
+		candidates.set(lower, suggestion);
+	};
+	related.forEach((entry) =>
+		add(entry.word, 'datamuse', wordFrequency(entry))
+	);
+	synonyms.forEach(({ synonym, source }) => add(synonym, source));
+
+	return [...candidates.values()]
+		.filter((suggestion) => suggestion.syllables < syllables)
+		.sort(
+			(a, b) =>
+				a.syllables - b.syllables ||
+				(b.frequency ?? -1) - (a.frequency ?? -1) ||
+				b.sources.length - a.sources.length
+		)
+		.slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * A replacement cased like the word it replaces
+ */
+function matchCase(original: string, replacement: string): string {
+	if (original.length > 1 && original === original.toUpperCase()) {
+		return replacement.toUpperCase();
+	}
+	if (original[0] === original[0].toUpperCase()) {
+		return replacement[0].toUpperCase() + replacement.slice(1);
+	}
+	return replacement;
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * Simpler, more common alternatives for the text's most difficult words,
+ * with the readability the text would have if the best of each were used
+ */
+export async function simplifyVocabulary(
+	text: string,
+	limit = 10,
+	sources: SynonymSources = ONLINE_SOURCES
+): Promise<SimplifyVocabularyResult> {
+	if (!text || text.trim().length === 0) {
+		throw new InvalidInputError('Text cannot be empty');
+	}
+
+	const sentences = splitSentences(text);
+	const difficultWords = extractDifficultWords(text).slice(0, limit);
+
+	const words = await mapConcurrently(
+		difficultWords,
+		CONCURRENT_WORDS,
+		async (word) => {
+			const syllables = syllableCount(word);
+			const offset = text.search(wordPattern(word));
+			const sentence = sentences.find(
+				(candidate) =>
+					candidate.start <= offset && offset < candidate.end
+			);
+			return {
+				word,
+				syllables,
+				occurrences: text.match(wordPattern(word))?.length ?? 0,
+				context: sentence?.text ?? text.trim(),
+				position: sentence?.start ?? 0,
+				suggestions: await findSimplerWords(word, syllables, sources),
+			};
+		}
+	);
+
+	let simplifiedText = text;
+	words.forEach(({ word, suggestions }) => {
+		if (suggestions.length > 0) {
+			simplifiedText = simplifiedText.replace(
+				wordPattern(word),
+				(match) => matchCase(match, suggestions[0].word)
+			);
+		}
+	});
+
+	const before = fleschScores(text);
+	const after = fleschScores(simplifiedText);
+
+	return {
+		words,
+		readability: {
+			before: {
+				gradeLevel: before.grade,
+				readingEase: before.readingEase,
+			},
+			after: { gradeLevel: after.grade, readingEase: after.readingEase },
+			gradeLevelChange: round(after.grade - before.grade),
+			readingEaseChange: round(after.readingEase - before.readingEase),
+		},
+		simplifiedText,
+	};
+}
+
+/**
+ * simplifyVocabulary without Datamuse, drawing on cached Merriam-Webster
+ * responses or the built-in thesaurus
+ */
+export async function simplifyVocabularyOffline(
+	text: string,
+	limit = 10
+): Promise<SimplifyVocabularyResult> {
+	return simplifyVocabulary(text, limit, {
+		thesaurus: lookupSynonymsWithFallback,
+	});
+}
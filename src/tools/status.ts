@@ -0,0 +1,104 @@
+import {
+	config,
+	configFile,
+	isToolEnabled,
+	missingCredentials,
+	providerTimeout,
+	validateConfig,
+	PROVIDER_NAMES,
+} from '../config.js';
+import type { ProviderId } from '../config.js';
+import { missingToolCredentials, toolMode } from './registry.js';
+import type { ToolDefinition } from './registry.js';
+import { responseCache } from '../utils/cache.js';
+import { circuitBreaker } from '../utils/circuit-breaker.js';
+import { proxyDispatcher } from '../utils/proxy.js';
+import type { ServerStatusResult } from '../types.js';
+
+/**
+ * Try to reach a provider's base URL. Any HTTP response counts as reachable;
+ * only network failures and timeouts do not.
+ */
+async function probe(
+	provider: ProviderId
+): Promise<{ reachable: boolean; latencyMs?: number; error?: string }> {
+	const url = config[provider].baseUrl;
+	const dispatcher = proxyDispatcher(url, provider);
+	const started = Date.now();
+	try {
+		const response = await fetch(url, {
+			signal: AbortSignal.timeout(providerTimeout(provider)),
+			...(dispatcher && { dispatcher }),
+		} as RequestInit);
+		await response.body?.cancel();
+		return { reachable: true, latencyMs: Date.now() - started };
+	} catch (error) {
+		return {
+			reachable: false,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+/**
+ * Report which providers are configured (and optionally reachable), how
+ * each tool runs, which tools are disabled or unavailable, and any
+ * configuration problems. Nothing is probed in offline mode.
+ */
+export async function getServerStatus(
+	tools: ToolDefinition[],
+	checkReachability: boolean
+): Promise<ServerStatusResult> {
+	const providerIds = Object.keys(PROVIDER_NAMES) as ProviderId[];
+
+	const providers = await Promise.all(
+		providerIds.map(async (id) => {
+			const missing = missingCredentials(id);
+			const reachability =
+				checkReachability && !config.server.offline
+					? await probe(id)
+					: { reachable: null };
+
+			return {
+				id,
+				name: PROVIDER_NAMES[id],
+				configured: missing.length === 0,
+				missingCredentials: missing,
+				baseUrl: config[id].baseUrl,
+				...reachability,
+				circuit: circuitBreaker(id).state(),
+				tools: tools
+					.filter((tool) => tool.provider === id)
+					.map((tool) => tool.name),
+			};
+		})
+	);
+
+	const enabledTools = tools.filter((tool) => isToolEnabled(tool.name));
+
+	return {
+		configFile,
+		offline: config.server.offline,
+		providers,
+		tools: enabledTools.map((tool) => ({
+			name: tool.name,
+			mode: toolMode(tool),
+		})),
+		disabledTools: tools
+			.map((tool) => tool.name)
+			.filter((name) => !isToolEnabled(name)),
+		unavailableTools: enabledTools
+			.filter(
+				(tool) =>
+					missingToolCredentials(tool).length > 0 ||
+					toolMode(tool) === 'unavailable'
+			)
+			.map((tool) => tool.name),
+		cache: {
+			enabled: config.cache.enabled,
+			directory: responseCache.getDirectory(),
+			...(await responseCache.stats()),
+		},
+		problems: validateConfig(tools.map((tool) => tool.name)),
+	};
+}
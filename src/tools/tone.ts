@@ -1,17 +1,18 @@
 import { SaplingAPI } from '../api/sapling.js';
-import { ResponseFormatter } from '../responses/formatters.js';
-import type { ToolResult } from '../responses/formatters.js';
+import { analyzeToneLocally } from '../local/tone.js';
+import type { ToneAnalysisResult } from '../types.js';
 
 const api = new SaplingAPI();
 
-export async function analyzeTone(text: string): Promise<ToolResult> {
-	try {
-		const result = await api.analyzeTone(text);
-		return ResponseFormatter.formatToneAnalysis(result);
-	} catch (error) {
-		return ResponseFormatter.formatError(
-			'analyze_tone',
-			error instanceof Error ? error : new Error(String(error))
-		);
-	}
+export async function analyzeTone(text: string): Promise<ToneAnalysisResult> {
+	return api.analyzeTone(text);
+}
+
+/**
+ * Heuristic estimate used in offline mode
+ */
+export async function analyzeToneOffline(
+	text: string
+): Promise<ToneAnalysisResult> {
+	return analyzeToneLocally(text);
 }
@@ -0,0 +1,10 @@
+import { usageStore } from '../utils/usage.js';
+import type { UsageReportResult } from '../types.js';
+
+/**
+ * Upstream requests and tool calls over the last few days, and how much of
+ * each provider's daily budget is left
+ */
+export async function getUsageReport(days: number): Promise<UsageReportResult> {
+	return usageStore.report(days);
+}
@@ -0,0 +1,215 @@
+import { createServer as createHttpServer } from 'http';
+import type {
+	IncomingMessage,
+	Server as HttpServer,
+	ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../server.js';
+import {
+	allowedHosts,
+	PayloadTooLargeError,
+	readJsonBody,
+	rejectedOrigin,
+	requestUrl,
+} from './request.js';
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+export interface HttpServerOptions {
+	host: string;
+	port: number;
+}
+
+/**
+ * Serve MCP over Streamable HTTP (`/mcp`) and the legacy HTTP+SSE transport
+ * (`GET /sse` + `POST /messages`). Every client session gets its own MCP
+ * server instance; the tool, resource and prompt registries are shared.
+ * Requests from unexpected hosts or browser origins are refused, against
+ * DNS rebinding.
+ */
+export async function startHttpServer(
+	options: HttpServerOptions
+): Promise<HttpServer> {
+	const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+	const sseSessions = new Map<string, SSEServerTransport>();
+	let hosts: string[] | undefined;
+
+	/** The SDK's own DNS rebinding checks, with the hosts checked here */
+	const dnsRebindingOptions = () => ({
+		enableDnsRebindingProtection: hosts !== undefined,
+		allowedHosts: hosts,
+	});
+
+	async function handleStreamable(
+		req: IncomingMessage,
+		res: ServerResponse
+	): Promise<void> {
+		const sessionId = req.headers['mcp-session-id'];
+		const existing =
+			typeof sessionId === 'string'
+				? streamableSessions.get(sessionId)
+				: undefined;
+
+		if (req.method === 'POST') {
+			const body = await readJsonBody(req);
+
+			if (existing) {
+				await existing.handleRequest(req, res, body);
+				return;
+			}
+
+			if (sessionId === undefined && isInitializeRequest(body)) {
+				const transport = new StreamableHTTPServerTransport({
+					sessionIdGenerator: () => randomUUID(),
+					...dnsRebindingOptions(),
+					onsessioninitialized: (id) => {
+						streamableSessions.set(id, transport);
+					},
+				});
+				transport.onclose = () => {
+					if (transport.sessionId) {
+						streamableSessions.delete(transport.sessionId);
+					}
+				};
+
+				await createServer().connect(transport);
+				await transport.handleRequest(req, res, body);
+				return;
+			}
+
+			sendJsonRpcError(
+				res,
+				400,
+				'Bad Request: no valid session ID provided'
+			);
+			return;
+		}
+
+		if (req.method === 'GET' || req.method === 'DELETE') {
+			if (!existing) {
+				sendJsonRpcError(res, 400, 'Invalid or missing session ID');
+				return;
+			}
+			await existing.handleRequest(req, res);
+			return;
+		}
+
+		res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+	}
+
+	async function handleSse(res: ServerResponse): Promise<void> {
+		const transport = new SSEServerTransport(
+			SSE_MESSAGES_PATH,
+			res,
+			dnsRebindingOptions()
+		);
+		sseSessions.set(transport.sessionId, transport);
+		res.on('close', () => {
+			sseSessions.delete(transport.sessionId);
+		});
+
+		await createServer().connect(transport);
+	}
+
+	async function handleSseMessage(
+		req: IncomingMessage,
+		res: ServerResponse,
+		url: URL
+	): Promise<void> {
+		const sessionId = url.searchParams.get('sessionId') || '';
+		const transport = sseSessions.get(sessionId);
+		if (!transport) {
+			sendJsonRpcError(res, 400, 'No SSE session found for sessionId');
+			return;
+		}
+
+		await transport.handlePostMessage(req, res, await readJsonBody(req));
+	}
+
+	const httpServer = createHttpServer((req, res) => {
+		const url = requestUrl(req);
+		if (!url) {
+			sendJsonRpcError(res, 400, 'Bad Request: invalid URL');
+			return;
+		}
+		const rejected = rejectedOrigin(req, hosts);
+		if (rejected) {
+			sendJsonRpcError(res, 403, rejected);
+			return;
+		}
+
+		let handled: Promise<void>;
+		if (url.pathname === MCP_PATH) {
+			handled = handleStreamable(req, res);
+		} else if (url.pathname === SSE_PATH && req.method === 'GET') {
+			handled = handleSse(res);
+		} else if (
+			url.pathname === SSE_MESSAGES_PATH &&
+			req.method === 'POST'
+		) {
+			handled = handleSseMessage(req, res, url);
+		} else {
+			res.writeHead(404).end();
+			return;
+		}
+
+		handled.catch((error) => {
+			if (error instanceof PayloadTooLargeError) {
+				if (!res.headersSent) {
+					res.setHeader('Connection', 'close');
+					sendJsonRpcError(res, 413, error.message);
+				}
+				return;
+			}
+
+			console.error('Error handling HTTP request:', error);
+			if (!res.headersSent) {
+				sendJsonRpcError(
+					res,
+					error instanceof SyntaxError ? 400 : 500,
+					error instanceof Error ? error.message : String(error)
+				);
+			}
+		});
+	});
+
+	httpServer.on('close', () => {
+		streamableSessions.forEach((transport) => transport.close());
+		sseSessions.forEach((transport) => transport.close());
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once('error', reject);
+		httpServer.listen(options.port, options.host, () => {
+			httpServer.off('error', reject);
+			hosts = allowedHosts(
+				options.host,
+				httpServer.address() as AddressInfo
+			);
+			resolve();
+		});
+	});
+
+	return httpServer;
+}
+
+function sendJsonRpcError(
+	res: ServerResponse,
+	status: number,
+	message: string
+): void {
+	res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+		JSON.stringify({
+			jsonrpc: '2.0',
+			error: { code: -32000, message },
+			id: null,
+		})
+	);
+}
@@ -0,0 +1,98 @@
+import type { IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import { config } from '../config.js';
+
+/** Host names that only reach this machine */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * A request body larger than the configured limit
+ */
+export class PayloadTooLargeError extends Error {
+	constructor(readonly limitBytes: number) {
+		super(`Request body exceeds ${limitBytes} bytes`);
+		this.name = 'PayloadTooLargeError';
+	}
+}
+
+/**
+ * The request's path and query, or undefined when they do not parse. The
+ * Host header is left out: clients control it and it may not be a host.
+ */
+export function requestUrl(req: IncomingMessage): URL | undefined {
+	try {
+		return new URL(req.url || '/', 'http://localhost');
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Read and parse a JSON body, giving up once it passes
+ * `server.maxRequestBodyKb`. Throws a SyntaxError for invalid JSON.
+ */
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+	const limitBytes = config.server.maxRequestBodyKb * 1024;
+	if (Number(req.headers['content-length']) > limitBytes) {
+		throw new PayloadTooLargeError(limitBytes);
+	}
+
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += (chunk as Buffer).length;
+		if (size > limitBytes) {
+			throw new PayloadTooLargeError(limitBytes);
+		}
+		chunks.push(chunk as Buffer);
+	}
+
+	const raw = Buffer.concat(chunks).toString('utf8');
+	return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Host headers a server accepts: those configured, or the loopback names
+ * with its port when it listens on a loopback address. Undefined means any.
+ */
+export function allowedHosts(
+	host: string,
+	address: AddressInfo
+): string[] | undefined {
+	if (config.server.allowedHosts) {
+		return config.server.allowedHosts;
+	}
+	if (!LOOPBACK_HOSTS.includes(host) && !/^127\.|^::1$/.test(host)) {
+		return undefined;
+	}
+	return LOOPBACK_HOSTS.map((name) => `${name}:${address.port}`);
+}
+
+/**
+ * Why a request fails the DNS rebinding checks, if it does: its Host header
+ * must be allowed, and a browser Origin must be configured or on this
+ * machine. Requests without an Origin header do not come from web pages.
+ */
+export function rejectedOrigin(
+	req: IncomingMessage,
+	hosts: string[] | undefined
+): string | undefined {
+	const host = req.headers.host;
+	if (hosts && (!host || !hosts.includes(host))) {
+		return `Invalid Host header: ${host}`;
+	}
+
+	const origin = req.headers.origin;
+	if (origin === undefined || config.server.allowedOrigins.includes(origin)) {
+		return undefined;
+	}
+	let hostname: string;
+	try {
+		hostname = new URL(origin).host.replace(/:\d+$/, '');
+	} catch {
+		return `Invalid Origin header: ${origin}`;
+	}
+	return LOOPBACK_HOSTS.includes(hostname)
+		? undefined
+		: `Invalid Origin header: ${origin}`;
+}
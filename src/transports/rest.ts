@@ -0,0 +1,283 @@
+import { createServer as createHttpServer } from 'http';
+import type {
+	IncomingMessage,
+	Server as HttpServer,
+	ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+	InvalidInputError,
+	NotFoundError,
+	toEnglishMcpError,
+} from '../errors.js';
+import type { ErrorCode } from '../errors.js';
+import type { ToolRegistry } from '../tools/registry.js';
+import type { ToolDefinition } from '../tools/registry.js';
+import { SERVER_NAME, SERVER_VERSION, toolRegistry } from '../server.js';
+import { Logger } from '../utils/logger.js';
+import { runWithContext } from '../utils/request-context.js';
+import { Trace } from '../utils/trace.js';
+import {
+	allowedHosts,
+	PayloadTooLargeError,
+	readJsonBody,
+	rejectedOrigin,
+	requestUrl,
+} from './request.js';
+
+const TOOLS_PATH = '/tools/';
+const OPENAPI_PATH = '/openapi.json';
+
+export interface RestServerOptions {
+	host: string;
+	port: number;
+	/** Tools to expose; defaults to the server's tools */
+	registry?: ToolRegistry;
+}
+
+const HTTP_STATUS: Record<ErrorCode, number> = {
+	MISSING_CREDENTIAL: 503,
+	RATE_LIMITED: 429,
+	QUOTA_EXCEEDED: 429,
+	NOT_FOUND: 404,
+	INVALID_INPUT: 400,
+	UPSTREAM_UNAVAILABLE: 503,
+	UPSTREAM_ERROR: 502,
+	TIMEOUT: 504,
+	CANCELLED: 499,
+	OFFLINE: 503,
+	INTERNAL: 500,
+};
+
+/**
+ * Body of every failed request, the same JSON an MCP client gets in the
+ * error resource of a tool result
+ */
+const ErrorResponseSchema = z.object({
+	success: z.literal(false),
+	tool: z.string(),
+	error: z.object({
+		code: z.string().describe('Error code, e.g. INVALID_INPUT or OFFLINE'),
+		message: z.string(),
+		retryable: z.boolean(),
+		provider: z.string().optional(),
+		status: z.number().optional().describe('Upstream HTTP status'),
+		retryAfterMs: z.number().optional(),
+		details: z.record(z.unknown()).optional(),
+	}),
+});
+
+function openApiSchema(schema: z.ZodTypeAny): object {
+	return zodToJsonSchema(schema, {
+		target: 'openApi3',
+		$refStrategy: 'none',
+	});
+}
+
+/**
+ * OpenAPI 3 description of the REST API, one POST operation per tool with
+ * request and response bodies generated from the tool's Zod schemas
+ */
+export function openApiDocument(registry: ToolRegistry): object {
+	const operation = (definition: ToolDefinition) => ({
+		post: {
+			operationId: definition.name,
+			summary: definition.name,
+			description: registry.labeledDescription(definition),
+			...(definition.provider && { tags: [definition.provider] }),
+			requestBody: {
+				required: true,
+				content: {
+					'application/json': {
+						schema: openApiSchema(definition.inputSchema),
+					},
+				},
+			},
+			responses: {
+				'200': {
+					description: 'Tool result',
+					content: {
+						'application/json': {
+							schema: openApiSchema(definition.outputSchema),
+						},
+					},
+				},
+				default: { $ref: '#/components/responses/Error' },
+			},
+		},
+	});
+
+	return {
+		openapi: '3.0.3',
+		info: {
+			title: `${SERVER_NAME} REST API`,
+			version: SERVER_VERSION,
+			description:
+				'Every tool of the MCP server as a JSON endpoint. Failures use the error codes of the MCP error resource.',
+		},
+		paths: Object.fromEntries(
+			registry
+				.definitions()
+				.map((definition) => [
+					`${TOOLS_PATH}${definition.name}`,
+					operation(definition),
+				])
+		),
+		components: {
+			schemas: { Error: openApiSchema(ErrorResponseSchema) },
+			responses: {
+				Error: {
+					description: 'The tool failed or its input was invalid',
+					content: {
+						'application/json': {
+							schema: { $ref: '#/components/schemas/Error' },
+						},
+					},
+				},
+			},
+		},
+	};
+}
+
+/**
+ * Serve each tool as `POST /tools/<name>` taking the tool's arguments as a
+ * JSON body, and the OpenAPI document at `GET /openapi.json`. Results are
+ * the tool's structured output; errors map to HTTP statuses by code.
+ * Requests from unexpected hosts or browser origins are refused, as on the
+ * MCP HTTP transport.
+ */
+export async function startRestServer(
+	options: RestServerOptions
+): Promise<HttpServer> {
+	const registry = options.registry ?? toolRegistry;
+	const logger = new Logger();
+	let hosts: string[] | undefined;
+
+	async function handleTool(
+		req: IncomingMessage,
+		res: ServerResponse,
+		name: string
+	): Promise<void> {
+		if (!registry.has(name)) {
+			sendError(res, name, new NotFoundError(`Unknown tool: ${name}`));
+			return;
+		}
+		if (req.method !== 'POST') {
+			res.writeHead(405, { Allow: 'POST' }).end();
+			return;
+		}
+
+		let args: unknown;
+		try {
+			args = await readJsonBody(req);
+		} catch (error) {
+			if (error instanceof PayloadTooLargeError) {
+				res.setHeader('Connection', 'close');
+				sendError(res, name, new InvalidInputError(error.message), 413);
+				return;
+			}
+			sendError(
+				res,
+				name,
+				new InvalidInputError(
+					`Request body is not valid JSON: ${
+						error instanceof Error ? error.message : String(error)
+					}`
+				)
+			);
+			return;
+		}
+
+		// A client that disconnects cancels the upstream requests of the call
+		const controller = new AbortController();
+		res.on('close', () => {
+			if (!res.writableFinished) {
+				controller.abort();
+			}
+		});
+
+		const trace = new Trace(name, logger);
+		res.setHeader('X-Trace-Id', trace.id);
+		try {
+			const { result } = await runWithContext(
+				{ signal: controller.signal, trace },
+				() => registry.run(name, args)
+			);
+			trace.finish();
+			sendJson(res, 200, result);
+		} catch (error) {
+			const { code, message } = toEnglishMcpError(error);
+			trace.finish(`Error (${code}): ${message}`);
+			sendError(res, name, error);
+		}
+	}
+
+	const httpServer = createHttpServer((req, res) => {
+		const url = requestUrl(req);
+		if (!url) {
+			res.writeHead(400).end('Bad Request: invalid URL');
+			return;
+		}
+		const rejected = rejectedOrigin(req, hosts);
+		if (rejected) {
+			res.writeHead(403).end(rejected);
+			return;
+		}
+
+		if (url.pathname === OPENAPI_PATH && req.method === 'GET') {
+			sendJson(res, 200, openApiDocument(registry));
+			return;
+		}
+		if (!url.pathname.startsWith(TOOLS_PATH)) {
+			res.writeHead(404).end();
+			return;
+		}
+
+		const name = url.pathname.slice(TOOLS_PATH.length);
+		handleTool(req, res, name).catch((error) => {
+			console.error('Error handling REST request:', error);
+			if (!res.headersSent) {
+				sendError(res, name, error);
+			}
+		});
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once('error', reject);
+		httpServer.listen(options.port, options.host, () => {
+			httpServer.off('error', reject);
+			hosts = allowedHosts(
+				options.host,
+				httpServer.address() as AddressInfo
+			);
+			resolve();
+		});
+	});
+
+	return httpServer;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+	res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+		JSON.stringify(body)
+	);
+}
+
+function sendError(
+	res: ServerResponse,
+	tool: string,
+	error: unknown,
+	status?: number
+): void {
+	const details = toEnglishMcpError(error).toJSON();
+	if (details.retryAfterMs !== undefined) {
+		res.setHeader('Retry-After', Math.ceil(details.retryAfterMs / 1000));
+	}
+	sendJson(res, status ?? HTTP_STATUS[details.code], {
+		success: false,
+		tool,
+		error: details,
+	});
+}
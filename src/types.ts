@@ -127,9 +127,140 @@ export const DoiSchema = z.object({
 		.describe('Output format'),
 });
 
+export const BibtexSchema = z.object({
+	data: z
+		.union([z.string(), z.any()])
+		.describe('Citation data: DOI or CSL-JSON'),
+});
+
+export const SaveCitationSchema = z.object({
+	data: z
+		.union([z.string(), z.any()])
+		.describe('Citation to save: DOI string or CSL-JSON object'),
+});
+
+export const ServerStatusSchema = z.object({
+	checkReachability: z
+		.boolean()
+		.optional()
+		.default(true)
+		.describe('Probe each provider over the network'),
+});
+
+export const ClearCacheSchema = z.object({
+	provider: z
+		.enum([
+			'merriamWebster',
+			'sapling',
+			'wordnik',
+			'semanticScholar',
+			'crossref',
+			'languageTool',
+			'datamuse',
+			'wikipedia',
+			'quotable',
+		])
+		.optional()
+		.describe('Only clear responses from this provider (default: all)'),
+});
+
+export const UsageReportSchema = z.object({
+	days: z
+		.number()
+		.int()
+		.min(1)
+		.max(90)
+		.optional()
+		.default(1)
+		.describe('Number of days to total, counting back from today (UTC)'),
+});
+
+export const ReadabilitySchema = z.object({
+	text: z.string().describe('The text to analyze'),
+	audience: z
+		.enum([
+			'middle-school',
+			'high-school',
+			'undergraduate',
+			'general-adult',
+		])
+		.optional()
+		.default('high-school')
+		.describe(
+			'Readers the text is written for; sets the target grade band, reading ease range and share of difficult words'
+		),
+	thresholds: z
+		.object({
+			minGrade: z
+				.number()
+				.optional()
+				.describe('Lowest target grade level'),
+			maxGrade: z
+				.number()
+				.optional()
+				.describe('Highest target grade level'),
+			minReadingEase: z
+				.number()
+				.optional()
+				.describe('Lowest target Flesch Reading Ease'),
+			maxReadingEase: z
+				.number()
+				.optional()
+				.describe('Highest target Flesch Reading Ease'),
+			maxDifficultWordRatio: z
+				.number()
+				.min(0)
+				.max(1)
+				.optional()
+				.describe('Highest share of difficult words, from 0 to 1'),
+		})
+		.optional()
+		.describe("Custom targets, overriding the audience's"),
+});
+
+export const ReadabilityHeatmapSchema = z.object({
+	text: z.string().describe('The text to analyze'),
+	audience: ReadabilitySchema.shape.audience,
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.max(20)
+		.optional()
+		.default(5)
+		.describe('Number of hardest sentences to list'),
+	thresholds: ReadabilitySchema.shape.thresholds,
+});
+
+export const PassiveVoiceSchema = z.object({
+	text: z.string().describe('The text to analyze'),
+	threshold: z
+		.number()
+		.min(0)
+		.max(100)
+		.optional()
+		.default(10)
+		.describe('Highest acceptable share of passive sentences, in percent'),
+});
+
+export const SimplifyVocabularySchema = z.object({
+	text: z.string().describe('The text to analyze'),
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.max(20)
+		.optional()
+		.default(10)
+		.describe('Most difficult words to find alternatives for'),
+});
+
+export const EmptySchema = z.object({});
+
 // Type exports
 export type WordInput = z.infer<typeof WordSchema>;
 export type TextInput = z.infer<typeof TextSchema>;
+export type ReadabilityInput = z.infer<typeof ReadabilitySchema>;
 
 // API Response types
 export interface MerriamWebsterThesaurusEntry {
@@ -186,108 +317,484 @@ export interface SaplingAIDetectionResponse {
 	sentence_scores?: SaplingAIDetectionSentence[];
 }
 
-// Structured response types for AI consumption
-export interface StructuredToolResponse {
-	success: boolean;
-	tool: string;
-	data?: any;
-	error?: string;
-	metadata?: Record<string, any>;
-}
+// Zod schemas for tool outputs (sent as MCP outputSchema / structuredContent)
+export const GrammarCheckResultSchema = z.object({
+	errorCount: z.number(),
+	suggestions: z.array(
+		z.object({
+			original: z.string(),
+			replacement: z.string(),
+			type: z.string(),
+			category: z.string(),
+			position: z.object({ start: z.number(), end: z.number() }),
+		})
+	),
+});
 
-export interface GrammarCheckResult {
-	errorCount: number;
-	suggestions: Array<{
-		original: string;
-		replacement: string;
-		type: string;
-		category: string;
-		position: { start: number; end: number };
-	}>;
-}
+export const ToneAnalysisResultSchema = z.object({
+	overall: z.string(),
+	scores: z.record(z.number()),
+	dominant: z.array(z.string()),
+});
 
-export interface ToneAnalysisResult {
-	overall: string;
-	scores: Record<string, number>;
-	dominant: string[];
-}
+export const SentimentAnalysisResultSchema = z.object({
+	sentiment: z.enum(['positive', 'negative', 'neutral']),
+	score: z.number(),
+	confidence: z.enum(['high', 'medium', 'low']),
+});
 
-export interface SentimentAnalysisResult {
-	sentiment: 'positive' | 'negative' | 'neutral';
-	score: number;
-	confidence: 'high' | 'medium' | 'low';
-}
+const ScoredSentenceSchema = z.object({
+	text: z.string(),
+	score: z.number(),
+	index: z.number(),
+});
 
-export interface AIDetectionResult {
-	overallScore: number;
-	likelihood: 'high' | 'moderate' | 'low';
-	flaggedSentences: Array<{
-		text: string;
-		score: number;
-		index: number;
-	}>;
-	suspiciousSentences: Array<{
-		text: string;
-		score: number;
-		index: number;
-	}>;
-	recommendations?: string[];
-}
+export const AIDetectionResultSchema = z.object({
+	overallScore: z.number(),
+	likelihood: z.enum(['high', 'moderate', 'low']),
+	flaggedSentences: z.array(ScoredSentenceSchema),
+	suspiciousSentences: z.array(ScoredSentenceSchema),
+	recommendations: z.array(z.string()).optional(),
+});
 
-export interface ThesaurusEntry {
-	id: string;
-	partOfSpeech?: string;
-	definitions: string[];
-	synonyms: string[];
-	antonyms: string[];
-}
+export const ThesaurusEntrySchema = z.object({
+	id: z.string(),
+	partOfSpeech: z.string().optional(),
+	definitions: z.array(z.string()),
+	synonyms: z.array(z.string()),
+	antonyms: z.array(z.string()),
+});
 
-export interface ThesaurusResult {
-	word: string;
-	entries: ThesaurusEntry[];
-}
+export const ThesaurusResultSchema = z.object({
+	word: z.string(),
+	entries: z.array(ThesaurusEntrySchema),
+});
 
-export interface DictionaryResult {
-	word: string;
-	partOfSpeech?: string;
-	definitions: string[];
-}
+export const DictionaryResultSchema = z.object({
+	word: z.string(),
+	partOfSpeech: z.string().optional(),
+	definitions: z.array(z.string()),
+});
 
-export interface ReadabilityResult {
-	gradeLevel: number;
-	readingEase: number;
-	ageAppropriate: boolean;
-	difficultWords: string[];
-	readingTimeMinutes: number;
-	metrics: {
-		fleschKincaidGrade: number;
-		fleschReadingEase: number;
-		smogIndex: number;
-		colemanLiauIndex: number;
-		automatedReadabilityIndex: number;
-		daleChallReadabilityScore: number;
-		gunningFog: number;
-	};
-	recommendations: string[];
-}
+export const ReadabilityTargetsSchema = z.object({
+	minGrade: z.number(),
+	maxGrade: z.number(),
+	minReadingEase: z.number(),
+	maxReadingEase: z.number(),
+	maxDifficultWordRatio: z.number(),
+});
 
-export interface PassiveVoiceResult {
-	passiveCount: number;
-	totalSentences: number;
-	passivePercentage: number;
-	flaggedSentences: Array<{
-		sentence: string;
-		position: number;
-		suggestion: string;
-	}>;
-}
+export const ReadabilityResultSchema = z.object({
+	audience: z.string(),
+	targets: ReadabilityTargetsSchema,
+	gradeLevel: z.number(),
+	readingEase: z.number(),
+	ageAppropriate: z.boolean(),
+	difficultWords: z.array(z.string()),
+	readingTimeMinutes: z.number(),
+	metrics: z.object({
+		fleschKincaidGrade: z.number(),
+		fleschReadingEase: z.number(),
+		smogIndex: z.number(),
+		colemanLiauIndex: z.number(),
+		automatedReadabilityIndex: z.number(),
+		daleChallReadabilityScore: z.number(),
+		gunningFog: z.number(),
+	}),
+	recommendations: z.array(z.string()),
+});
 
-export interface AcademicVocabularyResult {
-	word: string;
-	suggestions: Array<{
-		word: string;
-		definition: string;
-		academicScore: number;
-		example?: string;
-	}>;
-}
+export const ReadabilityBandSchema = z
+	.enum(['below', 'within', 'above'])
+	.describe("Where the grade falls against the audience's grade band");
+
+export const ReadabilityFactorSchema = z.object({
+	type: z.enum(['long_sentence', 'polysyllabic_words']),
+	description: z.string(),
+	words: z.array(z.string()).optional(),
+});
+
+export const HeatmapSentenceSchema = z.object({
+	index: z.number(),
+	paragraph: z.number(),
+	start: z.number(),
+	end: z.number(),
+	text: z.string(),
+	wordCount: z.number(),
+	gradeLevel: z.number(),
+	readingEase: z.number(),
+	band: ReadabilityBandSchema,
+	factors: z.array(ReadabilityFactorSchema),
+});
+
+export const HeatmapParagraphSchema = z.object({
+	index: z.number(),
+	start: z.number(),
+	end: z.number(),
+	sentenceCount: z.number(),
+	wordCount: z.number(),
+	gradeLevel: z.number(),
+	readingEase: z.number(),
+	band: ReadabilityBandSchema,
+});
+
+export const ReadabilityHeatmapResultSchema = z.object({
+	audience: z.string(),
+	targets: ReadabilityTargetsSchema,
+	gradeLevel: z.number(),
+	readingEase: z.number(),
+	paragraphs: z.array(HeatmapParagraphSchema),
+	sentences: z.array(HeatmapSentenceSchema),
+	hardestSentences: z.array(HeatmapSentenceSchema),
+});
+
+export const PassiveVoiceResultSchema = z.object({
+	passiveCount: z.number(),
+	totalSentences: z.number(),
+	passivePercentage: z.number(),
+	threshold: z.number(),
+	exceedsThreshold: z.boolean(),
+	flaggedSentences: z.array(
+		z.object({
+			sentence: z.string(),
+			position: z.number(),
+			constructions: z.array(z.string()),
+			agent: z.string().optional(),
+			rewrite: z.string().optional(),
+			suggestion: z.string(),
+		})
+	),
+});
+
+const ReadabilityScoresSchema = z.object({
+	gradeLevel: z.number(),
+	readingEase: z.number(),
+});
+
+export const SimplifyVocabularyResultSchema = z.object({
+	words: z.array(
+		z.object({
+			word: z.string(),
+			syllables: z.number(),
+			occurrences: z.number(),
+			context: z.string(),
+			position: z.number(),
+			suggestions: z.array(
+				z.object({
+					word: z.string(),
+					syllables: z.number(),
+					frequency: z.number().nullable(),
+					sources: z.array(
+						z.enum(['datamuse', 'merriamWebster', 'localThesaurus'])
+					),
+				})
+			),
+		})
+	),
+	readability: z.object({
+		before: ReadabilityScoresSchema,
+		after: ReadabilityScoresSchema,
+		gradeLevelChange: z.number(),
+		readingEaseChange: z.number(),
+	}),
+	simplifiedText: z.string(),
+});
+
+export const AcademicVocabularyResultSchema = z.object({
+	word: z.string(),
+	suggestions: z.array(
+		z.object({
+			word: z.string(),
+			definition: z.string(),
+			academicScore: z.number(),
+			example: z.string().optional(),
+		})
+	),
+});
+
+export const PaperSearchResultSchema = z.object({
+	total: z.number(),
+	papers: z.array(
+		z.object({
+			title: z.string(),
+			authors: z.string(),
+			year: z.number().nullish(),
+			abstract: z.string().nullish(),
+			venue: z.string().nullish(),
+			citations: z.number().nullish(),
+			influentialCitations: z.number().nullish(),
+			openAccess: z.boolean().nullish(),
+			pdfUrl: z.string().nullish(),
+			doi: z.string().nullish(),
+			url: z.string().nullish(),
+		})
+	),
+});
+
+const PaperReferenceSchema = z.object({
+	title: z.string().nullish(),
+	authors: z.string().nullish(),
+	year: z.number().nullish(),
+});
+
+export const PaperDetailsResultSchema = z.object({
+	paper: z.object({
+		title: z.string(),
+		authors: z.array(z.string()),
+		year: z.number().nullish(),
+		abstract: z.string().nullish(),
+		venue: z.string().nullish(),
+		citations: z.number().nullish(),
+		references: z.number().nullish(),
+		influentialCitations: z.number().nullish(),
+		fields: z.array(z.string()).nullish(),
+		doi: z.string().nullish(),
+	}),
+	citedBy: z.array(PaperReferenceSchema),
+	references: z.array(PaperReferenceSchema),
+});
+
+export const WikipediaArticlesResultSchema = z.object({
+	articles: z.array(
+		z.object({
+			title: z.string(),
+			summary: z.string(),
+			url: z.string().nullish(),
+			thumbnail: z.string().nullish(),
+		})
+	),
+});
+
+export const WikipediaSummaryResultSchema = z.object({
+	title: z.string(),
+	summary: z.string(),
+	url: z.string(),
+});
+
+const QuoteSchema = z.object({
+	content: z.string(),
+	author: z.string(),
+	tags: z.array(z.string()),
+});
+
+export const QuoteSearchResultSchema = z.object({
+	total: z.number().optional(),
+	quotes: z.array(QuoteSchema),
+});
+
+export const QuoteResultSchema = QuoteSchema.extend({
+	length: z.number(),
+});
+
+export const WordRelationshipResultSchema = z.object({
+	word: z.string(),
+	type: WordRelationshipSchema.shape.type,
+	results: z.array(
+		z.object({
+			word: z.string(),
+			score: z.number().optional(),
+			definitions: z.array(z.string()).optional(),
+		})
+	),
+});
+
+const LanguageToolIssueSchema = z.object({
+	message: z.string(),
+	context: z.string(),
+	offset: z.number(),
+	length: z.number(),
+	suggestions: z.array(z.string()),
+});
+
+export const AdvancedGrammarResultSchema = z.object({
+	totalErrors: z.number(),
+	summary: z.object({
+		grammar: z.number(),
+		spelling: z.number(),
+		style: z.number(),
+		other: z.number(),
+	}),
+	issues: z.object({
+		grammar: z.array(LanguageToolIssueSchema.extend({ rule: z.string() })),
+		spelling: z.array(LanguageToolIssueSchema),
+		style: z.array(LanguageToolIssueSchema),
+	}),
+});
+
+export const WordDetailsResultSchema = z.object({
+	word: z.string(),
+	definitions: z.array(
+		z.object({
+			text: z.string().nullish(),
+			partOfSpeech: z.string().nullish(),
+			source: z.string().nullish(),
+		})
+	),
+	examples: z.array(z.string()),
+	relatedWords: z.array(
+		z.object({
+			type: z.string(),
+			words: z.array(z.string()),
+		})
+	),
+	pronunciations: z.array(z.string()),
+});
+
+export const WordOfTheDayResultSchema = z.object({
+	word: z.string(),
+	definitions: z.array(
+		z.object({
+			text: z.string().nullish(),
+			partOfSpeech: z.string().nullish(),
+		})
+	),
+	examples: z.array(z.string()),
+	note: z.string().nullish(),
+});
+
+export const CitationResultSchema = z.object({
+	citation: z.string(),
+});
+
+export const BibliographyResultSchema = z.object({
+	bibliography: z.string(),
+});
+
+export const DoiCitationResultSchema = z.object({
+	citation: z.string(),
+	metadata: z.record(z.unknown()),
+});
+
+export const BibtexResultSchema = z.object({
+	bibtex: z.string(),
+});
+
+export const SavedBibliographyResultSchema = z.object({
+	count: z.number(),
+	entries: z.array(z.record(z.unknown())),
+});
+
+export const ToolModeSchema = z.enum([
+	'online',
+	'local',
+	'fallback',
+	'cached',
+	'unavailable',
+]);
+
+export const ServerStatusResultSchema = z.object({
+	configFile: z.string().nullable(),
+	offline: z.boolean(),
+	providers: z.array(
+		z.object({
+			id: z.string(),
+			name: z.string(),
+			configured: z.boolean(),
+			missingCredentials: z.array(z.string()),
+			baseUrl: z.string(),
+			reachable: z.boolean().nullable(),
+			latencyMs: z.number().optional(),
+			error: z.string().optional(),
+			circuit: z.enum(['closed', 'open', 'half-open']),
+			tools: z.array(z.string()),
+		})
+	),
+	tools: z.array(z.object({ name: z.string(), mode: ToolModeSchema })),
+	disabledTools: z.array(z.string()),
+	unavailableTools: z.array(z.string()),
+	cache: z.object({
+		enabled: z.boolean(),
+		directory: z.string(),
+		entries: z.number(),
+		bytes: z.number(),
+	}),
+	problems: z.array(z.string()),
+});
+
+export const ClearCacheResultSchema = z.object({
+	provider: z.string().nullable(),
+	removed: z.number(),
+});
+
+export const UsageReportResultSchema = z.object({
+	date: z.string(),
+	days: z.number(),
+	resetsAt: z.string().describe('When daily budgets reset (midnight UTC)'),
+	budgets: z.array(
+		z.object({
+			provider: z.string(),
+			name: z.string(),
+			used: z.number(),
+			budget: z.number().nullable(),
+			remaining: z.number().nullable(),
+			action: z.enum(['block', 'warn']),
+		})
+	),
+	providers: z.array(
+		z.object({
+			provider: z.string(),
+			name: z.string(),
+			requests: z.number(),
+		})
+	),
+	tools: z.array(
+		z.object({
+			name: z.string(),
+			calls: z.number(),
+			errors: z.number(),
+			upstream: z.number(),
+		})
+	),
+});
+
+// Result type exports
+export type GrammarCheckResult = z.infer<typeof GrammarCheckResultSchema>;
+export type ToneAnalysisResult = z.infer<typeof ToneAnalysisResultSchema>;
+export type SentimentAnalysisResult = z.infer<
+	typeof SentimentAnalysisResultSchema
+>;
+export type AIDetectionResult = z.infer<typeof AIDetectionResultSchema>;
+export type ThesaurusEntry = z.infer<typeof ThesaurusEntrySchema>;
+export type ThesaurusResult = z.infer<typeof ThesaurusResultSchema>;
+export type DictionaryResult = z.infer<typeof DictionaryResultSchema>;
+export type ReadabilityTargets = z.infer<typeof ReadabilityTargetsSchema>;
+export type ReadabilityResult = z.infer<typeof ReadabilityResultSchema>;
+export type ReadabilityFactor = z.infer<typeof ReadabilityFactorSchema>;
+export type HeatmapSentence = z.infer<typeof HeatmapSentenceSchema>;
+export type HeatmapParagraph = z.infer<typeof HeatmapParagraphSchema>;
+export type ReadabilityHeatmapResult = z.infer<
+	typeof ReadabilityHeatmapResultSchema
+>;
+export type PassiveVoiceResult = z.infer<typeof PassiveVoiceResultSchema>;
+export type SimplifyVocabularyResult = z.infer<
+	typeof SimplifyVocabularyResultSchema
+>;
+export type AcademicVocabularyResult = z.infer<
+	typeof AcademicVocabularyResultSchema
+>;
+export type PaperSearchResult = z.infer<typeof PaperSearchResultSchema>;
+export type PaperDetailsResult = z.infer<typeof PaperDetailsResultSchema>;
+export type WikipediaArticlesResult = z.infer<
+	typeof WikipediaArticlesResultSchema
+>;
+export type WikipediaSummaryResult = z.infer<
+	typeof WikipediaSummaryResultSchema
+>;
+export type QuoteSearchResult = z.infer<typeof QuoteSearchResultSchema>;
+export type QuoteResult = z.infer<typeof QuoteResultSchema>;
+export type WordRelationshipResult = z.infer<
+	typeof WordRelationshipResultSchema
+>;
+export type AdvancedGrammarResult = z.infer<typeof AdvancedGrammarResultSchema>;
+export type WordDetailsResult = z.infer<typeof WordDetailsResultSchema>;
+export type WordOfTheDayResult = z.infer<typeof WordOfTheDayResultSchema>;
+export type CitationResult = z.infer<typeof CitationResultSchema>;
+export type BibliographyResult = z.infer<typeof BibliographyResultSchema>;
+export type DoiCitationResult = z.infer<typeof DoiCitationResultSchema>;
+export type BibtexResult = z.infer<typeof BibtexResultSchema>;
+export type SavedBibliographyResult = z.infer<
+	typeof SavedBibliographyResultSchema
+>;
+export type ServerStatusResult = z.infer<typeof ServerStatusResultSchema>;
+export type ClearCacheResult = z.infer<typeof ClearCacheResultSchema>;
+export type UsageReportResult = z.infer<typeof UsageReportResultSchema>;
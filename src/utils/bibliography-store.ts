@@ -0,0 +1,68 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { config } from '../config.js';
+import type { CitationInput } from '../tools/citations.js';
+
+/**
+ * Persists the user's saved bibliography as a CSL-JSON array on disk.
+ */
+export class BibliographyStore {
+	private filePath: string;
+
+	constructor(
+		filePath: string = join(config.storage.dataDir, 'bibliography.json')
+	) {
+		this.filePath = filePath;
+	}
+
+	/**
+	 * Read all saved entries (empty if nothing has been saved yet)
+	 */
+	async load(): Promise<CitationInput[]> {
+		try {
+			const raw = await readFile(this.filePath, 'utf8');
+			const entries = JSON.parse(raw);
+			return Array.isArray(entries) ? entries : [];
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return [];
+			}
+			throw new Error(
+				`Failed to read saved bibliography: ${
+					error instanceof Error ? error.message : String(error)
+				}`
+			);
+		}
+	}
+
+	/**
+	 * Add an entry, replacing any existing entry with the same DOI or id
+	 */
+	async add(entry: CitationInput): Promise<CitationInput[]> {
+		const entries = await this.load();
+		const key = entryKey(entry);
+		const remaining = key
+			? entries.filter((existing) => entryKey(existing) !== key)
+			: entries;
+
+		remaining.push(entry);
+		await this.save(remaining);
+		return remaining;
+	}
+
+	/**
+	 * Remove every saved entry
+	 */
+	async clear(): Promise<void> {
+		await this.save([]);
+	}
+
+	private async save(entries: CitationInput[]): Promise<void> {
+		await mkdir(dirname(this.filePath), { recursive: true });
+		await writeFile(this.filePath, JSON.stringify(entries, null, 2));
+	}
+}
+
+function entryKey(entry: CitationInput): string | undefined {
+	return entry.DOI?.toLowerCase() || entry.id;
+}
@@ -0,0 +1,236 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { config } from '../config.js';
+import type { ProviderId } from '../config.js';
+
+/**
+ * Query parameters that carry credentials or contact details. They are left
+ * out of cache keys so entries never store secrets and survive key rotation.
+ */
+const CREDENTIAL_PARAMS = new Set(['key', 'api_key', 'apikey', 'mailto']);
+
+interface CacheEntry {
+	url: string;
+	storedAt: number;
+	expiresAt: number;
+	body: unknown;
+}
+
+/**
+ * Cache directory of a plugin, kept apart from the providers' entries
+ */
+export type PluginNamespace = `plugin-${string}`;
+
+export interface CacheStats {
+	entries: number;
+	bytes: number;
+}
+
+/**
+ * Disk-backed cache of upstream JSON responses, one file per entry under a
+ * directory per provider. Failures to read or write are treated as misses.
+ */
+export class ResponseCache {
+	private directory: string;
+	/**
+	 * Bytes in the cache as of the last directory scan plus those written
+	 * since; unknown until the first write
+	 */
+	private size?: number;
+
+	constructor(directory: string = join(config.storage.dataDir, 'cache')) {
+		this.directory = directory;
+	}
+
+	/**
+	 * Canonical form of a URL for use as a cache key: lowercase host, no
+	 * fragment or credentials, and query parameters in a stable order
+	 */
+	static normalizeUrl(url: string): string {
+		const parsed = new URL(url);
+		parsed.hash = '';
+
+		const params = Array.from(parsed.searchParams.entries())
+			.filter(([name]) => !CREDENTIAL_PARAMS.has(name.toLowerCase()))
+			.sort(([a, aValue], [b, bValue]) =>
+				a === b ? aValue.localeCompare(bValue) : a.localeCompare(b)
+			);
+		parsed.search = new URLSearchParams(params).toString();
+
+		return parsed.toString();
+	}
+
+	/**
+	 * Return the cached body for a URL, or undefined if absent or expired.
+	 * Expired entries are returned too when `allowStale` is set. Entries are
+	 * kept per provider; plugins use their own namespace instead.
+	 */
+	async get(
+		provider: ProviderId | PluginNamespace,
+		url: string,
+		allowStale = false
+	): Promise<unknown> {
+		try {
+			const raw = await readFile(this.entryPath(provider, url), 'utf8');
+			const entry = JSON.parse(raw) as CacheEntry;
+			return allowStale || entry.expiresAt > Date.now()
+				? entry.body
+				: undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Store a response body for the given number of seconds. Bodies larger
+	 * than the configured entry limit are not stored.
+	 */
+	async set(
+		provider: ProviderId | PluginNamespace,
+		url: string,
+		body: unknown,
+		ttlSeconds: number
+	): Promise<void> {
+		const now = Date.now();
+		const entry: CacheEntry = {
+			url: ResponseCache.normalizeUrl(url),
+			storedAt: now,
+			expiresAt: now + ttlSeconds * 1000,
+			body,
+		};
+		const serialized = JSON.stringify(entry);
+		if (Buffer.byteLength(serialized) > config.cache.maxEntryKb * 1024) {
+			return;
+		}
+
+		try {
+			await mkdir(join(this.directory, provider), { recursive: true });
+			const path = this.entryPath(provider, url);
+			const replaced = await stat(path).then(
+				(info) => info.size,
+				() => 0
+			);
+			await writeFile(path, serialized);
+			await this.track(Buffer.byteLength(serialized) - replaced);
+		} catch {
+			// A cache that cannot be written just means more network requests
+		}
+	}
+
+	/**
+	 * Delete cached entries for one provider, or for all of them. Returns
+	 * the number of entries removed.
+	 */
+	async clear(provider?: ProviderId): Promise<number> {
+		const files = await this.files();
+		const removed = files.filter(
+			(file) => !provider || file.provider === provider
+		);
+		await Promise.all(
+			removed.map((file) => rm(file.path, { force: true }))
+		);
+		this.size = undefined;
+		return removed.length;
+	}
+
+	async stats(): Promise<CacheStats> {
+		const files = await this.files();
+		return {
+			entries: files.length,
+			bytes: files.reduce((total, file) => total + file.size, 0),
+		};
+	}
+
+	getDirectory(): string {
+		return this.directory;
+	}
+
+	/**
+	 * Count bytes written, and prune once the count passes the size limit.
+	 * The directory is only scanned on the first write and when pruning, so
+	 * writes by other processes are noticed late but not missed.
+	 */
+	private async track(bytes: number): Promise<void> {
+		const limit = config.cache.maxSizeMb * 1024 * 1024;
+		this.size =
+			this.size === undefined
+				? await this.prune(limit)
+				: this.size + bytes;
+		if (this.size > limit) {
+			this.size = await this.prune(limit);
+		}
+	}
+
+	/**
+	 * Evict the least recently written entries until the cache fits within
+	 * the limit. Returns the bytes left.
+	 */
+	private async prune(limit: number): Promise<number> {
+		const files = await this.files();
+		let total = files.reduce((sum, file) => sum + file.size, 0);
+		if (total <= limit) {
+			return total;
+		}
+
+		files.sort((a, b) => a.modified - b.modified);
+		for (const file of files) {
+			if (total <= limit) break;
+			await rm(file.path, { force: true });
+			total -= file.size;
+		}
+		return total;
+	}
+
+	private async files(): Promise<
+		Array<{
+			provider: string;
+			path: string;
+			size: number;
+			modified: number;
+		}>
+	> {
+		let providers: string[];
+		try {
+			providers = await readdir(this.directory);
+		} catch {
+			return [];
+		}
+
+		const files = await Promise.all(
+			providers.map(async (provider) => {
+				const names = await readdir(join(this.directory, provider));
+				return Promise.all(
+					names
+						.filter((name) => name.endsWith('.json'))
+						.map(async (name) => {
+							const path = join(this.directory, provider, name);
+							const info = await stat(path);
+							return {
+								provider,
+								path,
+								size: info.size,
+								modified: info.mtimeMs,
+							};
+						})
+				);
+			})
+		);
+		return files.flat();
+	}
+
+	private entryPath(
+		provider: ProviderId | PluginNamespace,
+		url: string
+	): string {
+		const hash = createHash('sha256')
+			.update(ResponseCache.normalizeUrl(url))
+			.digest('hex');
+		return join(this.directory, provider, `${hash}.json`);
+	}
+}
+
+/**
+ * Shared cache used by fetchJson
+ */
+export const responseCache = new ResponseCache();
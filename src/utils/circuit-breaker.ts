@@ -0,0 +1,100 @@
+import { config, PROVIDER_NAMES } from '../config.js';
+import type { ProviderId } from '../config.js';
+import { UpstreamUnavailableError } from '../errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Stops calling a provider after repeated failures. Once the cooldown has
+ * passed a single trial request is let through: success closes the circuit
+ * again, failure reopens it.
+ */
+export class CircuitBreaker {
+	private failures = 0;
+	private openedAt = 0;
+	private trialInFlight = false;
+
+	constructor(
+		private provider: ProviderId,
+		private threshold: number,
+		private cooldownMs: number
+	) {}
+
+	state(): CircuitState {
+		if (this.threshold <= 0 || this.failures < this.threshold) {
+			return 'closed';
+		}
+		return Date.now() - this.openedAt >= this.cooldownMs
+			? 'half-open'
+			: 'open';
+	}
+
+	/**
+	 * Throw instead of sending a request while the circuit is open
+	 */
+	check(): void {
+		const state = this.state();
+		if (state === 'closed') {
+			return;
+		}
+		if (state === 'half-open' && !this.trialInFlight) {
+			this.trialInFlight = true;
+			return;
+		}
+
+		const retryAfterMs = Math.max(
+			1000,
+			this.openedAt + this.cooldownMs - Date.now()
+		);
+		throw new UpstreamUnavailableError(
+			this.provider,
+			`${
+				PROVIDER_NAMES[this.provider]
+			} is temporarily unavailable after ${
+				this.failures
+			} consecutive failures; not retrying for ${Math.ceil(
+				retryAfterMs / 1000
+			)}s`,
+			{ retryAfterMs }
+		);
+	}
+
+	recordSuccess(): void {
+		this.failures = 0;
+		this.trialInFlight = false;
+	}
+
+	/**
+	 * Let another trial through when a request ended without an outcome,
+	 * e.g. because the client cancelled it
+	 */
+	release(): void {
+		this.trialInFlight = false;
+	}
+
+	recordFailure(): void {
+		this.failures++;
+		this.trialInFlight = false;
+		if (this.failures >= this.threshold) {
+			this.openedAt = Date.now();
+		}
+	}
+}
+
+const breakers = new Map<ProviderId, CircuitBreaker>();
+
+/**
+ * Shared circuit breaker for a provider
+ */
+export function circuitBreaker(provider: ProviderId): CircuitBreaker {
+	let breaker = breakers.get(provider);
+	if (!breaker) {
+		breaker = new CircuitBreaker(
+			provider,
+			config.http.circuitBreakerThreshold,
+			config.http.circuitBreakerCooldownMs
+		);
+		breakers.set(provider, breaker);
+	}
+	return breaker;
+}
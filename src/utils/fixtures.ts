@@ -0,0 +1,193 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import { join, resolve } from 'path';
+import { config } from '../config.js';
+import { ResponseCache } from './cache.js';
+
+/**
+ * Request body fields that hold credentials or change on every call. They
+ * are dropped before matching so fixtures never store secrets.
+ */
+const VOLATILE_FIELDS = new Set(['key', 'api_key', 'session_id']);
+
+/**
+ * One recorded upstream request and the response it got
+ */
+export interface Fixture {
+	request: {
+		method: string;
+		url: string;
+		body?: unknown;
+	};
+	response: {
+		status: number;
+		body: unknown;
+	};
+}
+
+function normalizeBody(body: unknown): unknown {
+	if (body === undefined || body === null || body === '') {
+		return undefined;
+	}
+
+	if (typeof body === 'string') {
+		try {
+			return normalizeBody(JSON.parse(body));
+		} catch {
+			// Form-encoded bodies, e.g. LanguageTool
+			const params = Array.from(new URLSearchParams(body).entries())
+				.filter(([name]) => !VOLATILE_FIELDS.has(name))
+				.sort(([a], [b]) => a.localeCompare(b));
+			return new URLSearchParams(params).toString();
+		}
+	}
+
+	if (typeof body === 'object' && !Array.isArray(body)) {
+		return Object.fromEntries(
+			Object.entries(body)
+				.filter(([name]) => !VOLATILE_FIELDS.has(name))
+				.sort(([a], [b]) => a.localeCompare(b))
+		);
+	}
+
+	return body;
+}
+
+/**
+ * Canonical form of a request, so recorded and live requests compare equal
+ * regardless of parameter order or credentials
+ */
+function normalizeRequest(
+	method: string,
+	url: string,
+	body: unknown
+): Fixture['request'] {
+	const normalized = normalizeBody(body);
+	return {
+		method: method.toUpperCase(),
+		url: ResponseCache.normalizeUrl(url),
+		...(normalized !== undefined ? { body: normalized } : {}),
+	};
+}
+
+function matchKey(request: Fixture['request']): string {
+	return JSON.stringify([request.method, request.url, request.body ?? null]);
+}
+
+/**
+ * File a recorded request is stored in: its URL path as a slug plus a hash
+ * of the whole request, so recording again replaces the same file
+ */
+export function fixtureFileName(request: Fixture['request']): string {
+	const slug = new URL(request.url).pathname
+		.replace(/[^a-zA-Z0-9]+/g, '-')
+		.replace(/^-|-$/g, '')
+		.slice(0, 60);
+	const hash = createHash('sha256')
+		.update(matchKey(request))
+		.digest('hex')
+		.slice(0, 8);
+	return `${slug || 'root'}-${hash}.json`;
+}
+
+/**
+ * Recorded HTTP interactions stored as JSON files, one directory per
+ * provider. Used by fetchJson to record real responses once and replay them
+ * offline in tests.
+ */
+export class FixtureStore {
+	private directory: string;
+	private loaded = new Map<string, Map<string, Fixture>>();
+
+	constructor(directory: string = resolve(config.http.fixturesDir)) {
+		this.directory = directory;
+	}
+
+	/**
+	 * Build a response from the fixture recorded for this request
+	 */
+	async replay(
+		set: string,
+		url: string,
+		init: RequestInit
+	): Promise<Response> {
+		const request = normalizeRequest(init.method ?? 'GET', url, init.body);
+		const fixture = (await this.load(set)).get(matchKey(request));
+		if (!fixture) {
+			throw new Error(
+				`No fixture recorded for ${request.method} ${request.url}; run with ENGLISH_MCP_FIXTURES=record to capture it`
+			);
+		}
+
+		return new Response(JSON.stringify(fixture.response.body), {
+			status: fixture.response.status,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	}
+
+	/**
+	 * Save a real response so it can be replayed later
+	 */
+	async record(
+		set: string,
+		url: string,
+		init: RequestInit,
+		response: Response
+	): Promise<void> {
+		const request = normalizeRequest(init.method ?? 'GET', url, init.body);
+		const text = await response.text();
+		let body: unknown;
+		try {
+			body = JSON.parse(text);
+		} catch {
+			body = text;
+		}
+
+		const fixture: Fixture = {
+			request,
+			response: { status: response.status, body },
+		};
+		(await this.load(set)).set(matchKey(request), fixture);
+
+		await mkdir(join(this.directory, set), { recursive: true });
+		await writeFile(
+			join(this.directory, set, fixtureFileName(request)),
+			JSON.stringify(fixture, null, 2) + '\n'
+		);
+	}
+
+	private async load(set: string): Promise<Map<string, Fixture>> {
+		let fixtures = this.loaded.get(set);
+		if (fixtures) {
+			return fixtures;
+		}
+
+		fixtures = new Map();
+		let names: string[] = [];
+		try {
+			names = await readdir(join(this.directory, set));
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				throw error;
+			}
+		}
+
+		for (const name of names.filter((name) => name.endsWith('.json'))) {
+			const raw = await readFile(join(this.directory, set, name), 'utf8');
+			const fixture = JSON.parse(raw) as Fixture;
+			const { method, url, body } = fixture.request;
+			fixtures.set(
+				matchKey(normalizeRequest(method, url, body)),
+				fixture
+			);
+		}
+
+		this.loaded.set(set, fixtures);
+		return fixtures;
+	}
+}
+
+/**
+ * Shared fixture store used by fetchJson when fixtures are enabled
+ */
+export const fixtureStore = new FixtureStore();
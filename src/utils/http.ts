@@ -1,11 +1,260 @@
+import { config, providerRateLimit, providerTimeout } from '../config.js';
+import type { ProviderId } from '../config.js';
+import {
+	CancelledError,
+	httpError,
+	OfflineError,
+	QuotaExceededError,
+	toEnglishMcpError,
+	UpstreamTimeoutError,
+	UpstreamUnavailableError,
+} from '../errors.js';
+import { responseCache } from './cache.js';
+import { circuitBreaker } from './circuit-breaker.js';
+import { fixtureStore } from './fixtures.js';
+import { proxyDispatcher } from './proxy.js';
+import { rateLimiter, sleep } from './rate-limit.js';
+import { currentContext } from './request-context.js';
+import { usageStore } from './usage.js';
+
+export interface FetchOptions extends RequestInit {
+	/**
+	 * Provider the request goes to. GET requests are cached for the
+	 * provider's cacheTtlSeconds and all requests share its rate limit.
+	 */
+	provider?: ProviderId;
+	/** 'no-store' skips the response cache; 'reload' refreshes the entry */
+	cache?: 'default' | 'no-store' | 'reload';
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Milliseconds to wait from a Retry-After header (seconds or HTTP date)
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+	if (!header) {
+		return undefined;
+	}
+
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number): number {
+	const ceiling = Math.min(
+		config.http.retryMaxDelayMs,
+		config.http.retryBaseDelayMs * 2 ** attempt
+	);
+	return Math.random() * ceiling;
+}
+
+/**
+ * Send a request through the provider's rate limit, retrying network errors,
+ * 429s and 5xx responses with backoff. Retry-After is honored up to the
+ * configured maximum delay. Each attempt is bounded by the provider timeout,
+ * and the whole request stops as soon as `signal` aborts. Requests go through
+ * the configured proxy, if any. The request counts against the provider's
+ * daily budget once it is through the rate limit, retries included.
+ */
+async function fetchWithRetry(
+	url: string,
+	init: RequestInit,
+	provider: ProviderId | undefined,
+	signal: AbortSignal | undefined
+): Promise<Response> {
+	const requestsPerMinute = provider ? providerRateLimit(provider) : 0;
+	const timeoutMs = provider
+		? providerTimeout(provider)
+		: config.http.timeoutMs;
+
+	const dispatcher = proxyDispatcher(url, provider);
+
+	for (let attempt = 0; ; attempt++) {
+		await rateLimiter.acquire(url, requestsPerMinute, signal);
+		if (attempt === 0 && provider) {
+			await usageStore.reserve(provider);
+		}
+
+		const timeout = AbortSignal.timeout(timeoutMs);
+		let response: Response;
+		try {
+			response = await fetch(url, {
+				...init,
+				signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+				...(dispatcher && { dispatcher }),
+			} as RequestInit);
+		} catch (error) {
+			if (signal?.aborted) {
+				throw new CancelledError();
+			}
+			if (timeout.aborted) {
+				throw new UpstreamTimeoutError(provider, timeoutMs);
+			}
+			if (attempt >= config.http.maxRetries) {
+				throw new UpstreamUnavailableError(
+					provider,
+					`${new URL(url).host} is unreachable: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+					{ cause: error }
+				);
+			}
+			await sleep(backoffDelay(attempt), signal);
+			continue;
+		}
+
+		if (
+			response.ok ||
+			!RETRYABLE_STATUSES.has(response.status) ||
+			attempt >= config.http.maxRetries
+		) {
+			return response;
+		}
+
+		await response.body?.cancel();
+		const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+		const delay =
+			retryAfter !== undefined
+				? Math.min(retryAfter, config.http.retryMaxDelayMs)
+				: backoffDelay(attempt);
+		if (response.status === 429 && requestsPerMinute > 0) {
+			// Hold back every request to this host, including this retry
+			rateLimiter.pause(url, delay);
+		} else {
+			await sleep(delay, signal);
+		}
+	}
+}
+
+/**
+ * Send a request unless the provider's circuit is open, recording whether
+ * the provider responded properly
+ */
+async function send(
+	url: string,
+	init: RequestInit,
+	provider: ProviderId | undefined,
+	signal: AbortSignal | undefined
+): Promise<Response> {
+	const breaker = provider ? circuitBreaker(provider) : undefined;
+	breaker?.check();
+
+	let response: Response;
+	try {
+		response = await fetchWithRetry(url, init, provider, signal);
+	} catch (error) {
+		if (signal?.aborted || error instanceof QuotaExceededError) {
+			breaker?.release();
+		} else {
+			breaker?.recordFailure();
+		}
+		throw error;
+	}
+
+	if (response.status >= 500 || response.status === 408) {
+		breaker?.recordFailure();
+	} else {
+		breaker?.recordSuccess();
+	}
+	return response;
+}
+
 // Helper function to make HTTP requests
 export async function fetchJson(
 	url: string,
-	options?: RequestInit
+	options: FetchOptions = {}
 ): Promise<any> {
-	const response = await fetch(url, options);
+	const { provider, cache, ...init } = options;
+	const { trace } = currentContext();
+	const method = (init.method ?? 'GET').toUpperCase();
+	const host = new URL(url).host;
+	const startedAt = Date.now();
+	const fixtures = config.http.fixtures;
+	const fixtureSet = provider ?? host;
+	const ttl =
+		provider &&
+		fixtures === 'off' &&
+		config.cache.enabled &&
+		cache !== 'no-store' &&
+		method === 'GET'
+			? config[provider].cacheTtlSeconds
+			: 0;
+
+	// Offline, cached responses are served however old they are
+	const offline = config.server.offline && fixtures !== 'replay';
+	if (provider && ttl > 0 && (cache !== 'reload' || offline)) {
+		const cached = await responseCache.get(provider, url, offline);
+		if (cached !== undefined) {
+			trace?.record({
+				provider,
+				method,
+				host,
+				latencyMs: Date.now() - startedAt,
+				cacheHit: true,
+			});
+			return cached;
+		}
+	}
+	if (offline) {
+		throw new OfflineError(
+			provider,
+			`${host} cannot be reached in offline mode and this request is not cached`
+		);
+	}
+
+	// An explicit signal wins over the cancellation signal of the MCP request
+	const signal = init.signal ?? currentContext().signal;
+	let response: Response;
+	try {
+		response =
+			fixtures === 'replay'
+				? await fixtureStore.replay(fixtureSet, url, init)
+				: await send(url, init, provider, signal);
+	} catch (error) {
+		trace?.record({
+			provider,
+			method,
+			host,
+			latencyMs: Date.now() - startedAt,
+			cacheHit: false,
+			error: toEnglishMcpError(error).code,
+		});
+		throw error;
+	}
+	trace?.record({
+		provider,
+		method,
+		host,
+		status: response.status,
+		latencyMs: Date.now() - startedAt,
+		cacheHit: false,
+	});
+
+	if (fixtures === 'record') {
+		await fixtureStore.record(fixtureSet, url, init, response.clone());
+	}
+
 	if (!response.ok) {
-		throw new Error(`HTTP error! status: ${response.status}`);
+		await response.body?.cancel();
+		throw httpError(
+			response.status,
+			provider,
+			parseRetryAfter(response.headers.get('retry-after'))
+		);
+	}
+	const data = await response.json();
+
+	if (provider && ttl > 0) {
+		await responseCache.set(provider, url, data, ttl);
 	}
-	return response.json();
+	return data;
 }
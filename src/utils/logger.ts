@@ -0,0 +1,59 @@
+import { config } from '../config.js';
+import type { LogLevel } from '../config.js';
+
+const SEVERITY: Record<LogLevel, number> = {
+	debug: 0,
+	info: 1,
+	notice: 2,
+	warning: 3,
+	error: 4,
+	critical: 5,
+	alert: 6,
+	emergency: 7,
+};
+
+export interface LogEntry {
+	level: LogLevel;
+	/** Part of the server the entry comes from, e.g. "tools" or "http" */
+	logger: string;
+	message: string;
+	data?: Record<string, unknown>;
+}
+
+/**
+ * Whether an entry at `level` passes a `threshold`
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+	return SEVERITY[level] >= SEVERITY[threshold];
+}
+
+/**
+ * Writes entries to stderr at the configured level and, for an MCP session,
+ * passes them to the client at the level the client asked for
+ */
+export class Logger {
+	private level: LogLevel = config.logging.level;
+
+	constructor(private send?: (entry: LogEntry) => void) {}
+
+	/**
+	 * Lowest level sent to the client (logging/setLevel)
+	 */
+	setLevel(level: LogLevel): void {
+		this.level = level;
+	}
+
+	log(entry: LogEntry): void {
+		if (isLevelEnabled(entry.level, config.logging.level)) {
+			const traceId = entry.data?.traceId;
+			console.error(
+				`[${entry.level}] ${entry.logger}: ${entry.message}${
+					traceId ? ` (trace ${traceId})` : ''
+				}`
+			);
+		}
+		if (this.send && isLevelEnabled(entry.level, this.level)) {
+			this.send(entry);
+		}
+	}
+}
@@ -0,0 +1,31 @@
+/**
+ * Map that holds at most `limit` entries, dropping the least recently used
+ * one to make room. Reading an entry with `get` counts as using it.
+ */
+export class LruMap<K, V> {
+	private entries = new Map<K, V>();
+
+	constructor(private limit: number) {}
+
+	get(key: K): V | undefined {
+		const value = this.entries.get(key);
+		if (value !== undefined) {
+			this.entries.delete(key);
+			this.entries.set(key, value);
+		}
+		return value;
+	}
+
+	set(key: K, value: V): void {
+		this.entries.delete(key);
+		this.entries.set(key, value);
+		while (this.entries.size > this.limit) {
+			const oldest = this.entries.keys().next().value as K;
+			this.entries.delete(oldest);
+		}
+	}
+
+	values(): IterableIterator<V> {
+		return this.entries.values();
+	}
+}
@@ -0,0 +1,61 @@
+import { ProxyAgent } from 'undici';
+import type { Dispatcher } from 'undici';
+import { config } from '../config.js';
+import type { ProviderId } from '../config.js';
+
+const agents = new Map<string, ProxyAgent>();
+
+/**
+ * Whether a host is excluded from proxying by the noProxy list, which holds
+ * comma-separated host names or domain suffixes ("*" matches everything)
+ */
+function bypassesProxy(host: string): boolean {
+	return config.http.noProxy
+		.split(',')
+		.map((entry) =>
+			entry
+				.trim()
+				.toLowerCase()
+				.replace(/^\*?\./, '')
+		)
+		.filter(Boolean)
+		.some(
+			(entry) =>
+				entry === '*' || host === entry || host.endsWith(`.${entry}`)
+		);
+}
+
+/**
+ * Proxy URL for a request: the provider's own proxy, else the global one
+ */
+export function proxyFor(
+	url: string,
+	provider?: ProviderId
+): string | undefined {
+	const proxy = (provider && config[provider].proxy) || config.http.proxy;
+	if (!proxy || bypassesProxy(new URL(url).hostname.toLowerCase())) {
+		return undefined;
+	}
+	return proxy;
+}
+
+/**
+ * Dispatcher that routes a request through the configured proxy, if any.
+ * Pass it as the `dispatcher` fetch option.
+ */
+export function proxyDispatcher(
+	url: string,
+	provider?: ProviderId
+): Dispatcher | undefined {
+	const proxy = proxyFor(url, provider);
+	if (!proxy) {
+		return undefined;
+	}
+
+	let agent = agents.get(proxy);
+	if (!agent) {
+		agent = new ProxyAgent(proxy);
+		agents.set(proxy, agent);
+	}
+	return agent;
+}
@@ -0,0 +1,133 @@
+import { CancelledError } from '../errors.js';
+
+/**
+ * Wait for a promise unless the signal aborts first
+ */
+export function abortable<T>(
+	promise: Promise<T>,
+	signal?: AbortSignal
+): Promise<T> {
+	if (!signal) {
+		return promise;
+	}
+	if (signal.aborted) {
+		return Promise.reject(new CancelledError());
+	}
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(new CancelledError());
+		signal.addEventListener('abort', onAbort, { once: true });
+		promise.then(resolve, reject).finally(() => {
+			signal.removeEventListener('abort', onAbort);
+		});
+	});
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	let timer: NodeJS.Timeout | undefined;
+	return abortable(
+		new Promise<void>((resolve) => {
+			timer = setTimeout(resolve, ms);
+		}),
+		signal
+	).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Token bucket that refills continuously. Callers take tokens in the order
+ * they asked for them, waiting when the bucket is empty.
+ */
+export class TokenBucket {
+	private tokens: number;
+	private updatedAt = Date.now();
+	private blockedUntil = 0;
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(private requestsPerMinute: number, private capacity: number) {
+		this.tokens = capacity;
+	}
+
+	take(): Promise<void> {
+		const turn = this.queue.then(() => this.waitForToken());
+		this.queue = turn;
+		return turn;
+	}
+
+	/**
+	 * Hold every caller back for the given time, e.g. after a 429
+	 */
+	pause(ms: number): void {
+		this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+	}
+
+	private async waitForToken(): Promise<void> {
+		const blockedFor = this.blockedUntil - Date.now();
+		if (blockedFor > 0) {
+			await sleep(blockedFor);
+		}
+
+		this.refill();
+		if (this.tokens < 1) {
+			await sleep(((1 - this.tokens) * 60000) / this.requestsPerMinute);
+			this.refill();
+		}
+		this.tokens -= 1;
+	}
+
+	private refill(): void {
+		const now = Date.now();
+		this.tokens = Math.min(
+			this.capacity,
+			this.tokens +
+				((now - this.updatedAt) * this.requestsPerMinute) / 60000
+		);
+		this.updatedAt = now;
+	}
+}
+
+/**
+ * One token bucket per upstream host, shared by every client that talks to
+ * it. The burst size is one second's worth of requests (at least one).
+ */
+export class RateLimiter {
+	private buckets = new Map<string, TokenBucket>();
+
+	/**
+	 * Wait until a request to the URL's host is allowed
+	 */
+	async acquire(
+		url: string,
+		requestsPerMinute: number,
+		signal?: AbortSignal
+	): Promise<void> {
+		if (requestsPerMinute <= 0) {
+			return;
+		}
+		await abortable(this.bucket(url, requestsPerMinute).take(), signal);
+	}
+
+	/**
+	 * Stop sending requests to the URL's host for a while
+	 */
+	pause(url: string, ms: number): void {
+		this.buckets.get(new URL(url).host)?.pause(ms);
+	}
+
+	private bucket(url: string, requestsPerMinute: number): TokenBucket {
+		const host = new URL(url).host;
+		let bucket = this.buckets.get(host);
+		if (!bucket) {
+			bucket = new TokenBucket(
+				requestsPerMinute,
+				Math.max(1, Math.floor(requestsPerMinute / 60))
+			);
+			this.buckets.set(host, bucket);
+		}
+		return bucket;
+	}
+}
+
+/**
+ * Shared limiter used by fetchJson
+ */
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Trace } from './trace.js';
+
+/**
+ * State tied to the MCP request currently being handled. It follows the
+ * request through tool handlers and API clients down to fetchJson without
+ * every function having to pass it along.
+ */
+export interface RequestContext {
+	/** Aborted when the client cancels the request */
+	signal?: AbortSignal;
+	/** Collects the upstream requests made for the call, under its trace ID */
+	trace?: Trace;
+	/** Tool being run, so upstream requests can be counted against it */
+	tool?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given request context
+ */
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+	return storage.run(context, fn);
+}
+
+/**
+ * Context of the request being handled, if any
+ */
+export function currentContext(): RequestContext {
+	return storage.getStore() ?? {};
+}
@@ -1,9 +1,6 @@
-import { spawn } from 'child_process';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { daleChall } from 'dale-chall';
+import { syllable } from 'syllable';
+import { InvalidInputError } from '../errors.js';
 
 export interface TextstatResults {
 	flesch_reading_ease: number;
@@ -26,74 +23,393 @@ export interface TextstatResults {
 	monosyllabcount: number;
 }
 
+/** Reading speed used for reading_time, in milliseconds per character */
+const MS_PER_CHAR = 14.69;
+
+/** Syllables from which a word counts as hard for the Gunning Fog index */
+const FOG_SYLLABLE_THRESHOLD = 3;
+
+/** Words of the Dale-Chall list, which most fourth graders know */
+const EASY_WORDS = new Set(daleChall);
+
+const PUNCTUATION = /[^\p{L}\p{M}\p{N}_\s]/gu;
+const SENTENCE = /[\p{L}\p{M}\p{N}_][^.!?]*[.!?]*/gu;
+const DIFFICULT_WORD_CANDIDATE = /[\p{L}\p{M}\p{N}_='‘’]+/gu;
+
 /**
- * Analyzes text readability using Python textstat library.
+ * textstat's `_legacy_round`: floor(value * 10^points + sign(value) * 0.5).
+ * Positive values round half up. Negative values land one step below the
+ * nearest value, except exact halves, which round away from zero: to one
+ * point, -1.42 gives -1.5 and -1.5 gives -1.6, while -1.45 gives -1.5.
+ * Kept as is so scores match textstat's.
  */
-export async function analyzeReadability(
-	text: string
-): Promise<TextstatResults> {
-	if (!text || text.trim().length === 0) {
-		throw new Error('Text cannot be empty');
+function legacyRound(value: number, points = 0): number {
+	const factor = 10 ** points;
+	return Math.floor(value * factor + Math.sign(value) * 0.5) / factor;
+}
+
+function removePunctuation(text: string): string {
+	return text.replace(PUNCTUATION, '');
+}
+
+/**
+ * Whitespace-separated tokens, punctuation included
+ */
+function tokens(text: string): string[] {
+	return text.split(/\s+/).filter((token) => token.length > 0);
+}
+
+/**
+ * Length in code points rather than UTF-16 units
+ */
+function length(text: string): number {
+	return [...text].length;
+}
+
+export function lexiconCount(text: string): number {
+	return tokens(removePunctuation(text)).length;
+}
+
+/**
+ * Syllables in a word or passage, with every word counting at least one.
+ * textstat counts pyphen hyphenation points instead, which never split off
+ * a single letter, so it finds fewer in words like "about".
+ */
+export function syllableCount(text: string): number {
+	return tokens(removePunctuation(text.toLowerCase())).reduce(
+		(total, word) => total + Math.max(1, syllable(word)),
+		0
+	);
+}
+
+/**
+ * Sentences in a passage. Fragments of two words or fewer, such as
+ * headings and list markers, are not counted.
+ */
+export function sentenceCount(text: string): number {
+	const sentences = text.match(SENTENCE) ?? [];
+	const counted = sentences.filter(
+		(sentence) => lexiconCount(sentence) > 2
+	).length;
+	return Math.max(1, counted);
+}
+
+/**
+ * Part of a passage with its character offsets (end exclusive)
+ */
+export interface TextSpan {
+	text: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Sentences of a passage with their offsets, split as sentenceCount splits
+ * them but keeping short fragments
+ */
+export function splitSentences(text: string): TextSpan[] {
+	return Array.from(text.matchAll(SENTENCE), (match) => {
+		const sentence = match[0].trimEnd();
+		const start = match.index ?? 0;
+		return { text: sentence, start, end: start + sentence.length };
+	});
+}
+
+export function isEasyWord(word: string): boolean {
+	return EASY_WORDS.has(word.toLowerCase());
+}
+
+/**
+ * Distinct words outside the Dale-Chall list with at least
+ * `syllableThreshold` syllables
+ */
+export function difficultWordsList(
+	text: string,
+	syllableThreshold = 2
+): string[] {
+	const candidates = new Set(
+		text.toLowerCase().match(DIFFICULT_WORD_CANDIDATE) ?? []
+	);
+	return [...candidates].filter(
+		(word) => !isEasyWord(word) && syllableCount(word) >= syllableThreshold
+	);
+}
+
+function ratio(numerator: number, denominator: number): number {
+	return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Counts a passage's formulas are built from, computed once
+ */
+interface PassageCounts {
+	text: string;
+	words: number;
+	sentences: number;
+	syllables: number;
+	chars: number;
+	letters: number;
+}
+
+function passageCounts(text: string): PassageCounts {
+	const withoutSpaces = text.replace(/ /g, '');
+	return {
+		text,
+		words: lexiconCount(text),
+		sentences: sentenceCount(text),
+		syllables: syllableCount(text),
+		chars: length(withoutSpaces),
+		letters: length(removePunctuation(withoutSpaces)),
+	};
+}
+
+function fleschReadingEase(counts: PassageCounts): number {
+	return legacyRound(
+		206.835 -
+			1.015 * ratio(counts.words, counts.sentences) -
+			84.6 * ratio(counts.syllables, counts.words),
+		2
+	);
+}
+
+function fleschKincaidGrade(counts: PassageCounts): number {
+	return legacyRound(
+		0.39 * ratio(counts.words, counts.sentences) +
+			11.8 * ratio(counts.syllables, counts.words) -
+			15.59,
+		1
+	);
+}
+
+/**
+ * Flesch-Kincaid grade and Flesch Reading Ease alone, for scoring many
+ * short passages such as single sentences
+ */
+export function fleschScores(text: string): {
+	grade: number;
+	readingEase: number;
+} {
+	const counts = passageCounts(text);
+	return {
+		grade: fleschKincaidGrade(counts),
+		readingEase: fleschReadingEase(counts),
+	};
+}
+
+function polysyllableCount(text: string): number {
+	return tokens(text).filter((word) => syllableCount(word) >= 3).length;
+}
+
+function monosyllableCount(text: string): number {
+	return tokens(text).filter((word) => syllableCount(word) < 2).length;
+}
+
+/**
+ * SMOG grade, which needs at least three sentences to mean anything
+ */
+function smogIndex(counts: PassageCounts): number {
+	if (counts.sentences < 3) {
+		return 0;
+	}
+	const polysyllables = polysyllableCount(counts.text);
+	return legacyRound(
+		1.043 * Math.sqrt((30 * polysyllables) / counts.sentences) + 3.1291,
+		1
+	);
+}
+
+function colemanLiauIndex(counts: PassageCounts): number {
+	const letters = legacyRound(ratio(counts.letters, counts.words) * 100, 2);
+	const sentences = legacyRound(
+		ratio(counts.sentences, counts.words) * 100,
+		2
+	);
+	return legacyRound(0.058 * letters - 0.296 * sentences - 15.8, 2);
+}
+
+function automatedReadabilityIndex(counts: PassageCounts): number {
+	if (counts.words === 0) {
+		return 0;
+	}
+	return legacyRound(
+		4.71 * legacyRound(counts.chars / counts.words, 2) +
+			0.5 * legacyRound(counts.words / counts.sentences, 2) -
+			21.43,
+		1
+	);
+}
+
+/**
+ * Linsear Write grade, scored on the first 100 words
+ */
+function linsearWriteFormula(text: string): number {
+	const sample = tokens(text).slice(0, 100);
+	const hard = sample.filter((word) => syllableCount(word) >= 3).length;
+	const easy = sample.length - hard;
+	let score = (easy + hard * 3) / sentenceCount(sample.join(' '));
+	if (score <= 20) {
+		score -= 2;
+	}
+	return score / 2;
+}
+
+function daleChallScore(counts: PassageCounts): number {
+	if (counts.words === 0) {
+		return 0;
+	}
+	const unfamiliar = difficultWordsList(counts.text, 0).length;
+	const percentUnfamiliar =
+		100 - ((counts.words - unfamiliar) / counts.words) * 100;
+	let score =
+		0.1579 * percentUnfamiliar + 0.0496 * (counts.words / counts.sentences);
+	if (percentUnfamiliar > 5) {
+		score += 3.6365;
+	}
+	return legacyRound(score, 2);
+}
+
+function gunningFog(counts: PassageCounts): number {
+	if (counts.words === 0) {
+		return 0;
+	}
+	const hardWords = difficultWordsList(
+		counts.text,
+		FOG_SYLLABLE_THRESHOLD
+	).length;
+	return legacyRound(
+		0.4 *
+			(counts.words / counts.sentences +
+				(hardWords / counts.words) * 100),
+		2
+	);
+}
+
+/**
+ * Grade band a Flesch Reading Ease score corresponds to. Scores of 100 and
+ * above fall through to the last band, as in textstat.
+ */
+function readingEaseGrades(score: number): number[] {
+	if (score < 100 && score >= 90) return [5];
+	if (score < 90 && score >= 80) return [6];
+	if (score < 80 && score >= 70) return [7];
+	if (score < 70 && score >= 60) return [8, 9];
+	if (score < 60 && score >= 50) return [10];
+	if (score < 50 && score >= 40) return [11];
+	if (score < 40 && score >= 30) return [12];
+	return [13];
+}
+
+/**
+ * Ordinal suffix, taking remainders as Python does so negative grades
+ * match textstat's ("-1th")
+ */
+function gradeSuffix(grade: number): string {
+	const remainder = (divisor: number) =>
+		((grade % divisor) + divisor) % divisor;
+	if (remainder(100) >= 11 && remainder(100) <= 13) {
+		return 'th';
 	}
+	return { 1: 'st', 2: 'nd', 3: 'rd' }[remainder(10)] ?? 'th';
+}
+
+/**
+ * Consensus grade: the grade most of the formulas agree on, each formula
+ * voting for its score rounded down and up. Ties go to the earliest vote.
+ */
+function textStandard(scores: {
+	fleschKincaid: number;
+	readingEase: number;
+	smog: number;
+	colemanLiau: number;
+	ari: number;
+	daleChall: number;
+	linsear: number;
+	fog: number;
+}): string {
+	const votes = [
+		legacyRound(scores.fleschKincaid),
+		Math.ceil(scores.fleschKincaid),
+		...readingEaseGrades(scores.readingEase),
+		...[
+			scores.smog,
+			scores.colemanLiau,
+			scores.ari,
+			scores.daleChall,
+			scores.linsear,
+			scores.fog,
+		].flatMap((score) => [legacyRound(score), Math.ceil(score)]),
+	];
 
-	const pythonScript = join(__dirname, 'textstat-helper.py');
-
-	return new Promise((resolve, reject) => {
-		const python = spawn('python', [pythonScript]);
-
-		let stdout = '';
-		let stderr = '';
-
-		python.stdout.on('data', (data) => {
-			stdout += data.toString();
-		});
-
-		python.stderr.on('data', (data) => {
-			stderr += data.toString();
-		});
-
-		python.on('close', (code) => {
-			if (code !== 0) {
-				try {
-					const errorData = JSON.parse(stdout);
-					reject(
-						new Error(
-							`Python textstat error: ${errorData.error} (${errorData.type})`
-						)
-					);
-				} catch {
-					reject(
-						new Error(
-							`Python process failed with code ${code}: ${stderr}`
-						)
-					);
-				}
-				return;
-			}
-
-			try {
-				const results = JSON.parse(stdout) as TextstatResults;
-				resolve(results);
-			} catch (error) {
-				reject(
-					new Error(
-						`Failed to parse textstat results: ${
-							error instanceof Error
-								? error.message
-								: 'Unknown error'
-						}`
-					)
-				);
-			}
-		});
-
-		python.on('error', (error) => {
-			reject(
-				new Error(`Failed to spawn Python process: ${error.message}`)
-			);
-		});
-
-		python.stdin.write(JSON.stringify({ text }));
-		python.stdin.end();
+	const tally = new Map<number, number>();
+	votes.forEach((grade) => tally.set(grade, (tally.get(grade) ?? 0) + 1));
+	let consensus = votes[0];
+	tally.forEach((count, grade) => {
+		if (count > (tally.get(consensus) ?? 0)) {
+			consensus = grade;
+		}
 	});
+
+	const lower = Math.trunc(consensus) - 1;
+	const upper = lower + 1;
+	return `${lower}${gradeSuffix(lower)} and ${upper}${gradeSuffix(
+		upper
+	)} grade`;
+}
+
+/**
+ * Seconds to read a passage at a fixed speed per character
+ */
+function readingTime(text: string): number {
+	const chars = tokens(text).reduce((total, word) => total + length(word), 0);
+	return legacyRound((chars * MS_PER_CHAR) / 1000, 2);
+}
+
+/**
+ * Readability metrics for a passage, computed as the Python textstat
+ * library computes them so scores match those it reports
+ */
+export function analyzeReadability(text: string): TextstatResults {
+	if (!text || text.trim().length === 0) {
+		throw new InvalidInputError('Text cannot be empty');
+	}
+
+	const counts = passageCounts(text);
+	const fleschKincaid = fleschKincaidGrade(counts);
+	const readingEase = fleschReadingEase(counts);
+	const smog = smogIndex(counts);
+	const colemanLiau = colemanLiauIndex(counts);
+	const ari = automatedReadabilityIndex(counts);
+	const linsear = linsearWriteFormula(text);
+	const daleChall = daleChallScore(counts);
+	const fog = gunningFog(counts);
+
+	return {
+		flesch_reading_ease: readingEase,
+		flesch_kincaid_grade: fleschKincaid,
+		gunning_fog: fog,
+		smog_index: smog,
+		automated_readability_index: ari,
+		coleman_liau_index: colemanLiau,
+		linsear_write_formula: linsear,
+		dale_chall_readability_score: daleChall,
+		difficult_words: difficultWordsList(text).length,
+		text_standard: textStandard({
+			fleschKincaid,
+			readingEase,
+			smog,
+			colemanLiau,
+			ari,
+			daleChall,
+			linsear,
+			fog,
+		}),
+		reading_time: readingTime(text),
+		syllable_count: counts.syllables,
+		lexicon_count: counts.words,
+		sentence_count: counts.sentences,
+		char_count: counts.chars,
+		letter_count: counts.letters,
+		polysyllabcount: polysyllableCount(text),
+		monosyllabcount: monosyllableCount(text),
+	};
 }
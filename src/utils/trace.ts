@@ -0,0 +1,69 @@
+import { randomBytes } from 'crypto';
+import type { ProviderId } from '../config.js';
+import type { Logger } from './logger.js';
+
+/**
+ * One upstream request made while handling a call
+ */
+export interface UpstreamCall {
+	provider?: ProviderId;
+	method: string;
+	host: string;
+	/** HTTP status; absent for cache hits and requests that got no response */
+	status?: number;
+	latencyMs: number;
+	cacheHit: boolean;
+	/** Error code when the request failed without a response */
+	error?: string;
+}
+
+/**
+ * Record of a single tool call: an ID to correlate log entries, and the
+ * upstream requests it made. fetchJson finds the trace through the request
+ * context.
+ */
+export class Trace {
+	readonly id = randomBytes(8).toString('hex');
+	readonly calls: UpstreamCall[] = [];
+	private startedAt = Date.now();
+
+	constructor(readonly name: string, readonly logger: Logger) {}
+
+	record(call: UpstreamCall): void {
+		this.calls.push(call);
+		this.logger.log({
+			level: 'debug',
+			logger: 'http',
+			message: `${call.method} ${call.host} ${
+				call.cacheHit ? 'cache hit' : call.status ?? call.error
+			} in ${call.latencyMs}ms`,
+			data: { traceId: this.id, ...call },
+		});
+	}
+
+	/**
+	 * Log how the call ended, with every upstream request it made
+	 */
+	finish(error?: string): void {
+		const durationMs = Date.now() - this.startedAt;
+		const cached = this.calls.filter((call) => call.cacheHit).length;
+		const upstream = `${this.calls.length} upstream call${
+			this.calls.length === 1 ? '' : 's'
+		}${cached > 0 ? ` (${cached} cached)` : ''}`;
+
+		this.logger.log({
+			level: error ? 'warning' : 'info',
+			logger: 'tools',
+			message: error
+				? `${this.name} failed in ${durationMs}ms after ${upstream}: ${error}`
+				: `${this.name} finished in ${durationMs}ms with ${upstream}`,
+			data: {
+				traceId: this.id,
+				name: this.name,
+				durationMs,
+				calls: this.calls,
+				...(error && { error }),
+			},
+		});
+	}
+}
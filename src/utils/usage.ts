@@ -0,0 +1,303 @@
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { config, PROVIDER_NAMES } from '../config.js';
+import type { ProviderId } from '../config.js';
+import { QuotaExceededError } from '../errors.js';
+import type { UsageReportResult } from '../types.js';
+import { Logger } from './logger.js';
+import { currentContext } from './request-context.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ToolUsage {
+	calls: number;
+	errors: number;
+	/** Upstream requests made by the tool's calls */
+	upstream: number;
+}
+
+interface DayUsage {
+	providers: Partial<Record<ProviderId, number>>;
+	tools: Record<string, ToolUsage>;
+}
+
+/**
+ * Counters kept on disk, one entry per UTC day
+ */
+interface UsageFile {
+	days: Record<string, DayUsage>;
+}
+
+const stderrLogger = new Logger();
+
+function dayKey(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+function day(usage: UsageFile, key: string): DayUsage {
+	usage.days[key] ??= { providers: {}, tools: {} };
+	return usage.days[key];
+}
+
+function toolUsage(usage: DayUsage, tool: string): ToolUsage {
+	usage.tools[tool] ??= { calls: 0, errors: 0, upstream: 0 };
+	return usage.tools[tool];
+}
+
+/**
+ * Persistent per-day counts of upstream requests by provider and of calls by
+ * tool, with the providers' daily budgets enforced before each request.
+ * Updates are applied one at a time and re-read the file first. The file is
+ * replaced atomically, so a process sharing the data directory never reads a
+ * partial file, but there is no lock: updates made by two processes at the
+ * same moment can overwrite each other.
+ */
+export class UsageStore {
+	private filePath: string;
+	private queue: Promise<unknown> = Promise.resolve();
+
+	constructor(
+		filePath: string = join(config.storage.dataDir, 'usage.json'),
+		private now: () => Date = () => new Date()
+	) {
+		this.filePath = filePath;
+	}
+
+	/**
+	 * Count an upstream request to a provider, against the tool making it.
+	 * Throws QuotaExceededError instead when the provider's daily budget is
+	 * used up and set to block; logs a warning as the budget runs low.
+	 */
+	async reserve(provider: ProviderId): Promise<void> {
+		const { tool } = currentContext();
+		const { dailyBudget: budget, budgetAction } = config[provider];
+
+		const used = await this.update((usage) => {
+			const today = day(usage, dayKey(this.now()));
+			const count = today.providers[provider] ?? 0;
+			if (
+				budget !== undefined &&
+				count >= budget &&
+				budgetAction === 'block'
+			) {
+				throw new QuotaExceededError(
+					provider,
+					budget,
+					this.untilReset()
+				);
+			}
+
+			today.providers[provider] = count + 1;
+			if (tool) {
+				toolUsage(today, tool).upstream += 1;
+			}
+			return count + 1;
+		});
+
+		if (budget !== undefined) {
+			this.warn(provider, used, budget);
+		}
+	}
+
+	/**
+	 * Count a call to a tool that got as far as running its handler
+	 */
+	async recordToolCall(tool: string, failed: boolean): Promise<void> {
+		await this.update((usage) => {
+			const counts = toolUsage(day(usage, dayKey(this.now())), tool);
+			counts.calls += 1;
+			if (failed) {
+				counts.errors += 1;
+			}
+		});
+	}
+
+	/**
+	 * Totals over the last `days` days (today included) and where each
+	 * provider stands against its budget today
+	 */
+	async report(days: number): Promise<UsageReportResult> {
+		const usage = (await this.load()) ?? { days: {} };
+		const now = this.now();
+		const today = usage.days[dayKey(now)] ?? { providers: {}, tools: {} };
+		const period = Array.from({ length: days }, (_, index) =>
+			dayKey(new Date(now.getTime() - index * DAY_MS))
+		)
+			.map((key) => usage.days[key])
+			.filter((entry): entry is DayUsage => entry !== undefined);
+
+		const providerTotals = new Map<ProviderId, number>();
+		const toolTotals = new Map<string, ToolUsage>();
+		period.forEach((entry) => {
+			(Object.entries(entry.providers) as [ProviderId, number][]).forEach(
+				([provider, count]) => {
+					providerTotals.set(
+						provider,
+						(providerTotals.get(provider) ?? 0) + count
+					);
+				}
+			);
+			Object.entries(entry.tools).forEach(([tool, counts]) => {
+				const total = toolTotals.get(tool) ?? {
+					calls: 0,
+					errors: 0,
+					upstream: 0,
+				};
+				total.calls += counts.calls;
+				total.errors += counts.errors;
+				total.upstream += counts.upstream;
+				toolTotals.set(tool, total);
+			});
+		});
+
+		const providers = Object.keys(PROVIDER_NAMES) as ProviderId[];
+		return {
+			date: dayKey(now),
+			days,
+			resetsAt: new Date(
+				now.getTime() + this.untilReset(now)
+			).toISOString(),
+			budgets: providers
+				.filter(
+					(provider) =>
+						config[provider].dailyBudget !== undefined ||
+						today.providers[provider] !== undefined
+				)
+				.map((provider) => {
+					const used = today.providers[provider] ?? 0;
+					const budget = config[provider].dailyBudget ?? null;
+					return {
+						provider,
+						name: PROVIDER_NAMES[provider],
+						used,
+						budget,
+						remaining:
+							budget === null ? null : Math.max(0, budget - used),
+						action: config[provider].budgetAction,
+					};
+				}),
+			providers: Array.from(providerTotals.entries())
+				.map(([provider, requests]) => ({
+					provider,
+					name: PROVIDER_NAMES[provider],
+					requests,
+				}))
+				.sort((a, b) => b.requests - a.requests),
+			tools: Array.from(toolTotals.entries())
+				.map(([name, counts]) => ({ name, ...counts }))
+				.sort((a, b) => b.calls - a.calls),
+		};
+	}
+
+	private warn(provider: ProviderId, used: number, budget: number): void {
+		const threshold = Math.ceil(
+			(budget * config.usage.warnAtPercent) / 100
+		);
+		let message: string | undefined;
+		if (used > budget) {
+			message = `${PROVIDER_NAMES[provider]} is over its daily budget: ${used} of ${budget} requests`;
+		} else if (used === threshold || used === budget) {
+			message = `${PROVIDER_NAMES[provider]} has used ${used} of its ${budget} daily requests`;
+		}
+		if (message) {
+			this.logWarning(message, { provider, used, budget });
+		}
+	}
+
+	private logWarning(message: string, data: Record<string, unknown>): void {
+		const { trace } = currentContext();
+		(trace?.logger ?? stderrLogger).log({
+			level: 'warning',
+			logger: 'usage',
+			message,
+			data: { ...(trace && { traceId: trace.id }), ...data },
+		});
+	}
+
+	/**
+	 * Milliseconds until the next UTC midnight, when budgets reset
+	 */
+	private untilReset(now: Date = this.now()): number {
+		return DAY_MS - (now.getTime() % DAY_MS);
+	}
+
+	/**
+	 * Apply a change to the counters on disk, after any pending ones
+	 */
+	private update<T>(change: (usage: UsageFile) => T): Promise<T> {
+		const next = this.queue.then(async () => {
+			const usage = await this.load();
+			const result = change(usage ?? { days: {} });
+			if (usage) {
+				await this.save(usage);
+			}
+			return result;
+		});
+		this.queue = next.catch(() => undefined);
+		return next;
+	}
+
+	/**
+	 * The counters on disk, empty when there is no file yet. Undefined when
+	 * the file cannot be read, so that it is left alone rather than replaced
+	 * with counts that start again from zero. A file that is not valid usage
+	 * JSON is moved aside with a warning and counting starts over.
+	 */
+	private async load(): Promise<UsageFile | undefined> {
+		let raw: string;
+		try {
+			raw = await readFile(this.filePath, 'utf8');
+		} catch (error) {
+			return (error as NodeJS.ErrnoException).code === 'ENOENT'
+				? { days: {} }
+				: undefined;
+		}
+		try {
+			const usage = JSON.parse(raw);
+			if (usage && typeof usage.days === 'object') {
+				return usage;
+			}
+		} catch {
+			// Moved aside below
+		}
+
+		const aside = `${this.filePath}.corrupt-${this.now().getTime()}`;
+		try {
+			await rename(this.filePath, aside);
+		} catch {
+			return undefined;
+		}
+		this.logWarning(
+			`Usage counts in ${this.filePath} could not be parsed; moved to ${aside} and starting again`,
+			{ path: aside }
+		);
+		return { days: {} };
+	}
+
+	private async save(usage: UsageFile): Promise<void> {
+		const oldest = dayKey(
+			new Date(this.now().getTime() - config.usage.retentionDays * DAY_MS)
+		);
+		Object.keys(usage.days)
+			.filter((key) => key <= oldest)
+			.forEach((key) => delete usage.days[key]);
+
+		const temporary = `${this.filePath}.${randomBytes(4).toString(
+			'hex'
+		)}.tmp`;
+		try {
+			await mkdir(dirname(this.filePath), { recursive: true });
+			await writeFile(temporary, JSON.stringify(usage, null, 2));
+			await rename(temporary, this.filePath);
+		} catch {
+			// Counts that cannot be saved are lost, but requests still go out
+			await rm(temporary, { force: true }).catch(() => undefined);
+		}
+	}
+}
+
+/**
+ * Shared usage counters, updated by fetchJson and the tool registry
+ */
+export const usageStore = new UsageStore();
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CrossRefClient } from '../../src/api/crossref.js';
+
+describe('CrossRefClient', () => {
+	const client = new CrossRefClient();
+
+	it('returns the metadata for a DOI', async () => {
+		const work = await client.getWork('10.1038/nature12373');
+
+		expect(work.DOI).toBe('10.1038/nature12373');
+		expect(work.title).toEqual([
+			'Nanometre-scale thermometry in a living cell',
+		]);
+		expect(work['container-title']).toEqual(['Nature']);
+		expect(work.author?.[0]).toMatchObject({
+			given: 'G.',
+			family: 'Kucsko',
+		});
+	});
+
+	it('fails with NOT_FOUND for an unknown DOI', async () => {
+		await expect(
+			client.getWork('10.9999/does-not-exist')
+		).rejects.toMatchObject({
+			code: 'NOT_FOUND',
+			provider: 'crossref',
+			status: 404,
+		});
+	});
+
+	it('reports unregistered DOIs', async () => {
+		await expect(client.checkDoi('10.9999/does-not-exist')).resolves.toBe(
+			false
+		);
+		await expect(client.checkDoi('10.1038/nature12373')).resolves.toBe(
+			true
+		);
+	});
+
+	it('searches works with a row limit', async () => {
+		const results = await client.searchWorks({
+			query: 'thermometry living cell',
+			rows: 2,
+		});
+
+		expect(results.message['total-results']).toBe(3127);
+		expect(results.message.items.map((item) => item.DOI)).toEqual([
+			'10.1038/nature12373',
+			'10.1021/nl403125p',
+		]);
+	});
+
+	it('looks up the registration agency', async () => {
+		const result = await client.getAgency('10.1038/nature12373');
+
+		expect(result.agency.id).toBe('crossref');
+	});
+});
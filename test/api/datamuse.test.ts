@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DatamuseClient } from '../../src/api/datamuse.js';
+
+describe('DatamuseClient', () => {
+	const client = new DatamuseClient();
+
+	it('finds words with similar meaning, with definitions', async () => {
+		const words = await client.findSimilarMeaning('happy', 3);
+
+		expect(words.map((word) => word.word)).toEqual([
+			'glad',
+			'felicitous',
+			'joyful',
+		]);
+		expect(words[0].defs?.[0]).toContain('Feeling pleasure');
+	});
+
+	it('finds rhymes with syllable counts', async () => {
+		const words = await client.findRhymes('cat', 3);
+
+		expect(words[2]).toMatchObject({ word: 'acrobat', numSyllables: 3 });
+	});
+
+	it('suggests completions for a prefix', async () => {
+		const words = await client.suggest('serend', 2);
+
+		expect(words.map((word) => word.word)).toEqual([
+			'serendipity',
+			'serendipitous',
+		]);
+	});
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { LanguageToolClient } from '../../src/api/languagetool.js';
+
+describe('LanguageToolClient', () => {
+	const client = new LanguageToolClient();
+	const text = 'This are a tset of the system.';
+
+	it('returns matches with rules and replacements', async () => {
+		const result = await client.checkText({ text });
+
+		expect(result.language.code).toBe('en-US');
+		expect(result.matches).toHaveLength(3);
+		expect(result.matches[0].replacements[0].value).toBe('is');
+	});
+
+	it('sorts matches into grammar, spelling and style', async () => {
+		const result = await client.checkWithCategories(text);
+
+		expect(result.totalErrors).toBe(3);
+		expect(result.grammar.map((match) => match.rule.id)).toEqual([
+			'THIS_NNS_VB',
+		]);
+		expect(result.spelling.map((match) => match.rule.id)).toEqual([
+			'MORFOLOGIK_RULE_EN_US',
+		]);
+		expect(result.style.map((match) => match.rule.id)).toEqual([
+			'OF_THE_SYSTEM',
+		]);
+		expect(result.other).toEqual([]);
+	});
+
+	it('lists supported languages', async () => {
+		const languages = await client.getLanguages();
+
+		expect(languages.map((language) => language.longCode)).toContain(
+			'en-GB'
+		);
+	});
+});
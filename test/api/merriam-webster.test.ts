@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { MerriamWebsterAPI } from '../../src/api/merriam-webster.js';
+
+describe('MerriamWebsterAPI', () => {
+	const api = new MerriamWebsterAPI();
+
+	describe('getThesaurus', () => {
+		it('collects synonyms and antonyms from every entry', async () => {
+			const result = await api.getThesaurus('test');
+
+			expect(result.word).toBe('test');
+			expect(result.entries).toHaveLength(10);
+			expect(result.entries[0]).toMatchObject({
+				id: 'test',
+				partOfSpeech: 'noun',
+			});
+			expect(result.entries[0].synonyms).toEqual(
+				expect.arrayContaining(['essay', 'trial', 'exam', 'quiz'])
+			);
+			expect(result.entries[0].definitions.length).toBeGreaterThan(0);
+		});
+
+		it('reports spelling suggestions when the word is unknown', async () => {
+			await expect(api.getThesaurus('tset')).rejects.toMatchObject({
+				code: 'NOT_FOUND',
+				message: expect.stringContaining('Did you mean: test, tests'),
+				details: { suggestions: expect.arrayContaining(['text']) },
+			});
+		});
+	});
+
+	describe('getDictionary', () => {
+		it('returns the headword, part of speech and definitions', async () => {
+			const result = await api.getDictionary('serendipity');
+
+			expect(result).toEqual({
+				word: 'ser*en*dip*i*ty',
+				partOfSpeech: 'noun',
+				definitions: [
+					expect.stringContaining(
+						'finding valuable or agreeable things'
+					),
+				],
+			});
+		});
+
+		it('throws when there are no results', async () => {
+			await expect(api.getDictionary('qwxzv')).rejects.toThrow(
+				'No results found for "qwxzv"'
+			);
+		});
+	});
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { QuotableClient } from '../../src/api/quotable.js';
+
+describe('QuotableClient', () => {
+	const client = new QuotableClient();
+
+	it('searches quotes', async () => {
+		const results = await client.searchQuotes({
+			query: 'imagination',
+			limit: 2,
+		});
+
+		expect(results.totalCount).toBe(14);
+		expect(results.results[0]).toMatchObject({
+			content: 'Imagination is more important than knowledge.',
+			author: 'Albert Einstein',
+		});
+	});
+
+	it('returns a random quote for the given tags', async () => {
+		const quote = await client.getRandomQuote({ tags: ['wisdom'] });
+
+		expect(quote.author).toBe('Socrates');
+		expect(quote.tags).toContain('Wisdom');
+	});
+
+	it('lists tags', async () => {
+		const tags = await client.listTags();
+
+		expect(tags.map((tag) => tag.name)).toEqual([
+			'Wisdom',
+			'Famous Quotes',
+		]);
+	});
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SaplingAPI } from '../../src/api/sapling.js';
+
+describe('SaplingAPI', () => {
+	const api = new SaplingAPI();
+
+	it('maps grammar edits to suggestions with positions', async () => {
+		const result = await api.checkGrammar('She go to school every days.');
+
+		expect(result.errorCount).toBe(2);
+		expect(result.suggestions[0]).toEqual({
+			original: 'go',
+			replacement: 'goes',
+			type: 'R:VERB:SVA',
+			category: 'Grammar',
+			position: { start: 4, end: 6 },
+		});
+		expect(result.suggestions[1].original).toBe('days');
+	});
+
+	it('returns no suggestions for clean text', async () => {
+		const result = await api.checkGrammar('She goes to school every day.');
+
+		expect(result).toEqual({ errorCount: 0, suggestions: [] });
+	});
+
+	it('treats tones scoring above 0.6 as dominant', async () => {
+		const result = await api.analyzeTone(
+			'We will deliver the project on schedule and within budget.'
+		);
+
+		expect(result.overall).toBe('confident');
+		expect(result.dominant).toEqual(['confident', 'formal']);
+	});
+
+	it('classifies a strongly positive score with high confidence', async () => {
+		const result = await api.analyzeSentiment(
+			'I absolutely loved this book!'
+		);
+
+		expect(result).toEqual({
+			sentiment: 'positive',
+			score: 0.85,
+			confidence: 'high',
+		});
+	});
+
+	it('flags likely AI-written sentences and adds recommendations', async () => {
+		const result = await api.detectAI(
+			"In today's fast-paced world, technology plays a pivotal role in shaping how we communicate. It has changed a lot. My grandmother still writes letters."
+		);
+
+		expect(result.overallScore).toBe(0.92);
+		expect(result.likelihood).toBe('high');
+		expect(result.flaggedSentences).toHaveLength(1);
+		expect(result.flaggedSentences[0].text.endsWith('...')).toBe(true);
+		expect(result.suspiciousSentences).toEqual([
+			{ text: 'It has changed a lot.', score: 0.41, index: 0 },
+		]);
+		expect(result.recommendations?.length).toBeGreaterThan(0);
+	});
+});
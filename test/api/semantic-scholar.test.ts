@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { SemanticScholarClient } from '../../src/api/semantic-scholar.js';
+
+const PAPER_ID = '204e3073870fae3d05bcbc2f6a8e263d9b72e776';
+
+describe('SemanticScholarClient', () => {
+	const client = new SemanticScholarClient();
+
+	it('searches papers', async () => {
+		const results = await client.searchPapers({
+			query: 'attention is all you need',
+			fields: ['title', 'year', 'authors'],
+			limit: 2,
+		});
+
+		expect(results.total).toBe(6843);
+		expect(results.data).toHaveLength(2);
+		expect(results.data[0]).toMatchObject({
+			paperId: PAPER_ID,
+			title: 'Attention is All you Need',
+			year: 2017,
+		});
+	});
+
+	it('fetches a single paper with the requested fields', async () => {
+		const paper = await client.getPaper(PAPER_ID, [
+			'title',
+			'year',
+			'authors',
+			'venue',
+			'citationCount',
+			'isOpenAccess',
+			'externalIds',
+		]);
+
+		expect(paper.authors?.[0].name).toBe('Ashish Vaswani');
+		expect(paper.externalIds?.ArXiv).toBe('1706.03762');
+	});
+
+	it('fetches papers in a batch', async () => {
+		const papers = await client.getPapers(
+			[PAPER_ID, '0000000000000000000000000000000000000000'],
+			['title', 'year']
+		);
+
+		expect(papers[0].title).toBe('Attention is All you Need');
+		expect(papers[1]).toBeNull();
+	});
+
+	it('rejects batches over 500 IDs without a request', async () => {
+		const ids = Array.from({ length: 501 }, (_, i) => String(i));
+
+		await expect(client.getPapers(ids)).rejects.toThrow(
+			'Maximum 500 paper IDs'
+		);
+	});
+});
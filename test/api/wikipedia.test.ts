@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { WikipediaClient } from '../../src/api/wikipedia.js';
+
+describe('WikipediaClient', () => {
+	const client = new WikipediaClient();
+
+	it('returns article titles from an OpenSearch query', async () => {
+		const titles = await client.search('Alan Turing', 3);
+
+		expect(titles).toEqual([
+			'Alan Turing',
+			'Alan Turing Institute',
+			'Alan Turing Year',
+		]);
+	});
+
+	it('returns the summary of an article', async () => {
+		const page = await client.getSummary('Alan Turing');
+
+		expect(page).toEqual({
+			pageid: 1208,
+			title: 'Alan Turing',
+			extract: expect.stringContaining('English mathematician'),
+			fullurl: 'https://en.wikipedia.org/wiki/Alan_Turing',
+		});
+	});
+
+	it('throws when the article does not exist', async () => {
+		await expect(
+			client.getSummary('Qwxzv Nonexistent Article')
+		).rejects.toThrow('Article not found: Qwxzv Nonexistent Article');
+	});
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { WordnikClient } from '../../src/api/wordnik.js';
+
+describe('WordnikClient', () => {
+	const client = new WordnikClient({
+		apiKey: process.env.WORDNIK_API_KEY ?? '',
+	});
+
+	it('returns definitions', async () => {
+		const definitions = await client.getDefinitions('serendipity', {
+			limit: 2,
+		});
+
+		expect(definitions).toHaveLength(2);
+		expect(definitions[0]).toMatchObject({
+			partOfSpeech: 'noun',
+			text: 'The faculty of making fortunate discoveries by accident.',
+		});
+	});
+
+	it('returns the word of the day for a date', async () => {
+		const result = await client.getWordOfTheDay('2024-01-15');
+
+		expect(result.word).toBe('ebullient');
+		expect(result.definitions[0].text).toBe('Zestfully enthusiastic.');
+		expect(result.examples?.[0].text).toContain('ebullient host');
+	});
+
+	it('groups related words by relationship type', async () => {
+		const related = await client.getRelatedWords('happy', [
+			'synonym',
+			'antonym',
+		]);
+
+		expect(
+			related.find((group) => group.relationshipType === 'synonym')?.words
+		).toContain('cheerful');
+	});
+});
@@ -0,0 +1,93 @@
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MockInstance } from 'vitest';
+import { runCli } from '../src/cli.js';
+import { config } from '../src/config.js';
+
+describe('runCli', () => {
+	let log: MockInstance;
+	let error: MockInstance;
+
+	// Offline commands must not touch the network or the fixtures
+	beforeEach(() => {
+		config.http.fixtures = 'off';
+		log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+		error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		config.server.offline = false;
+		config.http.fixtures = 'replay';
+	});
+
+	function output(spy: MockInstance): string {
+		return spy.mock.calls.map((call) => call.join(' ')).join('\n');
+	}
+
+	it('runs a tool on the text of a file', async () => {
+		const file = join(tmpdir(), 'english-mcp-cli-grammar.txt');
+		await writeFile(file, 'This are a test of the the system.');
+
+		const code = await runCli(['grammar', file, '--offline']);
+
+		expect(code).toBe(0);
+		expect(output(log)).toContain('This is');
+	});
+
+	it('prints structured results with --json', async () => {
+		const code = await runCli(['synonyms', 'big', '--offline', '--json']);
+
+		expect(code).toBe(0);
+		const result = JSON.parse(output(log));
+		expect(result.entries[0].synonyms).toContain('large');
+	});
+
+	it('picks the grammar tool from --provider', async () => {
+		const file = join(tmpdir(), 'english-mcp-cli-provider.txt');
+		await writeFile(file, 'This are wrong.');
+
+		await runCli([
+			'grammar',
+			'--provider',
+			'languagetool',
+			file,
+			'--offline',
+			'--json',
+		]);
+
+		expect(JSON.parse(output(log)).summary.grammar).toBe(1);
+	});
+
+	it('calls any tool by name with JSON arguments', async () => {
+		const code = await runCli([
+			'call',
+			'check_grammar',
+			'--args',
+			'{"text": "This are wrong."}',
+			'--offline',
+			'--json',
+		]);
+
+		expect(code).toBe(0);
+		expect(JSON.parse(output(log)).errorCount).toBe(1);
+	});
+
+	it('reports tool errors with exit code 1', async () => {
+		const code = await runCli(['cite', '10.1/missing', '--offline']);
+
+		expect(code).toBe(1);
+		expect(output(error)).toMatch(/^Error \(OFFLINE\)/);
+	});
+
+	it('rejects bad usage with exit code 2', async () => {
+		expect(await runCli(['related'])).toBe(2);
+		expect(await runCli(['grammar', '--provider', 'word'])).toBe(2);
+		expect(await runCli(['nonsense'])).toBe(2);
+		expect(output(error)).toContain('Unknown command "nonsense"');
+		expect(await runCli(['constructor'])).toBe(2);
+		expect(await runCli(['toString'])).toBe(2);
+	});
+});
@@ -0,0 +1,141 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { describe, expect, it } from 'vitest';
+import { completeArgument } from '../src/completions.js';
+import { corePrompts } from '../src/prompts/definitions.js';
+import { PromptRegistry } from '../src/prompts/registry.js';
+import { coreResources } from '../src/resources/definitions.js';
+import { ResourceRegistry } from '../src/resources/registry.js';
+import { createServer } from '../src/server.js';
+import { coreTools } from '../src/tools/definitions.js';
+import { ToolRegistry } from '../src/tools/registry.js';
+
+const sources = {
+	tools: new ToolRegistry(coreTools),
+	prompts: new PromptRegistry(corePrompts),
+	resources: new ResourceRegistry(coreResources),
+};
+
+async function values(
+	ref: Parameters<typeof completeArgument>[0]['ref'],
+	name: string,
+	value: string
+) {
+	const { completion } = await completeArgument(
+		{ ref, argument: { name, value } },
+		sources
+	);
+	return completion.values;
+}
+
+describe('completeArgument', () => {
+	it('completes enum arguments of tools from their schemas', async () => {
+		const formatCitation = {
+			type: 'ref/tool',
+			name: 'format_citation',
+		} as const;
+		expect(await values(formatCitation, 'style', '')).toEqual([
+			'mla',
+			'apa',
+			'chicago',
+			'harvard',
+			'vancouver',
+		]);
+		expect(await values(formatCitation, 'format', 'H')).toEqual(['html']);
+		expect(
+			await values(
+				{ type: 'ref/tool', name: 'find_word_relationships' },
+				'type',
+				's'
+			)
+		).toEqual(['synonyms', 'similar-meaning', 'sounds-like']);
+	});
+
+	it('completes citation styles for prompts and resource templates', async () => {
+		expect(
+			await values(
+				{ type: 'ref/prompt', name: 'annotated_bibliography' },
+				'style',
+				'ha'
+			)
+		).toEqual(['harvard']);
+		expect(
+			await values(
+				{ type: 'ref/resource', uri: 'bibliography://saved/{style}' },
+				'style',
+				'v'
+			)
+		).toEqual(['vancouver']);
+	});
+
+	it('completes quote tags from Quotable, most used first', async () => {
+		const randomQuote = {
+			type: 'ref/tool',
+			name: 'get_random_quote',
+		} as const;
+		expect(await values(randomQuote, 'tags', '')).toEqual([
+			'Famous Quotes',
+			'Wisdom',
+		]);
+		expect(await values(randomQuote, 'tags', 'wis')).toEqual(['Wisdom']);
+	});
+
+	it('suggests nothing for unknown arguments or failed lookups', async () => {
+		expect(
+			await values(
+				{ type: 'ref/tool', name: 'check_grammar' },
+				'style',
+				'm'
+			)
+		).toEqual([]);
+		expect(
+			await values({ type: 'ref/prompt', name: 'nope' }, 'style', 'm')
+		).toEqual([]);
+		for (const ref of [
+			{ type: 'ref/tool', name: 'check_grammar' },
+			{ type: 'ref/prompt', name: 'annotated_bibliography' },
+			{ type: 'ref/resource', uri: 'bibliography://saved/{style}' },
+		] as const) {
+			expect(await values(ref, 'constructor', '')).toEqual([]);
+			expect(await values(ref, 'toString', '')).toEqual([]);
+		}
+		// No fixture is recorded for this lookup, so it fails
+		expect(
+			await values(
+				{ type: 'ref/tool', name: 'get_synonyms_antonyms' },
+				'word',
+				'qzx'
+			)
+		).toEqual([]);
+		expect(
+			await values(
+				{ type: 'ref/tool', name: 'get_synonyms_antonyms' },
+				'word',
+				''
+			)
+		).toEqual([]);
+	});
+});
+
+describe('completion/complete', () => {
+	it('is advertised and answered by the MCP server', async () => {
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair();
+		const client = new Client({ name: 'test', version: '1.0.0' });
+		await createServer().connect(serverTransport);
+		await client.connect(clientTransport);
+
+		expect(client.getServerCapabilities()?.completions).toEqual({});
+		const result = await client.complete({
+			ref: { type: 'ref/prompt', name: 'annotated_bibliography' },
+			argument: { name: 'style', value: 'c' },
+		});
+		expect(result.completion).toEqual({
+			values: ['chicago'],
+			total: 1,
+			hasMore: false,
+		});
+
+		await client.close();
+	});
+});
@@ -0,0 +1,36 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig } from '../src/config.js';
+
+let directory: string;
+
+beforeAll(async () => {
+	directory = await mkdtemp(join(tmpdir(), 'english-mcp-config-'));
+});
+
+afterAll(async () => {
+	await rm(directory, { recursive: true, force: true });
+});
+
+describe('loadConfig', () => {
+	it('lists every invalid field', () => {
+		const load = () =>
+			loadConfig({ HTTP_MAX_RETRIES: 'many', HTTP_TIMEOUT_MS: '-1' });
+
+		expect(load).toThrow(ConfigError);
+		expect(load).toThrow(/^Invalid configuration:\n/);
+		expect(load).toThrow(/\n {2}- http\.maxRetries: /);
+		expect(load).toThrow(/\n {2}- http\.timeoutMs: /);
+	});
+
+	it('reports a config file it cannot parse', async () => {
+		const path = join(directory, 'config.json');
+		await writeFile(path, '{"server": ');
+
+		expect(() => loadConfig({}, path)).toThrow(
+			new RegExp(`^Cannot parse config file ${path}: `)
+		);
+	});
+});
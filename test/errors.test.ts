@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+	EnglishMcpError,
+	httpError,
+	MissingCredentialError,
+	toEnglishMcpError,
+} from '../src/errors.js';
+import { ResponseFormatter } from '../src/responses/formatters.js';
+
+describe('httpError', () => {
+	it.each([
+		[404, 'NOT_FOUND', false],
+		[400, 'INVALID_INPUT', false],
+		[401, 'UPSTREAM_ERROR', false],
+		[429, 'RATE_LIMITED', true],
+		[503, 'UPSTREAM_UNAVAILABLE', true],
+	])('maps HTTP %i to %s', (status, code, retryable) => {
+		const error = httpError(status, 'crossref');
+
+		expect(error.code).toBe(code);
+		expect(error.retryable).toBe(retryable);
+		expect(error.provider).toBe('crossref');
+		expect(error.status).toBe(status);
+	});
+
+	it('keeps the Retry-After delay of a 429', () => {
+		const error = httpError(429, 'languageTool', 20000);
+
+		expect(error.retryAfterMs).toBe(20000);
+		expect(error.message).toBe(
+			'LanguageTool rate limit reached; retry in 20s'
+		);
+	});
+});
+
+describe('toEnglishMcpError', () => {
+	it('turns validation failures into INVALID_INPUT', () => {
+		const result = z.object({ word: z.string() }).safeParse({});
+		const error = toEnglishMcpError(result.error);
+
+		expect(error.code).toBe('INVALID_INPUT');
+		expect(error.message).toContain('word');
+	});
+
+	it('turns unexpected errors into INTERNAL', () => {
+		const error = toEnglishMcpError(new TypeError('boom'));
+
+		expect(error).toBeInstanceOf(EnglishMcpError);
+		expect(error.code).toBe('INTERNAL');
+		expect(error.message).toBe('boom');
+	});
+});
+
+describe('ResponseFormatter.formatError', () => {
+	it('returns text plus a JSON resource with the error details', () => {
+		const result = ResponseFormatter.formatError(
+			'check_grammar',
+			new MissingCredentialError(['SAPLING_PRIVATE_KEY'], 'sapling')
+		);
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0]).toEqual({
+			type: 'text',
+			text: 'Error (MISSING_CREDENTIAL): SAPLING_PRIVATE_KEY not configured',
+		});
+
+		const resource = result.content[1] as {
+			type: string;
+			resource: { uri: string; text: string };
+		};
+		expect(resource.type).toBe('resource');
+		expect(resource.resource.uri).toBe('english-mcp://error/check_grammar');
+		const payload = JSON.parse(resource.resource.text);
+		expect(payload).toEqual({
+			success: false,
+			tool: 'check_grammar',
+			error: {
+				code: 'MISSING_CREDENTIAL',
+				message: 'SAPLING_PRIVATE_KEY not configured',
+				retryable: false,
+				provider: 'sapling',
+				details: { credentials: ['SAPLING_PRIVATE_KEY'] },
+			},
+		});
+	});
+});
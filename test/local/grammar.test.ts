@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { checkTextLocally, issueContext } from '../../src/local/grammar.js';
+
+function rules(text: string): string[] {
+	return checkTextLocally(text).map((issue) => issue.rule);
+}
+
+describe('checkTextLocally', () => {
+	it('finds agreement errors and repeated words', () => {
+		const text = 'This are a test of the the system.';
+		const issues = checkTextLocally(text);
+
+		expect(issues.map((issue) => issue.rule)).toEqual([
+			'SUBJECT_VERB_AGREEMENT',
+			'REPEATED_WORD',
+		]);
+		expect(issues[0].replacements).toEqual(['This is']);
+		expect(
+			text.slice(issues[1].offset, issues[1].offset + issues[1].length)
+		).toBe('the the');
+	});
+
+	it('leaves relative clauses and correct doubled words alone', () => {
+		expect(rules('We use tools that are reliable.')).toEqual([]);
+		expect(rules('She had had enough by noon.')).toEqual([]);
+		expect(rules('He said that that was fine.')).toEqual([]);
+		expect(rules('We saw the the results.')).toEqual(['REPEATED_WORD']);
+	});
+
+	it('checks a/an by sound rather than spelling', () => {
+		expect(rules('She waited an hour for a unique opportunity.')).toEqual(
+			[]
+		);
+		expect(rules('It was a honest mistake by an user.')).toEqual([
+			'A_AN',
+			'A_AN',
+		]);
+		expect(rules('He joined an FBI task force.')).toEqual([]);
+	});
+
+	it('reports two different articles in a row as one duplicate', () => {
+		const text = 'This is a an example.';
+		const issues = checkTextLocally(text);
+
+		expect(issues.map((issue) => issue.rule)).toEqual([
+			'DUPLICATE_ARTICLE',
+		]);
+		expect(
+			text.slice(issues[0].offset, issues[0].offset + issues[0].length)
+		).toBe('a an');
+		expect(issues[0].replacements).toEqual(['an']);
+		expect(rules('It took an a hour.')).toEqual(['DUPLICATE_ARTICLE']);
+		expect(rules('It was a a honest mistake.')).toEqual([
+			'REPEATED_WORD',
+			'A_AN',
+		]);
+	});
+
+	it('corrects common misspellings keeping capitalization', () => {
+		const [issue] = checkTextLocally('Recieve the package.');
+
+		expect(issue.category).toBe('spelling');
+		expect(issue.replacements).toEqual(['Receive']);
+	});
+
+	it('flags lowercase sentence starts but not abbreviations', () => {
+		expect(rules('The test passed. the next one failed.')).toEqual([
+			'UPPERCASE_SENTENCE_START',
+		]);
+		expect(rules('Use a tool, e.g. the checker.')).toEqual([]);
+	});
+
+	it('suggests shorter phrasing for wordy phrases', () => {
+		const [issue] = checkTextLocally('We met in order to plan.');
+
+		expect(issue.rule).toBe('WORDY_PHRASE');
+		expect(issue.category).toBe('style');
+		expect(issue.replacements).toEqual(['to']);
+	});
+
+	it('gives the surrounding text as context', () => {
+		const text =
+			'The committee could of reached a decision much earlier than it did.';
+		const [issue] = checkTextLocally(text);
+
+		expect(issue.replacements).toEqual(['could have']);
+		expect(issueContext(text, issue)).toBe(
+			'The committee could of reached a decision ...'
+		);
+	});
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { findPassiveConstructions } from '../../src/local/passive-voice.js';
+
+function constructions(sentence: string): string[] {
+	return findPassiveConstructions(sentence).map(
+		(construction) => construction.text
+	);
+}
+
+describe('findPassiveConstructions', () => {
+	it('finds regular and irregular participles', () => {
+		expect(constructions('The plan was approved in May.')).toEqual([
+			'was approved',
+		]);
+		expect(constructions('The letters were written long ago.')).toEqual([
+			'were written',
+		]);
+		expect(constructions('More funding is needed.')).toEqual(['is needed']);
+		expect(constructions('The bridge has been rebuilt.')).toEqual([
+			'has been rebuilt',
+		]);
+		expect(constructions("The policy isn't widely supported.")).toEqual([
+			"isn't widely supported",
+		]);
+	});
+
+	it('leaves adjectival participles alone', () => {
+		expect(constructions('She was tired after the long walk.')).toEqual([]);
+		expect(constructions('He is interested in history.')).toEqual([]);
+		expect(constructions('The proof is very complicated.')).toEqual([]);
+	});
+
+	it('ignores words that only share a name with Object properties', () => {
+		expect(constructions('He was constructor of the bridge.')).toEqual([]);
+	});
+
+	it('counts an adjectival participle that has an agent', () => {
+		expect(
+			findPassiveConstructions('I was surprised by the result.')
+		).toEqual([
+			{
+				text: 'was surprised',
+				offset: 2,
+				agent: 'the result',
+				rewrite: 'The result surprised me.',
+			},
+		]);
+	});
+
+	it('rewrites sentences that name the agent', () => {
+		const rewrite = (sentence: string) =>
+			findPassiveConstructions(sentence)[0]?.rewrite;
+
+		expect(rewrite('The plan was approved by the committee.')).toBe(
+			'The committee approved the plan.'
+		);
+		expect(rewrite('The report is written by the students.')).toBe(
+			'The students write the report.'
+		);
+		expect(rewrite('The software is used by the team.')).toBe(
+			'The team uses the software.'
+		);
+		expect(rewrite('The results were not published by the journal.')).toBe(
+			'The journal did not publish the results.'
+		);
+		expect(
+			rewrite('The data will be analyzed by the team on Monday.')
+		).toBe('The team will analyze the data on Monday.');
+		expect(
+			rewrite(
+				'After the meeting, the proposal was quickly rejected by the board.'
+			)
+		).toBe('After the meeting, the board quickly rejected the proposal.');
+	});
+
+	it('keeps agents joined by "and" together', () => {
+		expect(
+			findPassiveConstructions('The report was reviewed by Anna and Bob.')
+		).toEqual([
+			{
+				text: 'was reviewed',
+				offset: 11,
+				agent: 'Anna and Bob',
+				rewrite: 'Anna and Bob reviewed the report.',
+			},
+		]);
+		expect(
+			findPassiveConstructions(
+				'The plan is approved by the board and me.'
+			)[0].rewrite
+		).toBe('The board and I approve the plan.');
+		expect(
+			findPassiveConstructions(
+				'The article was edited by Sarah and published online.'
+			)
+		).toEqual([{ text: 'was edited', offset: 12, agent: 'Sarah' }]);
+	});
+
+	it('finds the base form of regular participles', () => {
+		const rewrite = (sentence: string) =>
+			findPassiveConstructions(sentence)[0]?.rewrite;
+
+		expect(rewrite('The terms are agreed by both sides.')).toBe(
+			'Both sides agree the terms.'
+		);
+		expect(rewrite('The flights are cancelled by the airline.')).toBe(
+			'The airline cancels the flights.'
+		);
+		expect(rewrite('The plan is promoted by the team.')).toBe(
+			'The team promotes the plan.'
+		);
+	});
+
+	it('does not treat times and means as agents', () => {
+		expect(
+			findPassiveConstructions('The package will be delivered by Friday.')
+		).toEqual([{ text: 'will be delivered', offset: 12 }]);
+		expect(
+			findPassiveConstructions(
+				'The problem was solved by the end of May.'
+			)[0].agent
+		).toBeUndefined();
+	});
+
+	it('names the agent of a relative clause without rewriting it', () => {
+		expect(
+			findPassiveConstructions(
+				'The book, which was written by Orwell, sold well.'
+			)
+		).toEqual([{ text: 'was written', offset: 16, agent: 'Orwell' }]);
+	});
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { lookupLocalThesaurus } from '../../src/local/thesaurus.js';
+
+describe('lookupLocalThesaurus', () => {
+	it('returns every sense of a headword', () => {
+		const result = lookupLocalThesaurus('bad');
+
+		expect(result.entries.map((entry) => entry.id)).toEqual([
+			'bad:1',
+			'bad:2',
+		]);
+		expect(result.entries[0].antonyms).toContain('good');
+	});
+
+	it('finds the base form of inflected words', () => {
+		expect(lookupLocalThesaurus('Showed').entries[0].id).toBe('show:1');
+		expect(lookupLocalThesaurus('stopping').entries[0].id).toBe('stop:1');
+		expect(lookupLocalThesaurus('problems').entries[0].id).toBe(
+			'problem:1'
+		);
+	});
+
+	it('offers the headword for words listed only as synonyms', () => {
+		const [entry] = lookupLocalThesaurus('enormous').entries;
+
+		expect(entry.id).toBe('big:1');
+		expect(entry.synonyms[0]).toBe('big');
+		expect(entry.synonyms).not.toContain('enormous');
+	});
+
+	it('reports words it does not know as not found', () => {
+		expect(() => lookupLocalThesaurus('quokka')).toThrow(
+			expect.objectContaining({ code: 'NOT_FOUND' })
+		);
+	});
+});
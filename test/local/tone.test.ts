@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+	analyzeSentimentLocally,
+	analyzeToneLocally,
+} from '../../src/local/tone.js';
+
+describe('analyzeSentimentLocally', () => {
+	it('scores positive and negative text', () => {
+		expect(
+			analyzeSentimentLocally(
+				'I love this wonderful and very helpful tool.'
+			).sentiment
+		).toBe('positive');
+		expect(
+			analyzeSentimentLocally(
+				'The results were terrible and disappointing.'
+			).sentiment
+		).toBe('negative');
+	});
+
+	it('flips words after a negation', () => {
+		const result = analyzeSentimentLocally('This is not good at all.');
+
+		expect(result.score).toBeLessThan(0);
+	});
+
+	it('treats text without sentiment words as neutral', () => {
+		expect(analyzeSentimentLocally('The train leaves at noon.')).toEqual({
+			sentiment: 'neutral',
+			score: 0,
+			confidence: 'low',
+		});
+	});
+});
+
+describe('analyzeToneLocally', () => {
+	it('recognizes formal academic prose', () => {
+		const result = analyzeToneLocally(
+			'Furthermore, the data demonstrate a significant correlation; therefore, the hypothesis is substantiated.'
+		);
+
+		expect(result.overall).toBe('formal');
+		expect(result.dominant).toContain('formal');
+	});
+
+	it('recognizes casual writing', () => {
+		const result = analyzeToneLocally(
+			"hey guys, gonna be kinda late, it's cool stuff!!"
+		);
+
+		expect(result.overall).toBe('informal');
+		expect(result.scores.formal).toBe(0);
+	});
+
+	it('tells hedged from assertive writing', () => {
+		expect(
+			analyzeToneLocally(
+				'It might possibly suggest that the effect seems relevant.'
+			).overall
+		).toBe('tentative');
+		expect(
+			analyzeToneLocally('This clearly proves the method will work.')
+				.scores.confident
+		).toBeGreaterThan(0.6);
+	});
+});
@@ -0,0 +1,124 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadPlugins } from '../src/plugins.js';
+import { ToolRegistry } from '../src/tools/registry.js';
+
+const HOUSE_STYLE = `
+export default {
+	name: 'house-style',
+	tools: ({ z, defineTool, errors }) => [
+		defineTool({
+			name: 'check_house_style',
+			description: 'Flag words banned by the house style guide',
+			inputSchema: z.object({ text: z.string() }),
+			outputSchema: z.object({ banned: z.array(z.string()) }),
+			handler: async ({ text }) => {
+				if (!text.trim()) {
+					throw new errors.InvalidInputError('Text is empty');
+				}
+				return { banned: text.match(/\\butilize\\b/gi) ?? [] };
+			},
+			summarize: ({ banned }) => \`\${banned.length} banned word(s)\`,
+		}),
+	],
+};
+`;
+
+const THESAURUS = `
+const tool = (z, fields) => ({
+	description: 'Look up synonyms',
+	inputSchema: z.object({ word: z.string() }),
+	outputSchema: z.object({ synonyms: z.array(z.string()) }),
+	handler: async () => ({ synonyms: [] }),
+	summarize: () => '',
+	...fields,
+});
+
+export default {
+	name: 'thesaurus',
+	tools: ({ z }) => [
+		tool(z, { name: 'unknown_provider', provider: 'thesaurusCom' }),
+		tool(z, { name: 'bad_credentials', credentials: 'THESAURUS_KEY' }),
+		tool(z, { name: 'array_output', outputSchema: z.array(z.string()) }),
+		tool(z, {
+			name: 'synonyms',
+			provider: 'datamuse',
+			credentials: ['THESAURUS_KEY'],
+		}),
+	],
+};
+`;
+
+let directory: string;
+
+beforeAll(async () => {
+	directory = await mkdtemp(join(tmpdir(), 'english-mcp-plugins-'));
+	await writeFile(join(directory, 'house-style.mjs'), HOUSE_STYLE);
+	await mkdir(join(directory, 'glossary'));
+	await writeFile(
+		join(directory, 'glossary', 'index.js'),
+		"module.exports = { name: 'glossary', tools: [{ name: 'broken' }] };"
+	);
+	await writeFile(join(directory, 'notes.mjs'), 'export const x = 1;');
+	await writeFile(join(directory, 'thesaurus.mjs'), THESAURUS);
+	await writeFile(join(directory, 'README.md'), 'Not a plugin');
+});
+
+afterAll(async () => {
+	await rm(directory, { recursive: true, force: true });
+});
+
+describe('loadPlugins', () => {
+	it('loads tools that run through the registry like core tools', async () => {
+		const { plugins, tools } = await loadPlugins(directory);
+		expect(plugins).toEqual(['glossary', 'house-style', 'thesaurus']);
+		expect(tools.map((tool) => tool.name)).toEqual([
+			'check_house_style',
+			'synonyms',
+		]);
+
+		const registry = new ToolRegistry(tools);
+		const result = await registry.call('check_house_style', {
+			text: 'Utilize it, then utilize it again.',
+		});
+		expect(result.structuredContent).toEqual({
+			banned: ['Utilize', 'utilize'],
+		});
+		expect(result.content[0]).toEqual({
+			type: 'text',
+			text: '2 banned word(s)',
+		});
+
+		const failed = await registry.call('check_house_style', { text: ' ' });
+		expect(failed.isError).toBe(true);
+		expect(failed.content[0]).toMatchObject({
+			text: 'Error (INVALID_INPUT): Text is empty',
+		});
+	});
+
+	it('reports modules and tools it cannot use', async () => {
+		const { problems } = await loadPlugins(directory);
+		expect(problems).toHaveLength(5);
+		expect(problems[0]).toMatch(
+			/^Plugin glossary: tool 0 is invalid: description Required/
+		);
+		expect(problems[1]).toMatch(
+			/notes\.mjs is not a plugin: name Required/
+		);
+		expect(problems.slice(2)).toEqual([
+			expect.stringMatching(
+				/^Plugin thesaurus: tool 0 is invalid: provider Invalid enum value/
+			),
+			'Plugin thesaurus: tool 1 is invalid: credentials Expected array, received string',
+			'Plugin thesaurus: tool 2 is invalid: outputSchema must be a Zod object schema',
+		]);
+	});
+
+	it('reports a missing directory', async () => {
+		const { tools, problems } = await loadPlugins(join(directory, 'nope'));
+		expect(tools).toEqual([]);
+		expect(problems[0]).toMatch(/^Cannot read plugin directory /);
+	});
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { crossrefToCsl, formatCitation } from '../../src/tools/citations.js';
+
+describe('DOI citations', () => {
+	it('resolves DOIs through CrossRef', async () => {
+		const citation = await formatCitation({
+			data: '10.1038/nature12373',
+			style: 'apa',
+			format: 'text',
+		});
+		expect(citation).toContain('Kucsko, G.');
+		expect(citation).toContain('(2013)');
+		expect(citation).toContain('Nature, 500(7463), 54–58.');
+	});
+
+	it('maps CrossRef work types to CSL types', () => {
+		expect(
+			crossrefToCsl({ DOI: '10.1/a', type: 'journal-article' }).type
+		).toBe('article-journal');
+		expect(crossrefToCsl({ DOI: '10.1/b', type: 'book' }).type).toBe(
+			'book'
+		);
+	});
+});
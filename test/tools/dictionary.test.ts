@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/config.js';
+import { lookupSynonymsWithFallback } from '../../src/tools/dictionary.js';
+
+beforeEach(() => {
+	config.http.fixtures = 'off';
+	config.http.maxRetries = 0;
+	config.http.circuitBreakerThreshold = 0;
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	config.http.fixtures = 'replay';
+	config.http.maxRetries = 3;
+	config.http.circuitBreakerThreshold = 5;
+});
+
+describe('lookupSynonymsWithFallback', () => {
+	it('uses Merriam-Webster when it answers', async () => {
+		config.http.fixtures = 'replay';
+
+		const { source, result } = await lookupSynonymsWithFallback('test');
+		expect(source).toBe('merriamWebster');
+		expect(result.entries.length).toBeGreaterThan(0);
+	});
+
+	it.each([
+		[429, 'rate limited'],
+		[503, 'down'],
+	])(
+		'falls back to the built-in thesaurus when Merriam-Webster is %i (%s)',
+		async (status) => {
+			vi.stubGlobal(
+				'fetch',
+				vi.fn(async () => new Response('{}', { status }))
+			);
+
+			const { source, result } = await lookupSynonymsWithFallback('bad');
+			expect(source).toBe('localThesaurus');
+			expect(result.entries[0].synonyms.length).toBeGreaterThan(0);
+		}
+	);
+
+	it('still reports words no thesaurus knows', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('{}', { status: 503 }))
+		);
+
+		await expect(
+			lookupSynonymsWithFallback('quokka')
+		).rejects.toMatchObject({ code: 'NOT_FOUND' });
+	});
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { WikipediaClient } from '../../src/api/wikipedia.js';
+import { config } from '../../src/config.js';
+import { coreTools } from '../../src/tools/definitions.js';
+import { ToolRegistry, toolMode } from '../../src/tools/registry.js';
+
+const registry = new ToolRegistry(coreTools);
+
+function tool(name: string) {
+	const definition = coreTools.find((tool) => tool.name === name);
+	if (!definition) {
+		throw new Error(`No tool ${name}`);
+	}
+	return definition;
+}
+
+afterEach(() => {
+	config.server.offline = false;
+	config.cache.enabled = false;
+	config.http.fixtures = 'replay';
+});
+
+describe('offline mode', () => {
+	it('reports how each kind of tool runs', () => {
+		expect(toolMode(tool('check_grammar'))).toBe('online');
+		expect(toolMode(tool('check_readability'))).toBe('local');
+
+		config.server.offline = true;
+		expect(toolMode(tool('check_grammar'))).toBe('fallback');
+		expect(toolMode(tool('check_readability'))).toBe('local');
+		expect(toolMode(tool('search_wikipedia'))).toBe('unavailable');
+		expect(toolMode(tool('detect_ai_content'))).toBe('unavailable');
+
+		config.cache.enabled = true;
+		expect(toolMode(tool('search_wikipedia'))).toBe('cached');
+		expect(toolMode(tool('detect_ai_content'))).toBe('unavailable');
+	});
+
+	it('labels tool descriptions with their offline mode', () => {
+		config.server.offline = true;
+		config.server.unavailableTools = 'flag';
+		const tools = registry.list();
+		config.server.unavailableTools = 'hide';
+
+		const grammar = tools.find((tool) => tool.name === 'check_grammar');
+		expect(grammar?.description).toMatch(/^\[OFFLINE: local fallback\]/);
+		expect(grammar?.annotations).toMatchObject({
+			mode: 'fallback',
+			available: true,
+		});
+		const wikipedia = tools.find(
+			(tool) => tool.name === 'search_wikipedia'
+		);
+		expect(wikipedia?.description).toMatch(/^\[UNAVAILABLE OFFLINE\]/);
+	});
+
+	it('hides tools that cannot run offline', () => {
+		config.server.offline = true;
+		const names = registry.list().map((tool) => tool.name);
+
+		expect(names).toContain('check_grammar');
+		expect(names).not.toContain('detect_ai_content');
+	});
+
+	it('runs the local fallback without credentials', async () => {
+		config.server.offline = true;
+		const result = await registry.call('check_grammar', {
+			text: 'This are wrong.',
+		});
+
+		expect(result.isError).toBeUndefined();
+		expect(result.structuredContent).toMatchObject({ errorCount: 1 });
+	});
+
+	it('returns an OFFLINE error for tools without a fallback', async () => {
+		config.server.offline = true;
+		const result = await registry.call('detect_ai_content', {
+			text: 'Some text.',
+		});
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0]).toMatchObject({
+			text: 'Error (OFFLINE): Sapling is unavailable in offline mode',
+		});
+	});
+
+	it('makes no network requests for uncached responses', async () => {
+		config.server.offline = true;
+		config.http.fixtures = 'off';
+
+		await expect(
+			new WikipediaClient().search('Albert Einstein')
+		).rejects.toMatchObject({ code: 'OFFLINE', provider: 'wikipedia' });
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidInputError } from '../../src/errors.js';
+import { detectPassiveVoice } from '../../src/tools/passive-voice.js';
+
+const TEXT =
+	'The plan was approved by the committee. Mistakes were made. We finished the work on time. Everyone went home.';
+
+describe('detectPassiveVoice', () => {
+	it('reports the share of passive sentences against the threshold', async () => {
+		const result = await detectPassiveVoice(TEXT);
+
+		expect(result).toMatchObject({
+			passiveCount: 2,
+			totalSentences: 4,
+			passivePercentage: 50,
+			threshold: 10,
+			exceedsThreshold: true,
+		});
+		expect((await detectPassiveVoice(TEXT, 60)).exceedsThreshold).toBe(
+			false
+		);
+	});
+
+	it('flags sentences with their position and a suggestion', async () => {
+		const [named, unnamed] = (await detectPassiveVoice(TEXT))
+			.flaggedSentences;
+
+		expect(named).toEqual({
+			sentence: 'The plan was approved by the committee.',
+			position: 0,
+			constructions: ['was approved'],
+			agent: 'the committee',
+			rewrite: 'The committee approved the plan.',
+			suggestion:
+				'Lead with the agent: "The committee approved the plan."',
+		});
+		expect(unnamed.position).toBe(TEXT.indexOf('Mistakes'));
+		expect(unnamed.suggestion).toBe(
+			'Say who or what does the action in "were made" and make it the subject.'
+		);
+	});
+
+	it('leaves headings and short fragments out of the share', async () => {
+		const result = await detectPassiveVoice(
+			'Hi. Ok. The plan was approved.'
+		);
+
+		expect(result).toMatchObject({
+			passiveCount: 1,
+			totalSentences: 1,
+			passivePercentage: 100,
+		});
+		expect(
+			(await detectPassiveVoice('Plans approved.')).totalSentences
+		).toBe(1);
+	});
+
+	it('rejects empty text', async () => {
+		await expect(detectPassiveVoice(' ')).rejects.toThrow(
+			InvalidInputError
+		);
+	});
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidInputError } from '../../src/errors.js';
+import {
+	AUDIENCE_PROFILES,
+	checkReadability,
+	readabilityHeatmap,
+} from '../../src/tools/readability.js';
+
+const SIMPLE =
+	'The cat sat on the mat. The dog ran to the park. We all went home after that.';
+const ESSAY =
+	'Playing games has always been thought to be important to the development of well-balanced and creative children; however, what part, if any, they should play in the lives of adults has never been researched that deeply. I believe that playing games is every bit as important for adults as for children. Not only is taking time out to play games with our children and other adults valuable to building interpersonal relationships but is also a wonderful way to release built up tension.';
+
+describe('checkReadability', () => {
+	it('checks against 17-year-olds by default', async () => {
+		const result = await checkReadability(ESSAY);
+
+		expect(result.audience).toBe('high-school');
+		expect(result.targets).toEqual(
+			AUDIENCE_PROFILES['high-school'].targets
+		);
+		expect(result.ageAppropriate).toBe(false);
+		expect(result.recommendations[0]).toBe(
+			'Text is too complex for 17-year-old readers. Simplify sentence structure and use shorter words.'
+		);
+	});
+
+	it('words recommendations for the chosen audience', async () => {
+		const result = await checkReadability(ESSAY, 'middle-school');
+
+		expect(result.targets.maxGrade).toBe(8);
+		expect(result.recommendations).toContain(
+			'Text is too complex for middle school readers (ages 11-14). Simplify sentence structure and use shorter words.'
+		);
+	});
+
+	it('flags text too easy for undergraduates', async () => {
+		const result = await checkReadability(SIMPLE, 'undergraduate');
+
+		expect(result.ageAppropriate).toBe(false);
+		expect(result.recommendations).toContain(
+			'Text is very easy to read. May be better suited to a younger audience than undergraduate readers.'
+		);
+	});
+
+	it('applies custom thresholds over the profile', async () => {
+		const result = await checkReadability(ESSAY, 'general-adult', {
+			maxGrade: 14,
+			minReadingEase: 40,
+			maxDifficultWordRatio: 0.2,
+		});
+
+		expect(result.targets).toEqual({
+			minGrade: 7,
+			maxGrade: 14,
+			minReadingEase: 40,
+			maxReadingEase: 80,
+			maxDifficultWordRatio: 0.2,
+		});
+		expect(result.ageAppropriate).toBe(true);
+		expect(result.recommendations).toEqual([
+			'Text is appropriate for general adult readers.',
+		]);
+	});
+
+	it('needs every target met to be age-appropriate', async () => {
+		const thresholds = {
+			maxGrade: 14,
+			minReadingEase: 40,
+			maxDifficultWordRatio: 0.2,
+		};
+		const tooEasy = await checkReadability(ESSAY, 'general-adult', {
+			...thresholds,
+			minReadingEase: 30,
+			maxReadingEase: 40,
+		});
+		expect(tooEasy.ageAppropriate).toBe(false);
+		expect(tooEasy.recommendations).toEqual([
+			'Text is very easy to read. May be better suited to a younger audience than general adult readers.',
+		]);
+
+		const tooHard = await checkReadability(ESSAY, 'general-adult', {
+			...thresholds,
+			maxDifficultWordRatio: 0.01,
+		});
+		expect(tooHard.ageAppropriate).toBe(false);
+		expect(tooHard.recommendations[0]).toMatch(
+			/^High number of difficult words/
+		);
+	});
+
+	it('rejects a grade band that is upside down', async () => {
+		await expect(
+			checkReadability(ESSAY, 'high-school', { minGrade: 14 })
+		).rejects.toThrow(InvalidInputError);
+	});
+});
+
+describe('readabilityHeatmap', () => {
+	const text = `Introduction\n\n${SIMPLE}\n\n${ESSAY}`;
+
+	it('scores paragraphs and sentences with offsets into the text', async () => {
+		const result = await readabilityHeatmap(text);
+
+		expect(
+			result.paragraphs.map((paragraph) => paragraph.sentenceCount)
+		).toEqual([0, 3, 3]);
+		expect(result.sentences).toHaveLength(6);
+		result.sentences.forEach((sentence) => {
+			expect(text.slice(sentence.start, sentence.end)).toBe(
+				sentence.text
+			);
+		});
+		expect(result.sentences[0]).toMatchObject({
+			paragraph: 1,
+			text: 'The cat sat on the mat.',
+			band: 'below',
+			factors: [],
+		});
+		expect(
+			text.slice(result.paragraphs[2].start, result.paragraphs[2].end)
+		).toBe(ESSAY);
+	});
+
+	it('ranks the hardest sentences and explains them', async () => {
+		const result = await readabilityHeatmap(text, 'middle-school', 2);
+
+		expect(result.hardestSentences).toHaveLength(2);
+		const [hardest] = result.hardestSentences;
+		expect(hardest.text).toMatch(/^Playing games has always/);
+		expect(hardest.band).toBe('above');
+		expect(hardest.factors.map((factor) => factor.type)).toEqual([
+			'long_sentence',
+			'polysyllabic_words',
+		]);
+		expect(hardest.factors[1].words).toContain('development');
+		expect(result.hardestSentences[1].gradeLevel).toBeLessThanOrEqual(
+			hardest.gradeLevel
+		);
+	});
+
+	it('bands sentences by custom thresholds over the profile', async () => {
+		const result = await readabilityHeatmap(text, 'middle-school', 5, {
+			maxGrade: 30,
+		});
+
+		expect(result.targets).toEqual({
+			...AUDIENCE_PROFILES['middle-school'].targets,
+			maxGrade: 30,
+		});
+		expect(result.sentences.map((sentence) => sentence.band)).not.toContain(
+			'above'
+		);
+		await expect(
+			readabilityHeatmap(text, 'middle-school', 5, { minGrade: 12 })
+		).rejects.toThrow(InvalidInputError);
+	});
+});
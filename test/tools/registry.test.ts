@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { defineTool, ToolRegistry } from '../../src/tools/registry.js';
+
+const registry = new ToolRegistry([
+	defineTool({
+		name: 'count_words',
+		description: 'Count words, returning the count as the wrong type',
+		inputSchema: z.object({ text: z.string() }),
+		outputSchema: z.object({ count: z.number() }),
+		handler: async ({ text }) =>
+			({ count: String(text.split(/\s+/).length) } as any),
+		summarize: ({ count }) => `${count} words`,
+	}),
+]);
+
+describe('ToolRegistry.run', () => {
+	it('reports invalid arguments as the caller’s mistake', async () => {
+		await expect(registry.run('count_words', {})).rejects.toMatchObject({
+			code: 'INVALID_INPUT',
+			retryable: false,
+		});
+	});
+
+	it('reports output that fails its schema as an internal error', async () => {
+		const error = await registry
+			.run('count_words', { text: 'two words' })
+			.catch((error) => error);
+
+		expect(error).toMatchObject({ code: 'INTERNAL' });
+		expect(error.message).toBe(
+			'Tool count_words returned output that does not match its schema: count: Expected number, received string'
+		);
+
+		const result = await registry.call('count_words', {
+			text: 'two words',
+		});
+		expect(result.isError).toBe(true);
+		expect(result.content[0]).toMatchObject({
+			text: expect.stringMatching(/^Error \(INTERNAL\)/),
+		});
+	});
+});
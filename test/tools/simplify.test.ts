@@ -0,0 +1,210 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { DatamuseWord } from '../../src/api/datamuse.js';
+import { config } from '../../src/config.js';
+import {
+	CancelledError,
+	InvalidInputError,
+	NotFoundError,
+	RateLimitedError,
+} from '../../src/errors.js';
+import type { SynonymSources } from '../../src/tools/simplify.js';
+import {
+	simplifyVocabulary,
+	simplifyVocabularyOffline,
+} from '../../src/tools/simplify.js';
+
+const TEXT =
+	'We should utilize additional funding this year. Utilize it carefully.';
+
+const RELATED: Record<string, DatamuseWord[]> = {
+	utilize: [
+		{ word: 'employ', score: 900, tags: ['syn', 'f:20.5'] },
+		{ word: 'use', score: 800, tags: ['syn', 'f:480.1'] },
+		{ word: 'make use of', score: 700, tags: ['f:0'] },
+	],
+	additional: [
+		{ word: 'extra', score: 900, tags: ['f:45.2'] },
+		{ word: 'more', score: 850, tags: ['f:1200'] },
+		{ word: 'supplementary', score: 800, tags: ['f:3.1'] },
+	],
+};
+
+const SYNONYMS: Record<string, string[]> = {
+	utilize: ['apply', 'use', 'harness'],
+	additional: ['added', 'further'],
+};
+
+const sources: SynonymSources = {
+	datamuse: async (word) => RELATED[word] ?? [],
+	thesaurus: async (word) => {
+		if (!SYNONYMS[word]) {
+			throw new NotFoundError(`No thesaurus entry for "${word}"`);
+		}
+		return {
+			result: {
+				word,
+				entries: [
+					{
+						id: `${word}:1`,
+						partOfSpeech: 'verb',
+						definitions: [],
+						synonyms: SYNONYMS[word],
+						antonyms: [],
+					},
+				],
+			},
+			source: 'merriamWebster',
+		};
+	},
+};
+
+afterEach(() => {
+	config.server.offline = false;
+	config.http.fixtures = 'replay';
+});
+
+describe('simplifyVocabulary', () => {
+	it('ranks shorter, more frequent words first', async () => {
+		const result = await simplifyVocabulary(TEXT, 10, sources);
+		const utilize = result.words.find((word) => word.word === 'utilize');
+
+		expect(utilize).toMatchObject({
+			syllables: 3,
+			occurrences: 2,
+			context: 'We should utilize additional funding this year.',
+			position: 0,
+		});
+		expect(utilize?.suggestions).toEqual([
+			{
+				word: 'use',
+				syllables: 1,
+				frequency: 480.1,
+				sources: ['datamuse', 'merriamWebster'],
+			},
+			{
+				word: 'employ',
+				syllables: 2,
+				frequency: 20.5,
+				sources: ['datamuse'],
+			},
+			{
+				word: 'apply',
+				syllables: 2,
+				frequency: null,
+				sources: ['merriamWebster'],
+			},
+			{
+				word: 'harness',
+				syllables: 2,
+				frequency: null,
+				sources: ['merriamWebster'],
+			},
+		]);
+		expect(
+			result.words
+				.find((word) => word.word === 'additional')
+				?.suggestions.map((suggestion) => suggestion.word)
+		).toEqual(['more', 'extra', 'added', 'further']);
+	});
+
+	it('predicts the readability of the text with the top suggestions', async () => {
+		const result = await simplifyVocabulary(TEXT, 10, sources);
+
+		expect(result.simplifiedText).toBe(
+			'We should use more funding this year. Use it carefully.'
+		);
+		expect(result.readability.after.gradeLevel).toBeLessThan(
+			result.readability.before.gradeLevel
+		);
+		expect(result.readability.readingEaseChange).toBeGreaterThan(0);
+	});
+
+	it('keeps words no source knows, without suggestions', async () => {
+		const result = await simplifyVocabulary(
+			'Photosynthesis feeds plants.',
+			10,
+			{ thesaurus: sources.thesaurus }
+		);
+
+		expect(result.words).toEqual([
+			expect.objectContaining({
+				word: 'photosynthesis',
+				suggestions: [],
+			}),
+		]);
+		expect(result.readability.gradeLevelChange).toBe(0);
+	});
+
+	it('names the built-in thesaurus when Merriam-Webster is unavailable', async () => {
+		config.server.offline = true;
+		config.http.fixtures = 'off';
+		const result = await simplifyVocabularyOffline('An enormous dog.');
+
+		expect(result.words[0].suggestions.length).toBeGreaterThan(0);
+		result.words[0].suggestions.forEach((suggestion) => {
+			expect(suggestion.sources).toEqual(['localThesaurus']);
+		});
+	});
+
+	it('keeps the Datamuse alternatives when the thesaurus fails', async () => {
+		const result = await simplifyVocabulary(TEXT, 10, {
+			datamuse: sources.datamuse,
+			thesaurus: async () => {
+				throw new RateLimitedError('merriamWebster');
+			},
+		});
+
+		expect(
+			result.words
+				.find((word) => word.word === 'utilize')
+				?.suggestions.map((suggestion) => suggestion.word)
+		).toEqual(['use', 'employ']);
+	});
+
+	it('fails when every source fails or the call is cancelled', async () => {
+		await expect(
+			simplifyVocabulary(TEXT, 10, {
+				datamuse: async () => {
+					throw new RateLimitedError('datamuse');
+				},
+				thesaurus: async () => {
+					throw new RateLimitedError('merriamWebster');
+				},
+			})
+		).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+		await expect(
+			simplifyVocabulary(TEXT, 10, {
+				datamuse: async () => {
+					throw new CancelledError();
+				},
+				thesaurus: sources.thesaurus,
+			})
+		).rejects.toThrow(CancelledError);
+	});
+
+	it('looks up a few words at a time', async () => {
+		let inFlight = 0;
+		let most = 0;
+		const datamuse = async () => {
+			inFlight++;
+			most = Math.max(most, inFlight);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			inFlight--;
+			return [];
+		};
+
+		const result = await simplifyVocabulary(
+			'Consequently, the administration must demonstrate, facilitate, investigate and communicate additional opportunities.',
+			10,
+			{ datamuse, thesaurus: sources.thesaurus }
+		);
+		expect(result.words.length).toBeGreaterThan(4);
+		expect(most).toBe(4);
+	});
+
+	it('rejects empty text', async () => {
+		await expect(simplifyVocabulary(' ', 10, sources)).rejects.toThrow(
+			InvalidInputError
+		);
+	});
+});
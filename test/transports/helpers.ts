@@ -0,0 +1,19 @@
+import { request } from 'http';
+
+/**
+ * Status of a raw request, for headers fetch will not send as given
+ */
+export function rawStatus(
+	port: number,
+	path: string,
+	headers: Record<string, string>
+): Promise<number> {
+	return new Promise<number>((resolve, reject) => {
+		request({ host: '127.0.0.1', port, path, headers }, (res) => {
+			res.resume();
+			resolve(res.statusCode ?? 0);
+		})
+			.on('error', reject)
+			.end();
+	});
+}
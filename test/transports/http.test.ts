@@ -0,0 +1,150 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { config } from '../../src/config.js';
+import { startHttpServer } from '../../src/transports/http.js';
+import { rawStatus } from './helpers.js';
+
+let server: Server;
+let port: number;
+let baseUrl: string;
+
+beforeAll(async () => {
+	server = await startHttpServer({ host: '127.0.0.1', port: 0 });
+	port = (server.address() as AddressInfo).port;
+	baseUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(() => {
+	server.close();
+});
+
+afterEach(() => {
+	config.server.maxRequestBodyKb = 4096;
+});
+
+const HEADERS = {
+	'Content-Type': 'application/json',
+	Accept: 'application/json, text/event-stream',
+};
+
+const INITIALIZE = {
+	jsonrpc: '2.0',
+	id: 1,
+	method: 'initialize',
+	params: {
+		protocolVersion: '2025-03-26',
+		capabilities: {},
+		clientInfo: { name: 'test', version: '1.0.0' },
+	},
+};
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+	return fetch(`${baseUrl}/mcp`, {
+		method: 'POST',
+		headers: { ...HEADERS, ...headers },
+		body: JSON.stringify(body),
+	});
+}
+
+/**
+ * JSON-RPC message of a response sent as JSON or as one SSE event
+ */
+async function message(response: Response): Promise<any> {
+	const text = await response.text();
+	const data = text.match(/^data: (.*)$/m);
+	return JSON.parse(data ? data[1] : text);
+}
+
+describe('Streamable HTTP transport', () => {
+	it('opens a session on initialize and serves it until deleted', async () => {
+		const initialized = await post(INITIALIZE);
+		expect(initialized.status).toBe(200);
+		const sessionId = initialized.headers.get('mcp-session-id');
+		expect(sessionId).toBeTruthy();
+		expect((await message(initialized)).result.serverInfo).toBeDefined();
+
+		const session = {
+			'mcp-session-id': sessionId!,
+			'mcp-protocol-version': '2025-03-26',
+		};
+		await post(
+			{ jsonrpc: '2.0', method: 'notifications/initialized' },
+			session
+		);
+		const listed = await post(
+			{ jsonrpc: '2.0', id: 2, method: 'tools/list' },
+			session
+		);
+		expect((await message(listed)).result.tools.length).toBeGreaterThan(0);
+
+		const deleted = await fetch(`${baseUrl}/mcp`, {
+			method: 'DELETE',
+			headers: session,
+		});
+		expect(deleted.status).toBe(200);
+		expect(
+			(
+				await post(
+					{ jsonrpc: '2.0', id: 3, method: 'tools/list' },
+					session
+				)
+			).status
+		).toBe(400);
+	});
+
+	it('rejects requests without a session', async () => {
+		const response = await post({
+			jsonrpc: '2.0',
+			id: 1,
+			method: 'tools/list',
+		});
+		expect(response.status).toBe(400);
+		expect((await fetch(`${baseUrl}/mcp`)).status).toBe(400);
+	});
+
+	it('answers bodies over the size limit with 413', async () => {
+		config.server.maxRequestBodyKb = 1;
+
+		const response = await post({
+			...INITIALIZE,
+			padding: 'x'.repeat(2048),
+		});
+		expect(response.status).toBe(413);
+	});
+
+	it('answers invalid JSON with 400', async () => {
+		const response = await fetch(`${baseUrl}/mcp`, {
+			method: 'POST',
+			headers: HEADERS,
+			body: '{not json',
+		});
+		expect(response.status).toBe(400);
+	});
+});
+
+describe('request checks', () => {
+	it('refuses malformed and foreign Host headers and keeps serving', async () => {
+		expect(await rawStatus(port, '/mcp', { Host: 'a:b:c' })).toBe(403);
+		expect(await rawStatus(port, '/mcp', { Host: 'evil.example:80' })).toBe(
+			403
+		);
+		expect(
+			await rawStatus(port, '//a:b:c', { Host: `localhost:${port}` })
+		).toBe(400);
+		expect((await post(INITIALIZE)).status).toBe(200);
+	});
+
+	it('refuses browser origins other than localhost', async () => {
+		expect(
+			(await post(INITIALIZE, { Origin: 'https://evil.example' })).status
+		).toBe(403);
+		expect(
+			(await post(INITIALIZE, { Origin: 'http://localhost:6274' })).status
+		).toBe(200);
+	});
+
+	it('returns 404 for other paths', async () => {
+		expect((await fetch(`${baseUrl}/nowhere`)).status).toBe(404);
+	});
+});
@@ -0,0 +1,148 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { config } from '../../src/config.js';
+import { coreTools } from '../../src/tools/definitions.js';
+import { ToolRegistry } from '../../src/tools/registry.js';
+import { openApiDocument, startRestServer } from '../../src/transports/rest.js';
+import { rawStatus } from './helpers.js';
+
+const registry = new ToolRegistry(coreTools);
+let server: Server;
+let port: number;
+let baseUrl: string;
+
+beforeAll(async () => {
+	server = await startRestServer({ host: '127.0.0.1', port: 0, registry });
+	port = (server.address() as AddressInfo).port;
+	baseUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(() => {
+	server.close();
+});
+
+afterEach(() => {
+	config.server.offline = false;
+	config.http.fixtures = 'replay';
+	config.server.maxRequestBodyKb = 4096;
+});
+
+function post(tool: string, body: string) {
+	return fetch(`${baseUrl}/tools/${tool}`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body,
+	});
+}
+
+async function json(response: Response): Promise<any> {
+	return response.json();
+}
+
+describe('REST transport', () => {
+	it('runs a tool and returns its structured result', async () => {
+		config.server.offline = true;
+		config.http.fixtures = 'off';
+
+		const response = await post(
+			'check_grammar',
+			JSON.stringify({ text: 'I saw a elephant at the the zoo.' })
+		);
+		expect(response.status).toBe(200);
+		expect(response.headers.get('x-trace-id')).toMatch(/^[0-9a-f]{16}$/);
+
+		const result = await json(response);
+		expect(result.errorCount).toBeGreaterThan(0);
+	});
+
+	it('rejects arguments that fail the input schema', async () => {
+		const response = await post('check_grammar', JSON.stringify({}));
+		expect(response.status).toBe(400);
+
+		const body = await json(response);
+		expect(body).toMatchObject({
+			success: false,
+			tool: 'check_grammar',
+			error: { code: 'INVALID_INPUT' },
+		});
+		expect(body.error.message).toMatch(/^text: /);
+	});
+
+	it('maps error codes to HTTP statuses', async () => {
+		expect((await post('check_grammar', '{not json')).status).toBe(400);
+		expect((await post('no_such_tool', '{}')).status).toBe(404);
+
+		config.server.offline = true;
+		config.http.fixtures = 'off';
+		const response = await post(
+			'detect_ai_content',
+			JSON.stringify({ text: 'Some text.' })
+		);
+		expect(response.status).toBe(503);
+		expect((await json(response)).error.code).toBe('OFFLINE');
+	});
+
+	it('answers bodies over the size limit with 413', async () => {
+		config.server.maxRequestBodyKb = 1;
+
+		const response = await post(
+			'check_grammar',
+			JSON.stringify({ text: 'x'.repeat(2048) })
+		);
+		expect(response.status).toBe(413);
+		expect((await json(response)).error.code).toBe('INVALID_INPUT');
+	});
+
+	it('refuses malformed and foreign Host headers and keeps serving', async () => {
+		expect(await rawStatus(port, '/openapi.json', { Host: 'a:b:c' })).toBe(
+			403
+		);
+		expect(
+			await rawStatus(port, '/openapi.json', { Host: 'evil.example:80' })
+		).toBe(403);
+		expect(
+			await rawStatus(port, '//a:b:c', { Host: `localhost:${port}` })
+		).toBe(400);
+		expect(
+			(
+				await fetch(`${baseUrl}/openapi.json`, {
+					headers: { Origin: 'https://evil.example' },
+				})
+			).status
+		).toBe(403);
+		expect((await fetch(`${baseUrl}/openapi.json`)).status).toBe(200);
+	});
+
+	it('only accepts POST for tools', async () => {
+		const response = await fetch(`${baseUrl}/tools/check_grammar`);
+		expect(response.status).toBe(405);
+		expect(response.headers.get('allow')).toBe('POST');
+	});
+});
+
+describe('openApiDocument', () => {
+	it('describes one POST operation per tool from its Zod schemas', async () => {
+		const response = await fetch(`${baseUrl}/openapi.json`);
+		const document = await json(response);
+		expect(document).toEqual(openApiDocument(registry));
+		expect(document.openapi).toBe('3.0.3');
+
+		const operation = document.paths['/tools/check_grammar'].post;
+		expect(operation.operationId).toBe('check_grammar');
+		expect(
+			operation.requestBody.content['application/json'].schema
+		).toMatchObject({
+			type: 'object',
+			properties: { text: { type: 'string' } },
+			required: ['text'],
+		});
+		expect(
+			operation.responses['200'].content['application/json'].schema
+				.properties
+		).toHaveProperty('errorCount');
+		expect(document.components.schemas.Error.properties).toHaveProperty(
+			'error'
+		);
+	});
+});
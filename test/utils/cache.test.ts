@@ -0,0 +1,103 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../../src/config.js';
+import { ResponseCache } from '../../src/utils/cache.js';
+
+let directory: string;
+
+beforeEach(async () => {
+	directory = await mkdtemp(join(tmpdir(), 'english-mcp-cache-'));
+});
+
+afterEach(async () => {
+	config.cache.maxSizeMb = 100;
+	config.cache.maxEntryKb = 1024;
+	await rm(directory, { recursive: true, force: true });
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ResponseCache.normalizeUrl', () => {
+	it('sorts parameters and drops fragments and credentials', () => {
+		expect(
+			ResponseCache.normalizeUrl(
+				'https://API.Example.com/words?max=5&key=secret&ml=happy&mailto=a@b.c#top'
+			)
+		).toBe('https://api.example.com/words?max=5&ml=happy');
+		expect(
+			ResponseCache.normalizeUrl('https://api.example.com/w?b=2&a=1&a=0')
+		).toBe(
+			ResponseCache.normalizeUrl('https://api.example.com/w?a=0&a=1&b=2')
+		);
+	});
+});
+
+describe('ResponseCache', () => {
+	it('shares entries between URLs that differ only in credentials', async () => {
+		const cache = new ResponseCache(directory);
+		await cache.set('datamuse', 'https://x.test/a?q=1&key=one', [1], 60);
+
+		expect(
+			await cache.get('datamuse', 'https://x.test/a?key=two&q=1')
+		).toEqual([1]);
+		expect(await cache.get('wikipedia', 'https://x.test/a?q=1')).toBe(
+			undefined
+		);
+	});
+
+	it('expires entries after their TTL unless stale ones are allowed', async () => {
+		const cache = new ResponseCache(directory);
+		await cache.set('datamuse', 'https://x.test/expired', 'old', 0);
+
+		expect(await cache.get('datamuse', 'https://x.test/expired')).toBe(
+			undefined
+		);
+		expect(
+			await cache.get('datamuse', 'https://x.test/expired', true)
+		).toBe('old');
+	});
+
+	it('skips entries over the entry size limit', async () => {
+		config.cache.maxEntryKb = 1;
+		const cache = new ResponseCache(directory);
+		await cache.set('datamuse', 'https://x.test/big', 'x'.repeat(2048), 60);
+
+		expect(await cache.get('datamuse', 'https://x.test/big')).toBe(
+			undefined
+		);
+		expect((await cache.stats()).entries).toBe(0);
+	});
+
+	it('evicts the oldest entries once the cache outgrows its limit', async () => {
+		config.cache.maxSizeMb = 2048 / (1024 * 1024);
+		const cache = new ResponseCache(directory);
+		for (let i = 0; i < 8; i++) {
+			await cache.set(
+				'datamuse',
+				`https://x.test/${i}`,
+				'x'.repeat(400),
+				60
+			);
+			await sleep(5);
+		}
+
+		const stats = await cache.stats();
+		expect(stats.bytes).toBeLessThanOrEqual(2048);
+		expect(stats.entries).toBeGreaterThan(0);
+		expect(await cache.get('datamuse', 'https://x.test/0')).toBe(undefined);
+		expect(await cache.get('datamuse', 'https://x.test/7')).toBeDefined();
+	});
+
+	it('clears one provider or all of them', async () => {
+		const cache = new ResponseCache(directory);
+		await cache.set('datamuse', 'https://x.test/a', 1, 60);
+		await cache.set('datamuse', 'https://x.test/b', 2, 60);
+		await cache.set('wikipedia', 'https://x.test/c', 3, 60);
+
+		expect(await cache.clear('datamuse')).toBe(2);
+		expect((await cache.stats()).entries).toBe(1);
+		expect(await cache.clear()).toBe(1);
+	});
+});
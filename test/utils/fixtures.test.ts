@@ -0,0 +1,68 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FixtureStore, fixtureFileName } from '../../src/utils/fixtures.js';
+import type { Fixture } from '../../src/utils/fixtures.js';
+
+let directory: string;
+
+beforeEach(async () => {
+	directory = await mkdtemp(join(tmpdir(), 'english-mcp-fixtures-'));
+});
+
+afterEach(async () => {
+	await rm(directory, { recursive: true, force: true });
+});
+
+describe('FixtureStore', () => {
+	it('replays what it recorded, whatever the parameter order', async () => {
+		const recorder = new FixtureStore(directory);
+		await recorder.record(
+			'datamuse',
+			'https://api.datamuse.com/words?ml=happy&max=3',
+			{},
+			new Response(JSON.stringify([{ word: 'glad' }]))
+		);
+
+		const response = await new FixtureStore(directory).replay(
+			'datamuse',
+			'https://api.datamuse.com/words?max=3&ml=happy',
+			{}
+		);
+		expect(await response.json()).toEqual([{ word: 'glad' }]);
+	});
+
+	it('replaces the same file when recording a request again', async () => {
+		const recorder = new FixtureStore(directory);
+		for (const word of ['glad', 'joyful']) {
+			await recorder.record(
+				'datamuse',
+				'https://api.datamuse.com/words?ml=happy',
+				{},
+				new Response(JSON.stringify([{ word }]))
+			);
+		}
+
+		expect(await readdir(join(directory, 'datamuse'))).toEqual([
+			fixtureFileName({
+				method: 'GET',
+				url: 'https://api.datamuse.com/words?ml=happy',
+			}),
+		]);
+	});
+
+	it('keeps the recorded fixtures under the names the recorder writes', async () => {
+		const root = resolve('test/fixtures');
+		for (const set of await readdir(root)) {
+			for (const name of await readdir(join(root, set))) {
+				const fixture = JSON.parse(
+					await readFile(join(root, set, name), 'utf8')
+				) as Fixture;
+				expect(`${set}/${name}`).toBe(
+					`${set}/${fixtureFileName(fixture.request)}`
+				);
+			}
+		}
+	});
+});
@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Mock } from 'vitest';
+import { config } from '../../src/config.js';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker.js';
+import { fetchJson } from '../../src/utils/http.js';
+import { usageStore } from '../../src/utils/usage.js';
+
+const SAPLING_URL = 'https://api.sapling.ai/api/v1/test';
+
+let fetchMock: Mock;
+
+function reply(status: number, headers: Record<string, string> = {}) {
+	return new Response(JSON.stringify({ status }), {
+		status,
+		headers: { 'Content-Type': 'application/json', ...headers },
+	});
+}
+
+/**
+ * fetch that never answers, failing only when its signal aborts
+ */
+function hang(_url: string, init: RequestInit): Promise<Response> {
+	return new Promise((_resolve, reject) => {
+		init.signal?.addEventListener('abort', () =>
+			reject(init.signal?.reason)
+		);
+	});
+}
+
+beforeEach(() => {
+	fetchMock = vi.fn();
+	vi.stubGlobal('fetch', fetchMock);
+	config.http.fixtures = 'off';
+	config.http.retryBaseDelayMs = 0;
+	config.http.circuitBreakerThreshold = 0;
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.useRealTimers();
+	config.http.fixtures = 'replay';
+	config.http.retryBaseDelayMs = 500;
+	config.http.retryMaxDelayMs = 30000;
+	config.http.maxRetries = 3;
+	config.http.timeoutMs = 15000;
+	config.http.circuitBreakerThreshold = 5;
+});
+
+describe('fetchJson retries', () => {
+	it('retries 5xx responses until one succeeds', async () => {
+		fetchMock
+			.mockResolvedValueOnce(reply(503))
+			.mockResolvedValueOnce(reply(502))
+			.mockResolvedValueOnce(reply(200));
+
+		await expect(
+			fetchJson(SAPLING_URL, { provider: 'sapling' })
+		).resolves.toEqual({
+			status: 200,
+		});
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('gives up after the configured retries', async () => {
+		config.http.maxRetries = 2;
+		fetchMock.mockImplementation(async () => reply(500));
+
+		await expect(
+			fetchJson(SAPLING_URL, { provider: 'sapling' })
+		).rejects.toMatchObject({
+			code: 'UPSTREAM_UNAVAILABLE',
+			status: 500,
+			retryable: true,
+		});
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('does not retry client errors', async () => {
+		fetchMock.mockResolvedValue(reply(404));
+
+		await expect(
+			fetchJson(SAPLING_URL, { provider: 'sapling' })
+		).rejects.toMatchObject({ code: 'NOT_FOUND' });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('waits as long as Retry-After asks, up to the maximum delay', async () => {
+		config.http.retryMaxDelayMs = 60;
+		fetchMock
+			.mockResolvedValueOnce(reply(429, { 'Retry-After': '120' }))
+			.mockResolvedValueOnce(reply(200));
+
+		const startedAt = Date.now();
+		await fetchJson(SAPLING_URL, { provider: 'sapling' });
+		expect(Date.now() - startedAt).toBeGreaterThanOrEqual(50);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('reports Retry-After on a final 429', async () => {
+		config.http.maxRetries = 0;
+		fetchMock.mockResolvedValue(reply(429, { 'Retry-After': '7' }));
+
+		await expect(
+			fetchJson(SAPLING_URL, { provider: 'sapling' })
+		).rejects.toMatchObject({ code: 'RATE_LIMITED', retryAfterMs: 7000 });
+	});
+
+	it('retries network errors, then reports the host unreachable', async () => {
+		config.http.maxRetries = 1;
+		fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+		await expect(
+			fetchJson(SAPLING_URL, { provider: 'sapling' })
+		).rejects.toMatchObject({ code: 'UPSTREAM_UNAVAILABLE' });
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('fetchJson timeouts and cancellation', () => {
+	it('maps an attempt that runs out of time to TIMEOUT', async () => {
+		config.http.timeoutMs = 20;
+		fetchMock.mockImplementation(hang);
+
+		await expect(
+			fetchJson(SAPLING_URL, { provider: 'sapling' })
+		).rejects.toMatchObject({ code: 'TIMEOUT', retryable: true });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('stops when the caller cancels', async () => {
+		fetchMock.mockImplementation(hang);
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 10);
+
+		await expect(
+			fetchJson(SAPLING_URL, {
+				provider: 'sapling',
+				signal: controller.signal,
+			})
+		).rejects.toMatchObject({ code: 'CANCELLED' });
+	});
+
+	it('stops waiting between retries when the caller cancels', async () => {
+		config.http.retryBaseDelayMs = 60000;
+		config.http.retryMaxDelayMs = 60000;
+		fetchMock.mockResolvedValue(reply(503));
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 10);
+
+		await expect(
+			fetchJson(SAPLING_URL, {
+				provider: 'sapling',
+				signal: controller.signal,
+			})
+		).rejects.toMatchObject({ code: 'CANCELLED' });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('circuit breaker', () => {
+	it('opens after repeated failures and skips the provider', async () => {
+		config.http.maxRetries = 0;
+		config.http.circuitBreakerThreshold = 2;
+		fetchMock.mockImplementation(async () => reply(500));
+		const url = 'https://en.wikipedia.org/w/api.php?action=test';
+
+		for (let i = 0; i < 2; i++) {
+			await expect(
+				fetchJson(url, { provider: 'wikipedia' })
+			).rejects.toMatchObject({ code: 'UPSTREAM_UNAVAILABLE' });
+		}
+		await expect(fetchJson(url, { provider: 'wikipedia' })).rejects.toThrow(
+			/temporarily unavailable after 2 consecutive failures/
+		);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('lets one trial through after the cooldown', () => {
+		vi.useFakeTimers();
+		const breaker = new CircuitBreaker('datamuse', 2, 1000);
+		breaker.recordFailure();
+		expect(breaker.state()).toBe('closed');
+		breaker.recordFailure();
+		expect(breaker.state()).toBe('open');
+		expect(() => breaker.check()).toThrow(
+			expect.objectContaining({ retryAfterMs: 1000 })
+		);
+
+		vi.advanceTimersByTime(1000);
+		expect(breaker.state()).toBe('half-open');
+		breaker.check();
+		expect(() => breaker.check()).toThrow();
+
+		breaker.recordFailure();
+		expect(breaker.state()).toBe('open');
+		vi.advanceTimersByTime(1000);
+		breaker.check();
+		breaker.recordSuccess();
+		expect(breaker.state()).toBe('closed');
+	});
+
+	it('frees the trial slot when the trial is cancelled', () => {
+		vi.useFakeTimers();
+		const breaker = new CircuitBreaker('datamuse', 1, 1000);
+		breaker.recordFailure();
+		vi.advanceTimersByTime(1000);
+
+		breaker.check();
+		breaker.release();
+		expect(() => breaker.check()).not.toThrow();
+	});
+
+	it('never opens with a threshold of 0', () => {
+		const breaker = new CircuitBreaker('datamuse', 0, 1000);
+		for (let i = 0; i < 10; i++) {
+			breaker.recordFailure();
+		}
+		expect(breaker.state()).toBe('closed');
+	});
+});
+
+describe('daily budget', () => {
+	const QUOTABLE_URL = 'https://api.quotable.io/random';
+
+	async function requestsTo(provider: string): Promise<number> {
+		const { providers } = await usageStore.report(1);
+		return (
+			providers.find((entry) => entry.provider === provider)?.requests ??
+			0
+		);
+	}
+
+	it('counts a request once, retries included', async () => {
+		fetchMock
+			.mockResolvedValueOnce(reply(503))
+			.mockResolvedValueOnce(reply(200));
+		const before = await requestsTo('sapling');
+
+		await fetchJson(SAPLING_URL, { provider: 'sapling' });
+		expect(await requestsTo('sapling')).toBe(before + 1);
+	});
+
+	it('does not count requests that are never sent', async () => {
+		config.http.maxRetries = 0;
+		config.http.circuitBreakerThreshold = 1;
+		fetchMock.mockImplementation(async () => reply(500));
+		const before = await requestsTo('quotable');
+
+		// Cancelled while waiting for the rate limit
+		await expect(
+			fetchJson(QUOTABLE_URL, {
+				provider: 'quotable',
+				signal: AbortSignal.abort(),
+			})
+		).rejects.toMatchObject({ code: 'CANCELLED' });
+		expect(await requestsTo('quotable')).toBe(before);
+
+		await expect(
+			fetchJson(QUOTABLE_URL, { provider: 'quotable' })
+		).rejects.toMatchObject({ code: 'UPSTREAM_UNAVAILABLE' });
+		expect(await requestsTo('quotable')).toBe(before + 1);
+
+		// Skipped by the open circuit
+		await expect(
+			fetchJson(QUOTABLE_URL, { provider: 'quotable' })
+		).rejects.toThrow(/temporarily unavailable/);
+		expect(await requestsTo('quotable')).toBe(before + 1);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
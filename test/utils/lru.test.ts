@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { LruMap } from '../../src/utils/lru.js';
+
+describe('LruMap', () => {
+	it('drops the least recently used entry past its limit', () => {
+		const map = new LruMap<string, number>(2);
+		map.set('a', 1);
+		map.set('b', 2);
+		map.get('a');
+		map.set('c', 3);
+
+		expect(map.get('b')).toBeUndefined();
+		expect([...map.values()]).toEqual([1, 3]);
+	});
+
+	it('counts overwriting an entry as using it', () => {
+		const map = new LruMap<string, number>(2);
+		map.set('a', 1);
+		map.set('b', 2);
+		map.set('a', 10);
+		map.set('c', 3);
+
+		expect([...map.values()]).toEqual([10, 3]);
+	});
+});
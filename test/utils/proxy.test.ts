@@ -0,0 +1,121 @@
+import { createServer } from 'http';
+import type { Server } from 'http';
+import { connect } from 'net';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { LanguageToolClient } from '../../src/api/languagetool.js';
+import { config } from '../../src/config.js';
+import { proxyFor } from '../../src/utils/proxy.js';
+
+const httpConfig = { ...config.http };
+
+afterEach(() => {
+	Object.assign(config.http, httpConfig);
+	config.languageTool.proxy = undefined;
+	config.languageTool.requestsPerMinute = undefined;
+});
+
+function listen(server: Server): Promise<string> {
+	return new Promise((resolve) => {
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as AddressInfo;
+			resolve(`http://127.0.0.1:${port}`);
+		});
+	});
+}
+
+describe('proxyFor', () => {
+	it('uses the global proxy unless the provider has its own', () => {
+		config.http.proxy = 'http://proxy.example:3128';
+		expect(proxyFor('https://api.datamuse.com/words', 'datamuse')).toBe(
+			'http://proxy.example:3128'
+		);
+
+		config.languageTool.proxy = 'http://other.example:8080';
+		expect(
+			proxyFor('https://api.languagetool.org/v2/check', 'languageTool')
+		).toBe('http://other.example:8080');
+	});
+
+	it('skips hosts and domain suffixes listed in noProxy', () => {
+		config.http.proxy = 'http://proxy.example:3128';
+		config.http.noProxy = 'localhost, .wikipedia.org';
+
+		expect(proxyFor('http://localhost:8010/v2/check')).toBeUndefined();
+		expect(proxyFor('https://en.wikipedia.org/w/api.php')).toBeUndefined();
+		expect(proxyFor('https://api.crossref.org/works')).toBe(
+			'http://proxy.example:3128'
+		);
+
+		config.http.noProxy = '*';
+		expect(proxyFor('https://api.crossref.org/works')).toBeUndefined();
+	});
+
+	it('returns nothing when no proxy is configured', () => {
+		config.http.proxy = undefined;
+		expect(proxyFor('https://api.crossref.org/works')).toBeUndefined();
+	});
+});
+
+describe('LanguageToolClient against a local stand-in', () => {
+	const requests: string[] = [];
+	const tunnels: string[] = [];
+	const upstream = createServer((request, response) => {
+		requests.push(`${request.method} ${request.url}`);
+		response.setHeader('Content-Type', 'application/json');
+		response.end(
+			JSON.stringify([
+				{ name: 'English (US)', code: 'en', longCode: 'en-US' },
+			])
+		);
+	});
+	// Minimal CONNECT proxy that records which hosts it tunnels to
+	const proxy = createServer();
+	proxy.on('connect', (request, socket, head) => {
+		tunnels.push(request.url ?? '');
+		const [host, port] = (request.url ?? '').split(':');
+		const target = connect(Number(port), host, () => {
+			socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+			target.write(head);
+			target.pipe(socket);
+			socket.pipe(target);
+		});
+	});
+	let upstreamUrl: string;
+	let proxyUrl: string;
+
+	beforeAll(async () => {
+		upstreamUrl = await listen(upstream);
+		proxyUrl = await listen(proxy);
+	});
+
+	afterAll(() => {
+		upstream.close();
+		proxy.close();
+	});
+
+	it('sends requests to the configured base URL', async () => {
+		config.http.fixtures = 'off';
+		config.languageTool.requestsPerMinute = 0;
+		const client = new LanguageToolClient({
+			baseUrl: `${upstreamUrl}/v2/`,
+		});
+
+		const languages = await client.getLanguages();
+
+		expect(languages[0].longCode).toBe('en-US');
+		expect(requests).toContain('GET /v2/languages');
+		expect(tunnels).toEqual([]);
+	});
+
+	it('routes requests through the proxy', async () => {
+		config.http.fixtures = 'off';
+		config.languageTool.requestsPerMinute = 0;
+		config.http.proxy = proxyUrl;
+		const client = new LanguageToolClient({ baseUrl: `${upstreamUrl}/v2` });
+
+		await client.getLanguages();
+
+		expect(tunnels).toEqual([new URL(upstreamUrl).host]);
+	});
+});
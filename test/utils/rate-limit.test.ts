@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CancelledError } from '../../src/errors.js';
+import {
+	abortable,
+	RateLimiter,
+	sleep,
+	TokenBucket,
+} from '../../src/utils/rate-limit.js';
+
+beforeEach(() => {
+	vi.useFakeTimers();
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+/**
+ * Whether a promise has settled, checked after pending microtasks run
+ */
+function tracked(promise: Promise<unknown>) {
+	const state = { settled: false };
+	promise.then(
+		() => (state.settled = true),
+		() => (state.settled = true)
+	);
+	return state;
+}
+
+describe('TokenBucket', () => {
+	it('allows a burst, then one request per refill interval', async () => {
+		const bucket = new TokenBucket(60, 2);
+		await bucket.take();
+		await bucket.take();
+
+		const third = tracked(bucket.take());
+		await vi.advanceTimersByTimeAsync(900);
+		expect(third.settled).toBe(false);
+		await vi.advanceTimersByTimeAsync(100);
+		expect(third.settled).toBe(true);
+	});
+
+	it('serves callers in the order they asked', async () => {
+		const bucket = new TokenBucket(60, 1);
+		const order: number[] = [];
+		const takes = [1, 2, 3].map((n) =>
+			bucket.take().then(() => order.push(n))
+		);
+
+		await vi.advanceTimersByTimeAsync(2000);
+		await Promise.all(takes);
+		expect(order).toEqual([1, 2, 3]);
+	});
+
+	it('holds every caller back while paused', async () => {
+		const bucket = new TokenBucket(600, 10);
+		bucket.pause(5000);
+
+		const take = tracked(bucket.take());
+		await vi.advanceTimersByTimeAsync(4999);
+		expect(take.settled).toBe(false);
+		await vi.advanceTimersByTimeAsync(1);
+		expect(take.settled).toBe(true);
+	});
+});
+
+describe('RateLimiter', () => {
+	it('limits each host separately', async () => {
+		const limiter = new RateLimiter();
+		await limiter.acquire('https://a.test/1', 60);
+
+		const sameHost = tracked(limiter.acquire('https://a.test/2', 60));
+		const otherHost = tracked(limiter.acquire('https://b.test/1', 60));
+		await vi.advanceTimersByTimeAsync(0);
+		expect(sameHost.settled).toBe(false);
+		expect(otherHost.settled).toBe(true);
+	});
+
+	it('does not limit when the rate is 0', async () => {
+		const limiter = new RateLimiter();
+		for (let i = 0; i < 100; i++) {
+			await limiter.acquire('https://a.test/', 0);
+		}
+	});
+
+	it('pauses a host after it asks callers to back off', async () => {
+		const limiter = new RateLimiter();
+		await limiter.acquire('https://a.test/', 6000);
+		limiter.pause('https://a.test/other', 3000);
+
+		const next = tracked(limiter.acquire('https://a.test/', 6000));
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(next.settled).toBe(false);
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(next.settled).toBe(true);
+	});
+
+	it('stops waiting when the request is cancelled', async () => {
+		const limiter = new RateLimiter();
+		await limiter.acquire('https://a.test/', 1);
+
+		const controller = new AbortController();
+		const waiting = limiter.acquire(
+			'https://a.test/',
+			1,
+			controller.signal
+		);
+		controller.abort();
+		await expect(waiting).rejects.toThrow(CancelledError);
+	});
+});
+
+describe('abortable', () => {
+	it('rejects at once when the signal has already aborted', async () => {
+		const controller = new AbortController();
+		controller.abort();
+
+		await expect(
+			abortable(Promise.resolve(1), controller.signal)
+		).rejects.toMatchObject({ code: 'CANCELLED' });
+		await expect(sleep(1000, controller.signal)).rejects.toThrow(
+			CancelledError
+		);
+	});
+
+	it('passes results through without a signal', async () => {
+		await expect(abortable(Promise.resolve(1))).resolves.toBe(1);
+	});
+});
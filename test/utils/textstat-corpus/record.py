@@ -0,0 +1,58 @@
+#!/usr/bin/env python3
+"""
+Record the Python textstat library's scores for every sample in
+samples.json, so the TypeScript port can be checked against them.
+
+    pip install textstat==0.7.3
+    npm run test:record-textstat
+"""
+
+import json
+import os
+from importlib.metadata import version
+
+import textstat
+
+HERE = os.path.dirname(os.path.abspath(__file__))
+METRICS = [
+	"flesch_reading_ease",
+	"flesch_kincaid_grade",
+	"gunning_fog",
+	"smog_index",
+	"automated_readability_index",
+	"coleman_liau_index",
+	"linsear_write_formula",
+	"dale_chall_readability_score",
+	"difficult_words",
+	"reading_time",
+	"syllable_count",
+	"lexicon_count",
+	"sentence_count",
+	"char_count",
+	"letter_count",
+	"polysyllabcount",
+	"monosyllabcount",
+]
+
+
+def score(text):
+	scores = {metric: getattr(textstat, metric)(text) for metric in METRICS}
+	scores["text_standard"] = textstat.text_standard(text, float_output=False)
+	return scores
+
+
+def main():
+	with open(os.path.join(HERE, "samples.json"), encoding="utf8") as file:
+		samples = json.load(file)
+
+	recorded = {
+		"textstat": version("textstat"),
+		"scores": {sample["name"]: score(sample["text"]) for sample in samples},
+	}
+	with open(os.path.join(HERE, "textstat.json"), "w", encoding="utf8") as file:
+		json.dump(recorded, file, indent=2)
+		file.write("\n")
+
+
+if __name__ == "__main__":
+	main()
@@ -0,0 +1,193 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import { InvalidInputError } from '../../src/errors.js';
+import {
+	analyzeReadability,
+	difficultWordsList,
+	lexiconCount,
+	sentenceCount,
+	syllableCount,
+} from '../../src/utils/textstat.js';
+import type { TextstatResults } from '../../src/utils/textstat.js';
+
+const SHORT = 'The cat sat on the mat.';
+const SIMPLE =
+	'The cat sat on the mat. The dog ran to the park. We all went home after that.';
+const ESSAY =
+	'Playing games has always been thought to be important to the development of well-balanced and creative children; however, what part, if any, they should play in the lives of adults has never been researched that deeply. I believe that playing games is every bit as important for adults as for children. Not only is taking time out to play games with our children and other adults valuable to building interpersonal relationships but is also a wonderful way to release built up tension.';
+
+describe('counts', () => {
+	it('counts words without punctuation', () => {
+		expect(lexiconCount("Well-balanced, isn't it?")).toBe(3);
+		expect(lexiconCount(' -- ')).toBe(0);
+	});
+
+	it('skips sentence fragments of two words or fewer', () => {
+		expect(sentenceCount(SIMPLE)).toBe(3);
+		expect(sentenceCount('Introduction. The study ran for a year.')).toBe(
+			1
+		);
+		expect(sentenceCount('Hi.')).toBe(1);
+	});
+
+	it('counts at least one syllable per word', () => {
+		expect(syllableCount('cat')).toBe(1);
+		expect(syllableCount('beautiful')).toBe(3);
+		expect(syllableCount('2024')).toBe(1);
+		expect(syllableCount(SHORT)).toBe(6);
+	});
+
+	it('lists distinct words outside the Dale-Chall list', () => {
+		expect(
+			difficultWordsList('Interpersonal tension, interpersonal tension.')
+		).toEqual(['interpersonal', 'tension']);
+		expect(
+			difficultWordsList('The happy children played outside.')
+		).toEqual([]);
+		expect(difficultWordsList('A tense hike.', 0)).toEqual([
+			'tense',
+			'hike',
+		]);
+	});
+});
+
+/*
+ * Expected scores here are textstat 0.7.3's formulas applied by hand to the
+ * counts asserted above; the corpus below checks the port against
+ * textstat's own output.
+ */
+describe('analyzeReadability', () => {
+	it('scores a one-sentence passage by the textstat formulas', () => {
+		expect(analyzeReadability(SHORT)).toEqual({
+			flesch_reading_ease: 116.15,
+			flesch_kincaid_grade: -1.5,
+			gunning_fog: 2.4,
+			smog_index: 0,
+			automated_readability_index: -4.4,
+			coleman_liau_index: -4.31,
+			linsear_write_formula: 2,
+			dale_chall_readability_score: 0.3,
+			difficult_words: 0,
+			text_standard: '-1th and 0th grade',
+			reading_time: 0.26,
+			syllable_count: 6,
+			lexicon_count: 6,
+			sentence_count: 1,
+			char_count: 18,
+			letter_count: 17,
+			polysyllabcount: 0,
+			monosyllabcount: 6,
+		});
+	});
+
+	it('needs three sentences for a SMOG grade', () => {
+		expect(analyzeReadability(SHORT).smog_index).toBe(0);
+		expect(analyzeReadability(SIMPLE).smog_index).toBe(3.1);
+	});
+
+	it('grades an essay paragraph', () => {
+		const stats = analyzeReadability(ESSAY);
+
+		expect(stats).toMatchObject({
+			lexicon_count: 82,
+			sentence_count: 3,
+			syllable_count: 130,
+			polysyllabcount: 11,
+			char_count: 404,
+			letter_count: 396,
+			flesch_reading_ease: 44.97,
+			flesch_kincaid_grade: 13.8,
+			gunning_fog: 13.37,
+			smog_index: 14.1,
+			automated_readability_index: 15.5,
+			coleman_liau_index: 11.13,
+			dale_chall_readability_score: 7.3,
+			text_standard: '13th and 14th grade',
+			reading_time: 5.93,
+		});
+		expect(stats.linsear_write_formula).toBeCloseTo(17.33, 2);
+	});
+
+	it('rejects empty text', () => {
+		expect(() => analyzeReadability('  ')).toThrow(InvalidInputError);
+	});
+});
+
+const CORPUS = resolve('test/utils/textstat-corpus');
+
+/**
+ * How far each score may be from textstat's. Scores built from words,
+ * sentences and characters must match. Syllables come from the syllable
+ * package, while textstat counts pyphen hyphenation points plus one, and
+ * pyphen never splits off a single letter at either end of a word, so
+ * "about" is one syllable to textstat and two here. Syllable counts and
+ * the scores built on them may drift by that much.
+ */
+const TOLERANCES: Record<
+	Exclude<keyof TextstatResults, 'text_standard'>,
+	number
+> = {
+	lexicon_count: 0,
+	sentence_count: 0,
+	char_count: 0,
+	letter_count: 0,
+	automated_readability_index: 0.1,
+	coleman_liau_index: 0.01,
+	reading_time: 0.01,
+	syllable_count: 5,
+	monosyllabcount: 5,
+	polysyllabcount: 2,
+	difficult_words: 3,
+	flesch_reading_ease: 6,
+	flesch_kincaid_grade: 1,
+	gunning_fog: 1,
+	smog_index: 1,
+	linsear_write_formula: 1.5,
+	dale_chall_readability_score: 0.5,
+};
+
+interface RecordedScores {
+	textstat: string;
+	scores: Record<string, TextstatResults>;
+}
+
+const samples: { name: string; text: string }[] = JSON.parse(
+	readFileSync(join(CORPUS, 'samples.json'), 'utf8')
+);
+const recorded: RecordedScores | undefined = existsSync(
+	join(CORPUS, 'textstat.json')
+)
+	? JSON.parse(readFileSync(join(CORPUS, 'textstat.json'), 'utf8'))
+	: undefined;
+
+/*
+ * textstat.json holds textstat's scores for samples.json, written by
+ * `npm run test:record-textstat` (pip install textstat==0.7.3 first).
+ * Samples without recorded scores are skipped.
+ */
+describe('textstat reference corpus', () => {
+	samples.forEach(({ name, text }) => {
+		const expected = recorded?.scores[name];
+		it.skipIf(!expected)(`matches textstat on "${name}"`, () => {
+			const actual = analyzeReadability(text);
+
+			(Object.keys(TOLERANCES) as (keyof typeof TOLERANCES)[]).forEach(
+				(metric) => {
+					expect(
+						Math.abs(actual[metric] - expected![metric]),
+						`${metric}: ${actual[metric]} vs textstat ${
+							expected![metric]
+						}`
+					).toBeLessThanOrEqual(TOLERANCES[metric] + 1e-9);
+				}
+			);
+			const [grade] = actual.text_standard.match(/-?\d+/) ?? [];
+			const [expectedGrade] =
+				expected!.text_standard.match(/-?\d+/) ?? [];
+			expect(
+				Math.abs(Number(grade) - Number(expectedGrade))
+			).toBeLessThanOrEqual(1);
+		});
+	});
+});
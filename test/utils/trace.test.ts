@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/config.js';
+import { fetchJson } from '../../src/utils/http.js';
+import { Logger } from '../../src/utils/logger.js';
+import type { LogEntry } from '../../src/utils/logger.js';
+import { runWithContext } from '../../src/utils/request-context.js';
+import { Trace } from '../../src/utils/trace.js';
+
+const level = config.logging.level;
+
+afterEach(() => {
+	config.logging.level = level;
+	vi.restoreAllMocks();
+});
+
+function sessionLogger() {
+	const entries: LogEntry[] = [];
+	return { entries, logger: new Logger((entry) => entries.push(entry)) };
+}
+
+describe('Trace', () => {
+	it('records the upstream calls made in its request context', async () => {
+		const { entries, logger } = sessionLogger();
+		logger.setLevel('debug');
+		const trace = new Trace('suggest_words', logger);
+
+		await runWithContext({ trace }, () =>
+			fetchJson('https://api.datamuse.com/sug?s=serend&max=2', {
+				provider: 'datamuse',
+			})
+		);
+		await runWithContext({ trace }, () =>
+			fetchJson('https://api.datamuse.com/sug?s=unrecorded', {
+				provider: 'datamuse',
+			})
+		).catch(() => undefined);
+		trace.finish();
+
+		expect(trace.id).toMatch(/^[0-9a-f]{16}$/);
+		expect(trace.calls).toEqual([
+			expect.objectContaining({
+				provider: 'datamuse',
+				method: 'GET',
+				host: 'api.datamuse.com',
+				status: 200,
+				cacheHit: false,
+			}),
+			expect.objectContaining({ error: 'INTERNAL', cacheHit: false }),
+		]);
+
+		expect(entries.map((entry) => entry.level)).toEqual([
+			'debug',
+			'debug',
+			'info',
+		]);
+		expect(entries[0].message).toMatch(
+			/^GET api\.datamuse\.com 200 in \d+ms$/
+		);
+		expect(entries[2]).toMatchObject({
+			logger: 'tools',
+			message: expect.stringMatching(
+				/^suggest_words finished in \d+ms with 2 upstream calls$/
+			),
+			data: { traceId: trace.id, calls: trace.calls },
+		});
+	});
+
+	it('reports failed calls as warnings', () => {
+		const { entries, logger } = sessionLogger();
+		logger.setLevel('info');
+		const trace = new Trace('check_grammar', logger);
+		trace.finish('Error (TIMEOUT): LanguageTool did not respond');
+
+		expect(entries).toEqual([
+			expect.objectContaining({
+				level: 'warning',
+				message: expect.stringMatching(
+					/^check_grammar failed in \d+ms after 0 upstream calls: Error \(TIMEOUT\)/
+				),
+			}),
+		]);
+	});
+});
+
+describe('Logger', () => {
+	it('filters client and stderr output by their own levels', () => {
+		const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+		config.logging.level = 'warning';
+		const { entries, logger } = sessionLogger();
+
+		logger.log({ level: 'info', logger: 'tools', message: 'finished' });
+		expect(entries).toHaveLength(0);
+		expect(stderr).not.toHaveBeenCalled();
+
+		logger.setLevel('debug');
+		logger.log({ level: 'debug', logger: 'http', message: 'GET' });
+		logger.log({
+			level: 'error',
+			logger: 'tools',
+			message: 'broke',
+			data: { traceId: 'abc' },
+		});
+		expect(entries.map((entry) => entry.message)).toEqual(['GET', 'broke']);
+		expect(stderr).toHaveBeenCalledTimes(1);
+		expect(stderr).toHaveBeenCalledWith('[error] tools: broke (trace abc)');
+	});
+});
@@ -0,0 +1,136 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../../src/config.js';
+import { Logger } from '../../src/utils/logger.js';
+import type { LogEntry } from '../../src/utils/logger.js';
+import { runWithContext } from '../../src/utils/request-context.js';
+import { Trace } from '../../src/utils/trace.js';
+import { UsageStore } from '../../src/utils/usage.js';
+
+let directory: string;
+let now: Date;
+
+function store() {
+	return new UsageStore(join(directory, 'usage.json'), () => now);
+}
+
+beforeEach(async () => {
+	directory = await mkdtemp(join(tmpdir(), 'english-mcp-usage-'));
+	now = new Date('2026-03-10T22:00:00Z');
+});
+
+afterEach(async () => {
+	config.sapling.dailyBudget = undefined;
+	config.sapling.budgetAction = 'block';
+	await rm(directory, { recursive: true, force: true });
+});
+
+describe('UsageStore', () => {
+	it('counts requests per provider and per tool across restarts', async () => {
+		await runWithContext({ tool: 'check_grammar' }, async () => {
+			await store().reserve('sapling');
+			await store().reserve('sapling');
+		});
+		await store().reserve('datamuse');
+		await store().recordToolCall('check_grammar', false);
+		await store().recordToolCall('check_grammar', true);
+
+		const report = await store().report(1);
+		expect(report.date).toBe('2026-03-10');
+		expect(report.resetsAt).toBe('2026-03-11T00:00:00.000Z');
+		expect(report.providers).toEqual([
+			{ provider: 'sapling', name: 'Sapling', requests: 2 },
+			{ provider: 'datamuse', name: 'Datamuse', requests: 1 },
+		]);
+		expect(report.tools).toEqual([
+			{ name: 'check_grammar', calls: 2, errors: 1, upstream: 2 },
+		]);
+	});
+
+	it('blocks requests once the daily budget is used up', async () => {
+		config.sapling.dailyBudget = 2;
+		const usage = store();
+		await usage.reserve('sapling');
+		await usage.reserve('sapling');
+
+		await expect(usage.reserve('sapling')).rejects.toMatchObject({
+			code: 'QUOTA_EXCEEDED',
+			retryable: true,
+			provider: 'sapling',
+			retryAfterMs: 2 * 60 * 60 * 1000,
+		});
+		expect((await usage.report(1)).budgets).toEqual([
+			{
+				provider: 'sapling',
+				name: 'Sapling',
+				used: 2,
+				budget: 2,
+				remaining: 0,
+				action: 'block',
+			},
+		]);
+
+		// The budget resets at midnight UTC
+		now = new Date('2026-03-11T00:00:01Z');
+		await expect(usage.reserve('sapling')).resolves.toBeUndefined();
+		const week = await usage.report(7);
+		expect(week.providers[0].requests).toBe(3);
+	});
+
+	it('warns as the budget runs low and when over it in warn mode', async () => {
+		config.sapling.dailyBudget = 5;
+		config.sapling.budgetAction = 'warn';
+		const entries: LogEntry[] = [];
+		const logger = new Logger((entry) => entries.push(entry));
+		logger.setLevel('warning');
+		const trace = new Trace('check_grammar', logger);
+
+		const usage = store();
+		await runWithContext({ trace }, async () => {
+			for (let i = 0; i < 6; i++) {
+				await usage.reserve('sapling');
+			}
+		});
+
+		expect(entries.map((entry) => entry.message)).toEqual([
+			'Sapling has used 4 of its 5 daily requests',
+			'Sapling has used 5 of its 5 daily requests',
+			'Sapling is over its daily budget: 6 of 5 requests',
+		]);
+		expect(entries[0].data).toMatchObject({ traceId: trace.id });
+	});
+
+	it('replaces the file whole, leaving no partial writes behind', async () => {
+		const usage = store();
+		await Promise.all(
+			Array.from({ length: 10 }, () => usage.reserve('datamuse'))
+		);
+
+		expect(await readdir(directory)).toEqual(['usage.json']);
+		expect((await store().report(1)).providers[0].requests).toBe(10);
+	});
+
+	it('moves a file it cannot parse aside and starts again', async () => {
+		const path = join(directory, 'usage.json');
+		await writeFile(path, '{"days": {"2026-03-10": {"provid');
+		const entries: LogEntry[] = [];
+		const logger = new Logger((entry) => entries.push(entry));
+		logger.setLevel('warning');
+
+		await runWithContext(
+			{ trace: new Trace('check_grammar', logger) },
+			async () => {
+				await store().reserve('datamuse');
+				await store().recordToolCall('check_grammar', false);
+			}
+		);
+		expect(await readFile(`${path}.corrupt-${now.getTime()}`, 'utf8')).toBe(
+			'{"days": {"2026-03-10": {"provid'
+		);
+		expect(entries).toHaveLength(1);
+		expect(entries[0].message).toMatch(/could not be parsed/);
+		expect((await store().report(1)).providers[0].requests).toBe(1);
+	});
+});
@@ -0,0 +1,28 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Tests replay recorded upstream responses from test/fixtures, so they run
+ * without network access or API keys. Set ENGLISH_MCP_FIXTURES=record (with
+ * real keys in the environment) to capture new fixtures. Only errors are
+ * logged to stderr, and saved data goes to a temporary directory.
+ */
+export default defineConfig({
+	test: {
+		include: ['test/**/*.test.ts'],
+		env: {
+			ENGLISH_MCP_CONFIG: '',
+			ENGLISH_MCP_FIXTURES: process.env.ENGLISH_MCP_FIXTURES || 'replay',
+			ENGLISH_MCP_CACHE: 'false',
+			ENGLISH_MCP_DATA_DIR: join(tmpdir(), 'english-mcp-test'),
+			ENGLISH_MCP_LOG_LEVEL: process.env.ENGLISH_MCP_LOG_LEVEL || 'error',
+			MERRIAM_WEBSTER_THESAURUS_KEY:
+				process.env.MERRIAM_WEBSTER_THESAURUS_KEY || 'test-key',
+			MERRIAM_WEBSTER_DICTIONARY_KEY:
+				process.env.MERRIAM_WEBSTER_DICTIONARY_KEY || 'test-key',
+			SAPLING_PRIVATE_KEY: process.env.SAPLING_PRIVATE_KEY || 'test-key',
+			WORDNIK_API_KEY: process.env.WORDNIK_API_KEY || 'test-key',
+		},
+	},
+});